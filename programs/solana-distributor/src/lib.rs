@@ -1,5 +1,13 @@
 use anchor_lang::prelude::*;
 use anchor_lang::solana_program::keccak;
+use anchor_spl::associated_token::AssociatedToken;
+use anchor_spl::token_2022::spl_token_2022::extension::{
+    transfer_fee::TransferFeeConfig, BaseStateWithExtensions, StateWithExtensions,
+};
+use anchor_spl::token_2022::spl_token_2022::state::Mint as MintState;
+use anchor_spl::token_interface::{
+    transfer_checked, Mint, TokenAccount, TokenInterface, TransferChecked,
+};
 
 declare_id!("ErbDoJTnJyG6EBXHeFochTsHJhB3Jfjc3MF1L9aNip3y");
 
@@ -9,17 +17,34 @@ pub mod solana_distributor {
 
     pub fn initialize_airdrop(
         ctx: Context<Initialize>,
+        airdrop_id: [u8; 32],
         merkle_root: [u8; 32],
         amount: u64,
+        claim_end_time: i64,
+        vesting: Vesting,
+        phases: ClaimPhases,
     ) -> Result<()> {
+        require_valid_claim_end_time(claim_end_time)?;
+        require_valid_vesting(&vesting, claim_end_time)?;
+        require_valid_phases(&phases, claim_end_time)?;
         let airdrop_state = &mut ctx.accounts.airdrop_state;
         
         // Populate the airdrop state account data
+        airdrop_state.airdrop_id = airdrop_id;
         airdrop_state.merkle_root = merkle_root;
         airdrop_state.authority = ctx.accounts.authority.key();
         airdrop_state.airdrop_amount = amount;
         airdrop_state.amount_claimed = 0;
         airdrop_state.bump = ctx.bumps.airdrop_state;
+        // Pubkey::default() marks a native SOL airdrop
+        airdrop_state.mint = Pubkey::default();
+        airdrop_state.claim_end_time = claim_end_time;
+        airdrop_state.vesting = vesting;
+        airdrop_state.phases = phases;
+        airdrop_state.paused = false;
+        airdrop_state.pending_authority = Pubkey::default();
+        airdrop_state.clawed_back = false;
+        airdrop_state.amount_clawed_back = 0;
 
         // Transfer SOL from authority to the vault (airdrop_state account)
         let transfer_ix = anchor_lang::solana_program::system_instruction::transfer(
@@ -49,28 +74,138 @@ pub mod solana_distributor {
         let airdrop_state = &mut ctx.accounts.airdrop_state;
         let signer = &ctx.accounts.signer;
 
+        // Token airdrops are paid from their vault by claim_token_airdrop
+        require!(
+            airdrop_state.mint == Pubkey::default(),
+            ErrorCode::WrongDistributionMode
+        );
+        require!(!airdrop_state.clawed_back, ErrorCode::ClawedBack);
+        require!(!airdrop_state.paused, ErrorCode::ClaimsPaused);
+        require!(claims_open(airdrop_state)?, ErrorCode::ClaimWindowClosed);
+
         // Step 1: Recreate the original leaf hash from the claimant's data
-        let mut leaf_data = Vec::new();
-        leaf_data.extend_from_slice(&signer.key().to_bytes());
-        leaf_data.extend_from_slice(&amount.to_le_bytes());
-        leaf_data.push(0u8); // isClaimed flag (0 = false)
-        
-        let leaf_hash = keccak::hash(&leaf_data).to_bytes();
+        let leaf_hash = compute_leaf(&signer.key(), amount);
 
-        // Step 2: Verify the Merkle proof by recomputing the root
+        // Step 2: Verify the Merkle proof by recomputing the root of the
+        // tree the current phase accepts
         let computed_root = verify_merkle_proof(&leaf_hash, &proof, leaf_index)?;
         
+        require_phase_root(airdrop_state, &computed_root)?;
+
+        // Step 3: Transfer whatever has vested since the last claim from
+        // airdrop_state to the user
+        let claimable = withdraw_vested(airdrop_state, &mut ctx.accounts.user_claim, amount)?;
+
+        **airdrop_state.to_account_info().try_borrow_mut_lamports()? -= claimable;
+        **ctx.accounts.signer.to_account_info().try_borrow_mut_lamports()? += claimable;
+
+        // Step 4: Update state accounting
+        airdrop_state.amount_claimed = airdrop_state.amount_claimed.saturating_add(claimable);
+
+        Ok(())
+    }
+
+    pub fn claim_airdrop_batch<'info>(
+        ctx: Context<'_, '_, 'info, 'info, ClaimBatch<'info>>,
+        amounts: Vec<u64>,
+        leaf_indices: Vec<u64>,
+        proof: Vec<[u8; 32]>,
+        proof_flags: Vec<bool>,
+    ) -> Result<()> {
+        // remaining_accounts holds one (claimant, claim status PDA) pair per
+        // claim, in the same order as amounts and leaf_indices
         require!(
-            computed_root == airdrop_state.merkle_root,
-            ErrorCode::InvalidProof
+            ctx.accounts.airdrop_state.mint == Pubkey::default(),
+            ErrorCode::WrongDistributionMode
+        );
+        require!(!ctx.accounts.airdrop_state.clawed_back, ErrorCode::ClawedBack);
+        require!(!ctx.accounts.airdrop_state.paused, ErrorCode::ClaimsPaused);
+        require!(
+            claims_open(&ctx.accounts.airdrop_state)?,
+            ErrorCode::ClaimWindowClosed
         );
 
-        // Step 3: Transfer SOL from airdrop_state to the user
-        **airdrop_state.to_account_info().try_borrow_mut_lamports()? -= amount;
-        **ctx.accounts.signer.to_account_info().try_borrow_mut_lamports()? += amount;
+        let claim_count = amounts.len();
+        require!(
+            claim_count > 0
+                && leaf_indices.len() == claim_count
+                && ctx.remaining_accounts.len() == claim_count * 2,
+            ErrorCode::InvalidBatch
+        );
+
+        let airdrop_state_key = ctx.accounts.airdrop_state.key();
+
+        // Step 1: Recreate every leaf from the claimant's signature and amount
+        let mut leaves = Vec::with_capacity(claim_count);
+        for (i, amount) in amounts.iter().enumerate() {
+            let claimant = &ctx.remaining_accounts[i * 2];
+            require!(
+                claimant.is_signer && claimant.is_writable,
+                ErrorCode::InvalidBatch
+            );
+            leaves.push((leaf_indices[i], compute_leaf(claimant.key, *amount)));
+        }
+
+        // Step 2: Verify all leaves against the root with one multiproof
+        let computed_root = verify_merkle_multiproof(&leaves, &proof, &proof_flags)?;
+
+        require_phase_root(&ctx.accounts.airdrop_state, &computed_root)?;
+
+        // Step 3: Create each claim status account and pay the claimant what
+        // has vested so far; later withdrawals go through claim_airdrop
+        let rent = Rent::get()?;
+        let now = Clock::get()?.unix_timestamp;
+        let claim_status_space = 8 + std::mem::size_of::<ClaimStatus>();
+        let mut total_claimed: u64 = 0;
+
+        for (i, amount) in amounts.iter().enumerate() {
+            let claimant = &ctx.remaining_accounts[i * 2];
+            let user_claim = &ctx.remaining_accounts[i * 2 + 1];
+
+            let (user_claim_key, bump) = Pubkey::find_program_address(
+                &[b"claim", airdrop_state_key.as_ref(), claimant.key.as_ref()],
+                ctx.program_id,
+            );
+            require_keys_eq!(user_claim.key(), user_claim_key, ErrorCode::InvalidBatch);
+
+            // Batches only cover first claims: an existing ClaimStatus means
+            // the recipient already claimed, and later withdrawals go through
+            // claim_airdrop. Lamports alone prove nothing, since anyone can
+            // send them to the address.
+            require!(
+                user_claim.data_is_empty() && user_claim.owner == &System::id(),
+                ErrorCode::AlreadyClaimed
+            );
+
+            let claimable = vested_amount(&ctx.accounts.airdrop_state.vesting, *amount, now);
+            require!(claimable > 0, ErrorCode::NothingVested);
+
+            create_pda_account(
+                &ctx.accounts.payer.to_account_info(),
+                user_claim,
+                &ctx.accounts.system_program.to_account_info(),
+                rent.minimum_balance(claim_status_space),
+                claim_status_space,
+                ctx.program_id,
+                &[
+                    b"claim",
+                    airdrop_state_key.as_ref(),
+                    claimant.key.as_ref(),
+                    &[bump],
+                ],
+            )?;
+            ClaimStatus { withdrawn: claimable }
+                .try_serialize(&mut &mut user_claim.try_borrow_mut_data()?[..])?;
+
+            **ctx.accounts.airdrop_state.to_account_info().try_borrow_mut_lamports()? -= claimable;
+            **claimant.try_borrow_mut_lamports()? += claimable;
+
+            total_claimed = total_claimed.saturating_add(claimable);
+        }
 
         // Step 4: Update state accounting
-        airdrop_state.amount_claimed = airdrop_state.amount_claimed.saturating_add(amount);
+        let airdrop_state = &mut ctx.accounts.airdrop_state;
+        airdrop_state.amount_claimed = airdrop_state.amount_claimed.saturating_add(total_claimed);
 
         Ok(())
     }
@@ -87,12 +222,21 @@ pub mod solana_distributor {
             ctx.accounts.authority.key() == airdrop_state.authority,
             ErrorCode::Unauthorized
         );
+        // A clawed back airdrop is closed for good; a new root or top-up
+        // could never be claimed
+        require!(!airdrop_state.clawed_back, ErrorCode::ClawedBack);
 
         // Update the Merkle root
         airdrop_state.merkle_root = new_merkle_root;
         
         // Add additional SOL to the airdrop if provided
         if additional_amount > 0 {
+            // Token vaults are topped up with a plain token transfer instead
+            require!(
+                airdrop_state.mint == Pubkey::default(),
+                ErrorCode::WrongDistributionMode
+            );
+
             airdrop_state.airdrop_amount = airdrop_state.airdrop_amount.saturating_add(additional_amount);
             
             // Transfer additional SOL from authority to the vault
@@ -114,6 +258,460 @@ pub mod solana_distributor {
 
         Ok(())
     }
+
+    // Emergency switch: while paused every claim instruction fails; the
+    // authority can still update the root and claw back
+    pub fn set_paused(ctx: Context<SetPaused>, paused: bool) -> Result<()> {
+        let airdrop_state = &mut ctx.accounts.airdrop_state;
+
+        require!(
+            ctx.accounts.authority.key() == airdrop_state.authority,
+            ErrorCode::Unauthorized
+        );
+
+        airdrop_state.paused = paused;
+
+        Ok(())
+    }
+
+    // First step of an authority transfer: the current authority names its
+    // successor, who must accept with accept_authority. Proposing
+    // Pubkey::default() cancels a pending transfer.
+    pub fn propose_authority(ctx: Context<ProposeAuthority>, new_authority: Pubkey) -> Result<()> {
+        let airdrop_state = &mut ctx.accounts.airdrop_state;
+
+        require!(
+            ctx.accounts.authority.key() == airdrop_state.authority,
+            ErrorCode::Unauthorized
+        );
+
+        airdrop_state.pending_authority = new_authority;
+
+        Ok(())
+    }
+
+    // Second step: the proposed authority signs to take over, so a mistyped
+    // key can never lock the airdrop
+    pub fn accept_authority(ctx: Context<AcceptAuthority>) -> Result<()> {
+        let airdrop_state = &mut ctx.accounts.airdrop_state;
+
+        require!(
+            airdrop_state.pending_authority != Pubkey::default()
+                && ctx.accounts.new_authority.key() == airdrop_state.pending_authority,
+            ErrorCode::NotPendingAuthority
+        );
+
+        airdrop_state.authority = airdrop_state.pending_authority;
+        airdrop_state.pending_authority = Pubkey::default();
+
+        Ok(())
+    }
+
+    pub fn initialize_token_airdrop(
+        ctx: Context<InitializeToken>,
+        airdrop_id: [u8; 32],
+        merkle_root: [u8; 32],
+        amount: u64,
+        claim_end_time: i64,
+        vesting: Vesting,
+        phases: ClaimPhases,
+    ) -> Result<()> {
+        require_valid_claim_end_time(claim_end_time)?;
+        require_valid_vesting(&vesting, claim_end_time)?;
+        require_valid_phases(&phases, claim_end_time)?;
+        let airdrop_state = &mut ctx.accounts.airdrop_state;
+
+        // Populate the airdrop state account data
+        airdrop_state.airdrop_id = airdrop_id;
+        airdrop_state.merkle_root = merkle_root;
+        airdrop_state.authority = ctx.accounts.authority.key();
+        airdrop_state.airdrop_amount = amount;
+        airdrop_state.amount_claimed = 0;
+        airdrop_state.bump = ctx.bumps.airdrop_state;
+        airdrop_state.mint = ctx.accounts.mint.key();
+        airdrop_state.claim_end_time = claim_end_time;
+        airdrop_state.vesting = vesting;
+        airdrop_state.phases = phases;
+        airdrop_state.paused = false;
+        airdrop_state.pending_authority = Pubkey::default();
+        airdrop_state.clawed_back = false;
+        airdrop_state.amount_clawed_back = 0;
+
+        // Fund the vault so it holds the full amount after any Token-2022
+        // transfer fee on the deposit
+        let deposit = gross_up_for_transfer_fee(&ctx.accounts.mint.to_account_info(), amount)?;
+
+        transfer_checked(
+            CpiContext::new(
+                ctx.accounts.token_program.to_account_info(),
+                TransferChecked {
+                    from: ctx.accounts.authority_token_account.to_account_info(),
+                    mint: ctx.accounts.mint.to_account_info(),
+                    to: ctx.accounts.vault.to_account_info(),
+                    authority: ctx.accounts.authority.to_account_info(),
+                },
+            ),
+            deposit,
+            ctx.accounts.mint.decimals,
+        )?;
+
+        Ok(())
+    }
+
+    pub fn claim_token_airdrop(
+        ctx: Context<ClaimToken>,
+        amount: u64,
+        proof: Vec<[u8; 32]>,
+        leaf_index: u64,
+    ) -> Result<()> {
+        require!(!ctx.accounts.airdrop_state.clawed_back, ErrorCode::ClawedBack);
+        require!(!ctx.accounts.airdrop_state.paused, ErrorCode::ClaimsPaused);
+        require!(
+            claims_open(&ctx.accounts.airdrop_state)?,
+            ErrorCode::ClaimWindowClosed
+        );
+
+        // Step 1: Recreate the original leaf hash from the claimant's data
+        let leaf_hash = compute_leaf(&ctx.accounts.signer.key(), amount);
+
+        // Step 2: Verify the Merkle proof by recomputing the root of the
+        // tree the current phase accepts
+        let computed_root = verify_merkle_proof(&leaf_hash, &proof, leaf_index)?;
+
+        require_phase_root(&ctx.accounts.airdrop_state, &computed_root)?;
+
+        // Step 3: Transfer whatever has vested since the last claim from the
+        // vault to the claimant's associated token account; a Token-2022
+        // transfer fee is withheld from what the claimant receives
+        let claimable = withdraw_vested(
+            &ctx.accounts.airdrop_state,
+            &mut ctx.accounts.user_claim,
+            amount,
+        )?;
+        let airdrop_id = ctx.accounts.airdrop_state.airdrop_id;
+        let bump = ctx.accounts.airdrop_state.bump;
+        let signer_seeds: &[&[&[u8]]] = &[&[b"merkle_tree", airdrop_id.as_ref(), &[bump]]];
+
+        transfer_checked(
+            CpiContext::new_with_signer(
+                ctx.accounts.token_program.to_account_info(),
+                TransferChecked {
+                    from: ctx.accounts.vault.to_account_info(),
+                    mint: ctx.accounts.mint.to_account_info(),
+                    to: ctx.accounts.claimant_token_account.to_account_info(),
+                    authority: ctx.accounts.airdrop_state.to_account_info(),
+                },
+                signer_seeds,
+            ),
+            claimable,
+            ctx.accounts.mint.decimals,
+        )?;
+
+        // Step 4: Update state accounting
+        let airdrop_state = &mut ctx.accounts.airdrop_state;
+        airdrop_state.amount_claimed = airdrop_state.amount_claimed.saturating_add(claimable);
+
+        Ok(())
+    }
+
+    pub fn clawback(ctx: Context<Clawback>) -> Result<()> {
+        let airdrop_state = &mut ctx.accounts.airdrop_state;
+
+        require!(
+            ctx.accounts.authority.key() == airdrop_state.authority,
+            ErrorCode::Unauthorized
+        );
+        require!(
+            airdrop_state.mint == Pubkey::default(),
+            ErrorCode::WrongDistributionMode
+        );
+        require_clawback_allowed(airdrop_state)?;
+
+        // Everything above the rent-exempt minimum, so the state account
+        // and its record of the airdrop stay alive
+        let state_info = airdrop_state.to_account_info();
+        let rent = Rent::get()?.minimum_balance(state_info.data_len());
+        let amount = state_info.lamports().saturating_sub(rent);
+
+        **state_info.try_borrow_mut_lamports()? -= amount;
+        **ctx.accounts.destination.to_account_info().try_borrow_mut_lamports()? += amount;
+
+        airdrop_state.clawed_back = true;
+        airdrop_state.amount_clawed_back = amount;
+
+        Ok(())
+    }
+
+    pub fn clawback_token(ctx: Context<ClawbackToken>) -> Result<()> {
+        let airdrop_state = &ctx.accounts.airdrop_state;
+
+        require!(
+            ctx.accounts.authority.key() == airdrop_state.authority,
+            ErrorCode::Unauthorized
+        );
+        require_clawback_allowed(airdrop_state)?;
+
+        // The whole vault balance; a Token-2022 transfer fee is withheld from
+        // what the destination receives
+        let amount = ctx.accounts.vault.amount;
+        let airdrop_id = airdrop_state.airdrop_id;
+        let bump = airdrop_state.bump;
+        let signer_seeds: &[&[&[u8]]] = &[&[b"merkle_tree", airdrop_id.as_ref(), &[bump]]];
+
+        transfer_checked(
+            CpiContext::new_with_signer(
+                ctx.accounts.token_program.to_account_info(),
+                TransferChecked {
+                    from: ctx.accounts.vault.to_account_info(),
+                    mint: ctx.accounts.mint.to_account_info(),
+                    to: ctx.accounts.destination.to_account_info(),
+                    authority: ctx.accounts.airdrop_state.to_account_info(),
+                },
+                signer_seeds,
+            ),
+            amount,
+            ctx.accounts.mint.decimals,
+        )?;
+
+        let airdrop_state = &mut ctx.accounts.airdrop_state;
+        airdrop_state.clawed_back = true;
+        airdrop_state.amount_clawed_back = amount;
+
+        Ok(())
+    }
+}
+
+// Claims are accepted until claim_end_time; 0 means no deadline
+fn claims_open(airdrop_state: &AirdropState) -> Result<bool> {
+    Ok(airdrop_state.claim_end_time == 0
+        || Clock::get()?.unix_timestamp <= airdrop_state.claim_end_time)
+}
+
+// Unclaimed funds can be taken back once, and only from an airdrop whose
+// deadline has passed, so claimants always get their full window
+fn require_clawback_allowed(airdrop_state: &AirdropState) -> Result<()> {
+    require!(!airdrop_state.clawed_back, ErrorCode::ClawedBack);
+    require!(airdrop_state.claim_end_time != 0, ErrorCode::NoClaimEndTime);
+    require!(!claims_open(airdrop_state)?, ErrorCode::ClaimWindowOpen);
+    Ok(())
+}
+
+// Check a recomputed root against the current phase: nothing before
+// start_time, only the early tier's tree until public_start_time, then the
+// full recipient tree
+fn require_phase_root(airdrop_state: &AirdropState, computed_root: &[u8; 32]) -> Result<()> {
+    let now = Clock::get()?.unix_timestamp;
+    let phases = &airdrop_state.phases;
+    require!(now >= phases.start_time, ErrorCode::ClaimsNotStarted);
+
+    if phases.early_root != [0u8; 32] && now < phases.public_start_time {
+        require!(*computed_root == phases.early_root, ErrorCode::NotInEarlyTier);
+        return Ok(());
+    }
+
+    require!(
+        *computed_root == airdrop_state.merkle_root,
+        ErrorCode::InvalidProof
+    );
+    Ok(())
+}
+
+fn require_valid_claim_end_time(claim_end_time: i64) -> Result<()> {
+    require!(
+        claim_end_time == 0 || claim_end_time > Clock::get()?.unix_timestamp,
+        ErrorCode::InvalidClaimEndTime
+    );
+    Ok(())
+}
+
+fn require_valid_vesting(vesting: &Vesting, claim_end_time: i64) -> Result<()> {
+    if vesting.duration_seconds == 0 {
+        require!(
+            vesting.start_time == 0 && vesting.cliff_seconds == 0,
+            ErrorCode::InvalidVesting
+        );
+        return Ok(());
+    }
+
+    require!(
+        vesting.duration_seconds > 0
+            && vesting.cliff_seconds >= 0
+            && vesting.cliff_seconds <= vesting.duration_seconds,
+        ErrorCode::InvalidVesting
+    );
+
+    // Claimants must be able to withdraw everything before claims close
+    let vesting_end = vesting
+        .start_time
+        .checked_add(vesting.duration_seconds)
+        .ok_or(ErrorCode::InvalidVesting)?;
+    require!(
+        claim_end_time == 0 || vesting_end <= claim_end_time,
+        ErrorCode::InvalidVesting
+    );
+    Ok(())
+}
+
+fn require_valid_phases(phases: &ClaimPhases, claim_end_time: i64) -> Result<()> {
+    require!(phases.start_time >= 0, ErrorCode::InvalidClaimPhases);
+
+    let last_start = if phases.early_root == [0u8; 32] {
+        require!(phases.public_start_time == 0, ErrorCode::InvalidClaimPhases);
+        phases.start_time
+    } else {
+        // The early phase must still be ahead and last a while
+        require!(
+            phases.public_start_time > phases.start_time
+                && phases.public_start_time > Clock::get()?.unix_timestamp,
+            ErrorCode::InvalidClaimPhases
+        );
+        phases.public_start_time
+    };
+
+    require!(
+        claim_end_time == 0 || claim_end_time > last_start,
+        ErrorCode::InvalidClaimPhases
+    );
+    Ok(())
+}
+
+// Part of a leaf's amount vested at `now`: nothing before the cliff, then
+// linear from start_time until start_time + duration_seconds
+fn vested_amount(vesting: &Vesting, amount: u64, now: i64) -> u64 {
+    if vesting.duration_seconds == 0 {
+        return amount;
+    }
+
+    let elapsed = now.saturating_sub(vesting.start_time);
+    if elapsed <= 0 || elapsed < vesting.cliff_seconds {
+        return 0;
+    }
+    if elapsed >= vesting.duration_seconds {
+        return amount;
+    }
+
+    // elapsed < duration_seconds, so the result is below amount
+    ((amount as u128) * (elapsed as u128) / (vesting.duration_seconds as u128)) as u64
+}
+
+// Record a withdrawal of everything vested but not yet withdrawn and return
+// its amount
+fn withdraw_vested(
+    airdrop_state: &AirdropState,
+    user_claim: &mut ClaimStatus,
+    amount: u64,
+) -> Result<u64> {
+    require!(user_claim.withdrawn < amount, ErrorCode::AlreadyClaimed);
+
+    let vested = vested_amount(&airdrop_state.vesting, amount, Clock::get()?.unix_timestamp);
+    let claimable = vested.saturating_sub(user_claim.withdrawn);
+    require!(claimable > 0, ErrorCode::NothingVested);
+
+    user_claim.withdrawn = user_claim.withdrawn.saturating_add(claimable);
+    Ok(claimable)
+}
+
+// Create a PDA owned by `owner` the way Anchor's init does. An address that
+// already holds lamports cannot be passed to create_account, so it is topped
+// up to `lamports`, then allocated and assigned instead.
+fn create_pda_account<'info>(
+    payer: &AccountInfo<'info>,
+    account: &AccountInfo<'info>,
+    system_program: &AccountInfo<'info>,
+    lamports: u64,
+    space: usize,
+    owner: &Pubkey,
+    signer_seeds: &[&[u8]],
+) -> Result<()> {
+    use anchor_lang::system_program::{
+        allocate, assign, create_account, transfer, Allocate, Assign, CreateAccount, Transfer,
+    };
+
+    let current = account.lamports();
+    if current == 0 {
+        return create_account(
+            CpiContext::new_with_signer(
+                system_program.clone(),
+                CreateAccount {
+                    from: payer.clone(),
+                    to: account.clone(),
+                },
+                &[signer_seeds],
+            ),
+            lamports,
+            space as u64,
+            owner,
+        );
+    }
+
+    if current < lamports {
+        transfer(
+            CpiContext::new(
+                system_program.clone(),
+                Transfer {
+                    from: payer.clone(),
+                    to: account.clone(),
+                },
+            ),
+            lamports - current,
+        )?;
+    }
+    allocate(
+        CpiContext::new_with_signer(
+            system_program.clone(),
+            Allocate {
+                account_to_allocate: account.clone(),
+            },
+            &[signer_seeds],
+        ),
+        space as u64,
+    )?;
+    assign(
+        CpiContext::new_with_signer(
+            system_program.clone(),
+            Assign {
+                account_to_assign: account.clone(),
+            },
+            &[signer_seeds],
+        ),
+        owner,
+    )
+}
+
+// Amount to send so that `net` arrives after the mint's Token-2022 transfer
+// fee; classic Token mints and mints without the extension charge nothing
+fn gross_up_for_transfer_fee(mint: &AccountInfo, net: u64) -> Result<u64> {
+    if *mint.owner != anchor_spl::token_2022::ID {
+        return Ok(net);
+    }
+
+    let data = mint.try_borrow_data()?;
+    let mint_state = StateWithExtensions::<MintState>::unpack(&data)?;
+    let fee = match mint_state.get_extension::<TransferFeeConfig>() {
+        Ok(config) => config
+            .calculate_inverse_epoch_fee(Clock::get()?.epoch, net)
+            .ok_or(ErrorCode::AmountOverflow)?,
+        Err(_) => 0,
+    };
+
+    Ok(net.checked_add(fee).ok_or(ErrorCode::AmountOverflow)?)
+}
+
+// Helper function to hash a leaf: recipient_pubkey(32) + amount(8) + is_claimed(1)
+fn compute_leaf(recipient: &Pubkey, amount: u64) -> [u8; 32] {
+    let mut leaf_data = Vec::new();
+    leaf_data.extend_from_slice(&recipient.to_bytes());
+    leaf_data.extend_from_slice(&amount.to_le_bytes());
+    leaf_data.push(0u8); // isClaimed flag (0 = false)
+
+    keccak::hash(&leaf_data).to_bytes()
+}
+
+fn hash_pair(left: &[u8; 32], right: &[u8; 32]) -> [u8; 32] {
+    let mut hash_input = Vec::new();
+    hash_input.extend_from_slice(left);
+    hash_input.extend_from_slice(right);
+    keccak::hash(&hash_input).to_bytes()
 }
 
 // Helper function to verify Merkle proof
@@ -146,10 +744,12 @@ fn verify_merkle_proof(
 }
 
 #[derive(Accounts)]
+#[instruction(airdrop_id: [u8; 32])]
 pub struct Initialize<'info> {
+    // One state account per airdrop, so a single deployment can run many
     #[account(
         init,
-        seeds = [b"merkle_tree"],
+        seeds = [b"merkle_tree", airdrop_id.as_ref()],
         bump,
         payer = authority,
         space = 8 + std::mem::size_of::<AirdropState>()
@@ -166,15 +766,16 @@ pub struct Initialize<'info> {
 pub struct Claim<'info> {
     #[account(
         mut,
-        seeds = [b"merkle_tree"],
+        seeds = [b"merkle_tree", airdrop_state.airdrop_id.as_ref()],
         bump = airdrop_state.bump
     )]
     pub airdrop_state: Account<'info, AirdropState>,
 
+    /// Created on the first claim; records what has been withdrawn
     #[account(
-        init,
+        init_if_needed,
         payer = signer,
-        space = 8,
+        space = 8 + std::mem::size_of::<ClaimStatus>(),
         seeds = [b"claim", airdrop_state.key().as_ref(), signer.key().as_ref()],
         bump
     )]
@@ -186,11 +787,82 @@ pub struct Claim<'info> {
     pub system_program: Program<'info, System>,
 }
 
+// Helper function to recompute the root from several (leaf index, leaf) pairs.
+// Known nodes are consumed level by level in index order; each step takes one
+// flag: true hashes the node with the next known node (its right sibling),
+// false hashes it with the next proof element.
+fn verify_merkle_multiproof(
+    leaves: &[(u64, [u8; 32])],
+    proof: &[[u8; 32]],
+    proof_flags: &[bool],
+) -> Result<[u8; 32]> {
+    // Strictly ascending indices also rule out claiming the same leaf twice
+    for pair in leaves.windows(2) {
+        require!(pair[0].0 < pair[1].0, ErrorCode::InvalidBatch);
+    }
+
+    let mut current: std::collections::VecDeque<(u64, [u8; 32])> =
+        leaves.iter().copied().collect();
+    let mut next = std::collections::VecDeque::new();
+    let mut proof_position = 0;
+
+    for flag in proof_flags.iter() {
+        if current.is_empty() {
+            std::mem::swap(&mut current, &mut next);
+        }
+
+        let (index, node) = current.pop_front().ok_or(ErrorCode::InvalidProof)?;
+
+        let parent = if *flag {
+            let (sibling_index, sibling) = current.pop_front().ok_or(ErrorCode::InvalidProof)?;
+            require!(
+                index % 2 == 0 && sibling_index == index + 1,
+                ErrorCode::InvalidProof
+            );
+            hash_pair(&node, &sibling)
+        } else {
+            let sibling = proof.get(proof_position).ok_or(ErrorCode::InvalidProof)?;
+            proof_position += 1;
+            if index % 2 == 0 {
+                hash_pair(&node, sibling)
+            } else {
+                hash_pair(sibling, &node)
+            }
+        };
+
+        next.push_back((index / 2, parent));
+    }
+
+    current.append(&mut next);
+    require!(
+        current.len() == 1 && proof_position == proof.len(),
+        ErrorCode::InvalidProof
+    );
+
+    Ok(current[0].1)
+}
+
+#[derive(Accounts)]
+pub struct ClaimBatch<'info> {
+    #[account(
+        mut,
+        seeds = [b"merkle_tree", airdrop_state.airdrop_id.as_ref()],
+        bump = airdrop_state.bump
+    )]
+    pub airdrop_state: Account<'info, AirdropState>,
+
+    /// Pays rent for the claim status accounts; claimants only sign
+    #[account(mut)]
+    pub payer: Signer<'info>,
+
+    pub system_program: Program<'info, System>,
+}
+
 #[derive(Accounts)]
 pub struct UpdateMerkleRoot<'info> {
     #[account(
         mut,
-        seeds = [b"merkle_tree"],
+        seeds = [b"merkle_tree", airdrop_state.airdrop_id.as_ref()],
         bump = airdrop_state.bump
     )]
     pub airdrop_state: Account<'info, AirdropState>,
@@ -201,6 +873,182 @@ pub struct UpdateMerkleRoot<'info> {
     pub system_program: Program<'info, System>,
 }
 
+#[derive(Accounts)]
+pub struct SetPaused<'info> {
+    #[account(
+        mut,
+        seeds = [b"merkle_tree", airdrop_state.airdrop_id.as_ref()],
+        bump = airdrop_state.bump
+    )]
+    pub airdrop_state: Account<'info, AirdropState>,
+
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct ProposeAuthority<'info> {
+    #[account(
+        mut,
+        seeds = [b"merkle_tree", airdrop_state.airdrop_id.as_ref()],
+        bump = airdrop_state.bump
+    )]
+    pub airdrop_state: Account<'info, AirdropState>,
+
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct AcceptAuthority<'info> {
+    #[account(
+        mut,
+        seeds = [b"merkle_tree", airdrop_state.airdrop_id.as_ref()],
+        bump = airdrop_state.bump
+    )]
+    pub airdrop_state: Account<'info, AirdropState>,
+
+    pub new_authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+#[instruction(airdrop_id: [u8; 32])]
+pub struct InitializeToken<'info> {
+    #[account(
+        init,
+        seeds = [b"merkle_tree", airdrop_id.as_ref()],
+        bump,
+        payer = authority,
+        space = 8 + std::mem::size_of::<AirdropState>()
+    )]
+    pub airdrop_state: Account<'info, AirdropState>,
+
+    #[account(mint::token_program = token_program)]
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    /// The vault: the state PDA's associated token account
+    #[account(
+        init,
+        payer = authority,
+        associated_token::mint = mint,
+        associated_token::authority = airdrop_state,
+        associated_token::token_program = token_program
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+
+    #[account(
+        mut,
+        token::mint = mint,
+        token::authority = authority,
+        token::token_program = token_program
+    )]
+    pub authority_token_account: InterfaceAccount<'info, TokenAccount>,
+
+    #[account(mut)]
+    pub authority: Signer<'info>,
+
+    pub token_program: Interface<'info, TokenInterface>,
+    pub associated_token_program: Program<'info, AssociatedToken>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct ClaimToken<'info> {
+    #[account(
+        mut,
+        seeds = [b"merkle_tree", airdrop_state.airdrop_id.as_ref()],
+        bump = airdrop_state.bump,
+        has_one = mint @ ErrorCode::WrongDistributionMode
+    )]
+    pub airdrop_state: Account<'info, AirdropState>,
+
+    #[account(mint::token_program = token_program)]
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        mut,
+        associated_token::mint = mint,
+        associated_token::authority = airdrop_state,
+        associated_token::token_program = token_program
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+
+    /// Created on the first claim; records what has been withdrawn
+    #[account(
+        init_if_needed,
+        payer = signer,
+        space = 8 + std::mem::size_of::<ClaimStatus>(),
+        seeds = [b"claim", airdrop_state.key().as_ref(), signer.key().as_ref()],
+        bump
+    )]
+    pub user_claim: Account<'info, ClaimStatus>,
+
+    /// Created on first claim if the claimant has no account for the mint yet
+    #[account(
+        init_if_needed,
+        payer = signer,
+        associated_token::mint = mint,
+        associated_token::authority = signer,
+        associated_token::token_program = token_program
+    )]
+    pub claimant_token_account: InterfaceAccount<'info, TokenAccount>,
+
+    #[account(mut)]
+    pub signer: Signer<'info>,
+
+    pub token_program: Interface<'info, TokenInterface>,
+    pub associated_token_program: Program<'info, AssociatedToken>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct Clawback<'info> {
+    #[account(
+        mut,
+        seeds = [b"merkle_tree", airdrop_state.airdrop_id.as_ref()],
+        bump = airdrop_state.bump
+    )]
+    pub airdrop_state: Account<'info, AirdropState>,
+
+    /// Chosen by the authority; receives the unclaimed lamports
+    #[account(mut)]
+    pub destination: SystemAccount<'info>,
+
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct ClawbackToken<'info> {
+    #[account(
+        mut,
+        seeds = [b"merkle_tree", airdrop_state.airdrop_id.as_ref()],
+        bump = airdrop_state.bump,
+        has_one = mint @ ErrorCode::WrongDistributionMode
+    )]
+    pub airdrop_state: Account<'info, AirdropState>,
+
+    #[account(mint::token_program = token_program)]
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        mut,
+        associated_token::mint = mint,
+        associated_token::authority = airdrop_state,
+        associated_token::token_program = token_program
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+
+    /// Chosen by the authority; receives the unclaimed tokens
+    #[account(
+        mut,
+        token::mint = mint,
+        token::token_program = token_program
+    )]
+    pub destination: InterfaceAccount<'info, TokenAccount>,
+
+    pub authority: Signer<'info>,
+
+    pub token_program: Interface<'info, TokenInterface>,
+}
+
 #[account]
 pub struct AirdropState {
     /// The Merkle root of the airdrop (32 bytes)
@@ -213,10 +1061,54 @@ pub struct AirdropState {
     pub amount_claimed: u64,
     /// Bump seed for the PDA
     pub bump: u8,
+    /// Hash of the off-chain airdropId; second seed of this PDA
+    pub airdrop_id: [u8; 32],
+    /// Token mint in token mode; Pubkey::default() for native SOL
+    pub mint: Pubkey,
+    /// Unix timestamp after which claims are rejected; 0 for no deadline
+    pub claim_end_time: i64,
+    /// Schedule every leaf vests on
+    pub vesting: Vesting,
+    /// When claims open, and to whom
+    pub phases: ClaimPhases,
+    /// Set by the authority to stop all claims until unpaused
+    pub paused: bool,
+    /// Proposed next authority awaiting accept_authority; Pubkey::default()
+    /// when no transfer is pending
+    pub pending_authority: Pubkey,
+    /// Set by clawback; no further claims or root updates are accepted
+    pub clawed_back: bool,
+    /// What the clawback took: lamports above rent, or the vault's tokens
+    pub amount_clawed_back: u64,
+}
+
+/// Linear vesting shared by every leaf of an airdrop. Nothing can be claimed
+/// until start_time + cliff_seconds; after that the vested part grows
+/// linearly until start_time + duration_seconds. duration_seconds == 0
+/// (with the other fields 0) means everything is claimable at once.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy)]
+pub struct Vesting {
+    pub start_time: i64,
+    pub cliff_seconds: i64,
+    pub duration_seconds: i64,
+}
+
+/// Claims open at start_time (0 for immediately). With a non-zero
+/// early_root, only leaves of that tree (the early tier's recipients, same
+/// leaf format) can claim until public_start_time; after that proofs are
+/// checked against merkle_root. Without an early tier public_start_time is 0.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy)]
+pub struct ClaimPhases {
+    pub start_time: i64,
+    pub early_root: [u8; 32],
+    pub public_start_time: i64,
 }
 
 #[account]
-pub struct ClaimStatus {}
+pub struct ClaimStatus {
+    /// Total paid out to this claimant so far
+    pub withdrawn: u64,
+}
 
 #[error_code]
 pub enum ErrorCode {
@@ -224,4 +1116,36 @@ pub enum ErrorCode {
     InvalidProof,
     #[msg("Unauthorized")]
     Unauthorized,
+    #[msg("Batch claim accounts or arguments are inconsistent")]
+    InvalidBatch,
+    #[msg("Recipient has already claimed")]
+    AlreadyClaimed,
+    #[msg("Instruction does not match the airdrop's distribution mode (SOL or token)")]
+    WrongDistributionMode,
+    #[msg("Amount overflows u64")]
+    AmountOverflow,
+    #[msg("The claim window has closed")]
+    ClaimWindowClosed,
+    #[msg("Claims are still open; clawback is only possible after the claim end time")]
+    ClaimWindowOpen,
+    #[msg("Claim end time must be in the future, or 0 for no deadline")]
+    InvalidClaimEndTime,
+    #[msg("Nothing has vested since the last claim")]
+    NothingVested,
+    #[msg("Vesting needs a positive duration, a cliff within it and must end by the claim end time")]
+    InvalidVesting,
+    #[msg("Claims have not started yet")]
+    ClaimsNotStarted,
+    #[msg("Only the early-access tier can claim before the public phase")]
+    NotInEarlyTier,
+    #[msg("Claim phases must start in order, with a future public start after an early tier, and before the claim end time")]
+    InvalidClaimPhases,
+    #[msg("Claims are paused by the authority")]
+    ClaimsPaused,
+    #[msg("Signer is not the pending authority")]
+    NotPendingAuthority,
+    #[msg("Unclaimed funds were clawed back; the airdrop is closed")]
+    ClawedBack,
+    #[msg("Clawback needs a claim end time; this airdrop has no deadline")]
+    NoClaimEndTime,
 }
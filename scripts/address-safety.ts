@@ -0,0 +1,205 @@
+import {
+  AddressLookupTableProgram,
+  BPF_LOADER_DEPRECATED_PROGRAM_ID,
+  BPF_LOADER_PROGRAM_ID,
+  ComputeBudgetProgram,
+  Ed25519Program,
+  PublicKey,
+  SYSVAR_CLOCK_PUBKEY,
+  SYSVAR_EPOCH_SCHEDULE_PUBKEY,
+  SYSVAR_INSTRUCTIONS_PUBKEY,
+  SYSVAR_RECENT_BLOCKHASHES_PUBKEY,
+  SYSVAR_RENT_PUBKEY,
+  SYSVAR_REWARDS_PUBKEY,
+  SYSVAR_SLOT_HASHES_PUBKEY,
+  SYSVAR_SLOT_HISTORY_PUBKEY,
+  SYSVAR_STAKE_HISTORY_PUBKEY,
+  Secp256k1Program,
+  StakeProgram,
+  SystemProgram,
+  VoteProgram,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { RecipientsFile } from "./load-recipients";
+
+// Why an address can never sign a claim
+export type AddressIssueKind =
+  | "program"
+  | "sysvar"
+  | "placeholder"
+  | "off-curve";
+
+// block: refuse to build or fund a tree containing the address; warn: report only
+export type AddressPolicy = "block" | "warn";
+
+export interface AddressIssue {
+  index: number;
+  publicKey: string;
+  kind: AddressIssueKind;
+  message: string;
+}
+
+export interface AddressSafetyOptions {
+  policy?: AddressPolicy;
+  // Addresses reviewed and accepted despite being flagged
+  allow?: string[];
+  // Extra program IDs to reject, e.g. the distributor itself
+  programIds?: string[];
+}
+
+const KNOWN_PROGRAMS = new Map<string, string>([
+  [SystemProgram.programId.toString(), "System Program"],
+  [StakeProgram.programId.toString(), "Stake Program"],
+  [VoteProgram.programId.toString(), "Vote Program"],
+  [ComputeBudgetProgram.programId.toString(), "Compute Budget Program"],
+  [
+    AddressLookupTableProgram.programId.toString(),
+    "Address Lookup Table Program",
+  ],
+  [Ed25519Program.programId.toString(), "Ed25519 Program"],
+  [Secp256k1Program.programId.toString(), "Secp256k1 Program"],
+  [BPF_LOADER_PROGRAM_ID.toString(), "BPF Loader"],
+  [BPF_LOADER_DEPRECATED_PROGRAM_ID.toString(), "BPF Loader (deprecated)"],
+  ["BPFLoaderUpgradeab1e11111111111111111111111", "BPF Upgradeable Loader"],
+  ["NativeLoader1111111111111111111111111111111", "Native Loader"],
+  ["Config1111111111111111111111111111111111111", "Config Program"],
+  ["MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr", "Memo Program"],
+  ["Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo", "Memo Program (v1)"],
+  [TOKEN_PROGRAM_ID.toString(), "Token Program"],
+  [TOKEN_2022_PROGRAM_ID.toString(), "Token-2022 Program"],
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toString(), "Associated Token Account Program"],
+]);
+
+const SYSVARS = new Map<string, string>([
+  [SYSVAR_CLOCK_PUBKEY.toString(), "Clock"],
+  [SYSVAR_EPOCH_SCHEDULE_PUBKEY.toString(), "EpochSchedule"],
+  [SYSVAR_INSTRUCTIONS_PUBKEY.toString(), "Instructions"],
+  [SYSVAR_RECENT_BLOCKHASHES_PUBKEY.toString(), "RecentBlockhashes"],
+  [SYSVAR_RENT_PUBKEY.toString(), "Rent"],
+  [SYSVAR_REWARDS_PUBKEY.toString(), "Rewards"],
+  [SYSVAR_SLOT_HASHES_PUBKEY.toString(), "SlotHashes"],
+  [SYSVAR_SLOT_HISTORY_PUBKEY.toString(), "SlotHistory"],
+  [SYSVAR_STAKE_HISTORY_PUBKEY.toString(), "StakeHistory"],
+  ["SysvarEpochRewards1111111111111111111111111", "EpochRewards"],
+  ["SysvarLastRestartS1ot1111111111111111111111", "LastRestartSlot"],
+]);
+
+// Hand-made keys such as 1111...1112 or a single repeated byte; real keys
+// are uniformly random, so long runs of identical bytes don't happen
+function looksLikePlaceholder(bytes: Buffer): boolean {
+  let longestRun = 1;
+  let run = 1;
+  for (let i = 1; i < bytes.length; i++) {
+    run = bytes[i] === bytes[i - 1] ? run + 1 : 1;
+    longestRun = Math.max(longestRun, run);
+  }
+  return longestRun >= 16;
+}
+
+// Reason an address cannot claim, or null if it looks like a normal wallet
+export function checkAddress(
+  publicKey: string,
+  programIds: string[] = []
+): { kind: AddressIssueKind; message: string } | null {
+  const key = new PublicKey(publicKey);
+  const address = key.toString();
+
+  if (KNOWN_PROGRAMS.has(address) || programIds.includes(address)) {
+    const name = KNOWN_PROGRAMS.get(address) || "a program";
+    return {
+      kind: "program",
+      message: `${address} is the ${name} ID and cannot sign a claim`,
+    };
+  }
+  if (SYSVARS.has(address)) {
+    return {
+      kind: "sysvar",
+      message: `${address} is the ${SYSVARS.get(address)} sysvar`,
+    };
+  }
+  if (looksLikePlaceholder(key.toBuffer())) {
+    return {
+      kind: "placeholder",
+      message: `${address} looks like a placeholder address`,
+    };
+  }
+  if (!PublicKey.isOnCurve(key.toBytes())) {
+    return {
+      kind: "off-curve",
+      message: `${address} is off the ed25519 curve (a PDA) and has no private key to sign a claim`,
+    };
+  }
+
+  return null;
+}
+
+// Flag every recipient that could never claim its leaf
+export function checkRecipientAddresses(
+  data: RecipientsFile,
+  options: AddressSafetyOptions = {}
+): AddressIssue[] {
+  const allow = new Set(options.allow || []);
+  const programIds = [...(options.programIds || [])];
+  try {
+    programIds.push(new PublicKey(data.programId).toString());
+  } catch {
+    // programId is still the pre-deployment placeholder
+  }
+
+  const issues: AddressIssue[] = [];
+  data.recipients.forEach((recipient, index) => {
+    if (allow.has(recipient.publicKey)) {
+      return;
+    }
+    const issue = checkAddress(recipient.publicKey, programIds);
+    if (issue) {
+      issues.push({ index, publicKey: recipient.publicKey, ...issue });
+    }
+  });
+
+  return issues;
+}
+
+// Report unsafe addresses; under the block policy any issue is an error
+export function enforceAddressSafety(
+  data: RecipientsFile,
+  options: AddressSafetyOptions = {}
+): AddressIssue[] {
+  const policy = options.policy || "block";
+  const issues = checkRecipientAddresses(data, options);
+
+  if (issues.length > 0) {
+    console.log(
+      `${policy === "block" ? "❌" : "⚠️ "} ${
+        issues.length
+      } recipient addresses can never claim:`
+    );
+    issues.forEach((issue) =>
+      console.log(
+        `   $.recipients[${issue.index}] (${issue.kind}): ${issue.message}`
+      )
+    );
+
+    if (policy === "block") {
+      throw new Error(
+        `${issues.length} unclaimable recipient addresses; replace them, allow them explicitly or use the warn policy`
+      );
+    }
+  }
+
+  return issues;
+}
+
+// Parse an --address-policy flag value
+export function parseAddressPolicy(value: string = "block"): AddressPolicy {
+  if (value !== "block" && value !== "warn") {
+    throw new Error(
+      `Unknown address policy "${value}" (expected block or warn)`
+    );
+  }
+  return value;
+}
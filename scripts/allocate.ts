@@ -0,0 +1,452 @@
+import * as fs from "fs";
+import * as path from "path";
+import { PublicKey } from "@solana/web3.js";
+import { Recipient, RecipientsFile } from "./load-recipients";
+import { DEFAULT_ALGORITHM, LEAF_FORMAT } from "./merkle-tree";
+import {
+  AmountUnit,
+  parseAmountCell,
+  parseDelimited,
+} from "./import-recipients";
+import { generateMerkleTree } from "./generate-merkle-tree";
+import { formatSol, parseLamports } from "./amounts";
+
+export type AllocationStrategy = "pro-rata" | "equal" | "tiered";
+
+// One address and its weight, e.g. a token balance or a points total.
+// Weights are decimal strings so raw token balances never lose precision.
+export interface WeightEntry {
+  publicKey: string;
+  weight: string;
+  description?: string;
+}
+
+export interface WeightsFile {
+  createdAt: string;
+  // Where the weights came from, e.g. "snapshot of <mint> at slot 1234"
+  source?: string;
+  // Set by snapshot-holders.ts: weights are raw token amounts of this mint
+  mint?: string;
+  decimals?: number;
+  slot?: number;
+  weights: WeightEntry[];
+}
+
+// Recipients whose weight is at least minWeight (and below the next tier up)
+// get `units` shares of the budget
+export interface Tier {
+  minWeight: string;
+  units: number;
+}
+
+export interface AllocationOptions {
+  strategy: AllocationStrategy;
+  // Lamports to distribute; totalAmount of the result is exactly this
+  budget: bigint;
+  // Required for the tiered strategy
+  tiers?: Tier[];
+  // Per-recipient lamport caps
+  minAmount?: bigint;
+  maxAmount?: bigint;
+  airdropId?: string;
+  description?: string;
+  network?: string;
+  programId?: string;
+  algorithm?: string;
+}
+
+export interface AllocationReport {
+  strategy: AllocationStrategy;
+  budget: string;
+  recipients: number;
+  // Entries that get nothing: zero weight, below every tier or rounded to 0
+  excluded: string[];
+  cappedAtMax: number;
+  raisedToMin: number;
+  // Lamports left over by flooring, handed out one each by largest remainder
+  dust: string;
+}
+
+const ZERO = BigInt(0);
+
+// Parse a non-negative decimal weight into an integer scaled by 10^decimals
+function scaleWeight(value: string, decimals: number): bigint {
+  const [whole, fraction = ""] = value.split(".");
+  return BigInt(whole + fraction.padEnd(decimals, "0"));
+}
+
+function decimalPlaces(value: string, label: string): number {
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new Error(`${label} "${value}" is not a non-negative decimal number`);
+  }
+  return value.includes(".") ? value.split(".")[1].length : 0;
+}
+
+// Parse a --tiers flag value such as "1000:3,100:2,1:1"
+export function parseTiers(value: string): Tier[] {
+  return value.split(",").map((spec) => {
+    const [minWeight, units] = spec.split(":");
+    if (!minWeight || !/^\d+$/.test(units || "")) {
+      throw new Error(`Invalid tier "${spec}" (expected <minWeight>:<units>)`);
+    }
+    return { minWeight: minWeight.trim(), units: Number(units) };
+  });
+}
+
+// Split the budget across weighted addresses. Duplicate addresses have their
+// weights summed. Min/max caps are applied by fixing capped recipients and
+// re-splitting the rest of the budget until every share is within bounds; the
+// flooring dust goes one lamport at a time to the largest remainders, ties
+// broken by public key bytes, so the same input always gives the same file.
+export function allocate(
+  weights: WeightEntry[],
+  options: AllocationOptions
+): { data: RecipientsFile; report: AllocationReport } {
+  const budget = parseLamports(options.budget, "Budget");
+  const minAmount = options.minAmount ?? ZERO;
+  const maxAmount = options.maxAmount;
+  if (maxAmount !== undefined && maxAmount < minAmount) {
+    throw new Error("Maximum amount is below the minimum amount");
+  }
+  if (options.strategy === "tiered" && !options.tiers?.length) {
+    throw new Error("The tiered strategy needs at least one tier");
+  }
+
+  // One shared scale so decimal weights and tier thresholds compare exactly
+  const decimals = Math.max(
+    0,
+    ...weights.map((w, i) =>
+      decimalPlaces(w.weight, `Weight at position ${i}`)
+    ),
+    ...(options.tiers || []).map((t) =>
+      decimalPlaces(t.minWeight, "Tier minimum weight")
+    )
+  );
+
+  const byKey = new Map<
+    string,
+    { key: Buffer; weight: bigint; description?: string }
+  >();
+  weights.forEach((entry, i) => {
+    let key: Buffer;
+    try {
+      key = new PublicKey(entry.publicKey).toBuffer();
+    } catch {
+      throw new Error(
+        `Invalid public key at position ${i}: ${entry.publicKey}`
+      );
+    }
+    const publicKey = new PublicKey(key).toString();
+    const existing = byKey.get(publicKey);
+    byKey.set(publicKey, {
+      key,
+      weight: (existing?.weight ?? ZERO) + scaleWeight(entry.weight, decimals),
+      description: existing?.description ?? entry.description,
+    });
+  });
+
+  const tiers = (options.tiers || [])
+    .map((tier) => ({
+      minWeight: scaleWeight(tier.minWeight, decimals),
+      units: BigInt(tier.units),
+    }))
+    .sort((a, b) => (b.minWeight > a.minWeight ? 1 : -1));
+
+  const excluded: string[] = [];
+  const eligible: {
+    publicKey: string;
+    key: Buffer;
+    score: bigint;
+    description?: string;
+  }[] = [];
+
+  for (const [publicKey, entry] of byKey) {
+    let score = ZERO;
+    if (entry.weight > ZERO) {
+      if (options.strategy === "pro-rata") {
+        score = entry.weight;
+      } else if (options.strategy === "equal") {
+        score = BigInt(1);
+      } else {
+        score =
+          tiers.find((tier) => entry.weight >= tier.minWeight)?.units ?? ZERO;
+      }
+    }
+    if (score > ZERO) {
+      eligible.push({ publicKey, score, ...entry });
+    } else {
+      excluded.push(publicKey);
+    }
+  }
+
+  if (eligible.length === 0) {
+    throw new Error("No address has a weight that qualifies for an allocation");
+  }
+  const count = BigInt(eligible.length);
+  if (minAmount * count > budget) {
+    throw new Error(
+      `Budget ${budget} is too small to give ${eligible.length} recipients the minimum of ${minAmount}`
+    );
+  }
+  if (maxAmount !== undefined && maxAmount * count < budget) {
+    throw new Error(
+      `Budget ${budget} cannot be spent: ${
+        eligible.length
+      } recipients at the maximum of ${maxAmount} only take ${
+        maxAmount * count
+      }`
+    );
+  }
+
+  // Fix capped recipients one round at a time; each round fixes at least one,
+  // so this ends after at most eligible.length rounds
+  const fixed = new Map<string, bigint>();
+  let cappedAtMax = 0;
+  let raisedToMin = 0;
+  let remaining = budget;
+  let active = eligible;
+
+  while (active.length > 0) {
+    const totalScore = active.reduce((sum, r) => sum + r.score, ZERO);
+    const over =
+      maxAmount === undefined
+        ? []
+        : active.filter((r) => remaining * r.score > maxAmount * totalScore);
+    const under = over.length
+      ? []
+      : active.filter((r) => remaining * r.score < minAmount * totalScore);
+    const capped = over.length ? over : under;
+    if (capped.length === 0) {
+      break;
+    }
+
+    const cap = over.length ? maxAmount : minAmount;
+    capped.forEach((r) => fixed.set(r.publicKey, cap));
+    remaining -= cap * BigInt(capped.length);
+    if (over.length) {
+      cappedAtMax += capped.length;
+    } else {
+      raisedToMin += capped.length;
+    }
+    active = active.filter((r) => !fixed.has(r.publicKey));
+  }
+
+  if (active.length === 0 && remaining !== ZERO) {
+    throw new Error(
+      `Min/max caps leave ${remaining} lamports of the budget unallocated`
+    );
+  }
+
+  // Floor the pro-rata shares of the rest and hand out the dust
+  const totalScore = active.reduce((sum, r) => sum + r.score, ZERO);
+  const shares = active.map((r) => ({
+    ...r,
+    amount: totalScore ? (remaining * r.score) / totalScore : ZERO,
+    remainder: totalScore ? (remaining * r.score) % totalScore : ZERO,
+  }));
+  const dust = remaining - shares.reduce((sum, s) => sum + s.amount, ZERO);
+  [...shares]
+    .sort((a, b) =>
+      a.remainder !== b.remainder
+        ? a.remainder > b.remainder
+          ? -1
+          : 1
+        : Buffer.compare(a.key, b.key)
+    )
+    .slice(0, Number(dust))
+    .forEach((share) => (share.amount += BigInt(1)));
+  shares.forEach((share) => fixed.set(share.publicKey, share.amount));
+
+  const recipients: Recipient[] = [];
+  eligible
+    .sort((a, b) => Buffer.compare(a.key, b.key))
+    .forEach((r) => {
+      const amount = fixed.get(r.publicKey);
+      if (amount === ZERO) {
+        excluded.push(r.publicKey);
+        return;
+      }
+      const recipient: Recipient = {
+        publicKey: r.publicKey,
+        amount: amount.toString(),
+        index: recipients.length,
+      };
+      if (r.description) {
+        recipient.description = r.description;
+      }
+      recipients.push(recipient);
+    });
+
+  const data: RecipientsFile = {
+    airdropId: options.airdropId || "solana-distributor-airdrop",
+    description:
+      options.description || `Allocated ${options.strategy} from weights`,
+    merkleRoot: "0x" + "00".repeat(32),
+    totalAmount: budget.toString(),
+    network: options.network || "devnet",
+    programId: options.programId || "WILL_BE_UPDATED_AFTER_DEPLOYMENT",
+    recipients,
+    metadata: {
+      createdAt: new Date().toISOString(),
+      version: "1.0.0",
+      algorithm: options.algorithm || DEFAULT_ALGORITHM,
+      leafFormat: LEAF_FORMAT,
+    },
+  };
+
+  return {
+    data,
+    report: {
+      strategy: options.strategy,
+      budget: budget.toString(),
+      recipients: recipients.length,
+      excluded,
+      cappedAtMax,
+      raisedToMin,
+      dust: dust.toString(),
+    },
+  };
+}
+
+// Load weights from a WeightsFile JSON or an address,weight CSV/TSV
+export function loadWeights(weightsFile: string): WeightEntry[] {
+  const content = fs.readFileSync(path.resolve(weightsFile), "utf8");
+  const extension = path.extname(weightsFile).toLowerCase();
+
+  if (extension === ".json") {
+    const data = JSON.parse(content) as WeightsFile;
+    if (!Array.isArray(data.weights)) {
+      throw new Error(`${weightsFile} has no weights array`);
+    }
+    return data.weights.map((w) => ({ ...w, weight: String(w.weight) }));
+  }
+
+  const rows = parseDelimited(content, extension === ".tsv" ? "\t" : ",");
+  // Skip a header row such as "address,weight"
+  const dataRows =
+    rows.length && !/^\d/.test(rows[0].cells[1] || "") ? rows.slice(1) : rows;
+  return dataRows.map(({ cells }) => ({
+    publicKey: cells[0],
+    weight: cells[1] || "",
+    description: cells[2] || undefined,
+  }));
+}
+
+export function printAllocationReport(report: AllocationReport) {
+  console.log(`📊 Allocation (${report.strategy}):`);
+  console.log(`   Budget: ${formatSol(report.budget)} SOL`);
+  console.log(`   Recipients: ${report.recipients}`);
+  console.log(`   Excluded: ${report.excluded.length}`);
+  console.log(`   Capped at max: ${report.cappedAtMax}`);
+  console.log(`   Raised to min: ${report.raisedToMin}`);
+  console.log(`   Rounding dust: ${report.dust} lamports`);
+}
+
+// Allocate a budget from a weights file and write the recipients file
+export async function allocateFile(
+  weightsFile: string,
+  outputFile: string = "recipients.json",
+  options: AllocationOptions & { generate?: boolean }
+) {
+  try {
+    console.log(`⚖️  Allocating from ${weightsFile}...`);
+
+    const { data, report } = allocate(loadWeights(weightsFile), options);
+    printAllocationReport(report);
+
+    fs.writeFileSync(outputFile, JSON.stringify(data, null, 2));
+    console.log(
+      `✅ Wrote ${data.recipients.length} recipients to ${outputFile}`
+    );
+
+    if (options.generate) {
+      await generateMerkleTree(outputFile, { algorithm: options.algorithm });
+    }
+
+    return { data, report };
+  } catch (error) {
+    console.error("❌ Error allocating:", error);
+    throw error;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const valueFlags = [
+    "--budget",
+    "--unit",
+    "--strategy",
+    "--tiers",
+    "--min",
+    "--max",
+    "--out",
+    "--airdrop-id",
+    "--network",
+    "--program-id",
+    "--algorithm",
+  ];
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const positional = args.filter(
+    (arg, i) => !arg.startsWith("--") && !valueFlags.includes(args[i - 1])
+  );
+  const unit = flag("--unit") as AmountUnit;
+  const strategy = (flag("--strategy") || "pro-rata") as AllocationStrategy;
+
+  if (
+    positional.length === 0 ||
+    !flag("--budget") ||
+    (unit !== "sol" && unit !== "lamports") ||
+    !["pro-rata", "equal", "tiered"].includes(strategy)
+  ) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/allocate.ts <weights.json | weights.csv> --budget <amount> --unit <sol|lamports> [--strategy <pro-rata|equal|tiered>] [--out <file>] [--generate]"
+    );
+    console.log("");
+    console.log("🔧 Options:");
+    console.log(
+      "  --tiers <w:units,...>   Tiers for the tiered strategy, e.g. 1000:3,100:2,1:1"
+    );
+    console.log("  --min <amount>          Minimum per recipient (in --unit)");
+    console.log("  --max <amount>          Maximum per recipient (in --unit)");
+    console.log("  --airdrop-id, --network, --program-id, --algorithm");
+    console.log("");
+    console.log("📝 Example:");
+    console.log(
+      "  ts-node scripts/allocate.ts holders.json --budget 1000 --unit sol --max 10 --generate"
+    );
+    process.exit(1);
+  }
+
+  Promise.resolve()
+    .then(() =>
+      allocateFile(positional[0], flag("--out"), {
+        strategy,
+        budget: parseAmountCell(flag("--budget"), unit),
+        tiers: flag("--tiers") ? parseTiers(flag("--tiers")) : undefined,
+        minAmount: flag("--min")
+          ? parseAmountCell(flag("--min"), unit)
+          : undefined,
+        maxAmount: flag("--max")
+          ? parseAmountCell(flag("--max"), unit)
+          : undefined,
+        airdropId: flag("--airdrop-id"),
+        network: flag("--network"),
+        programId: flag("--program-id"),
+        algorithm: flag("--algorithm"),
+        generate: args.includes("--generate"),
+      })
+    )
+    .then(() => {
+      console.log("🎉 Allocation completed!");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,90 @@
+// Lamport amounts are u64 on-chain, so they are handled as bigint everywhere;
+// a JavaScript number silently loses precision above 2^53.
+export const U64_MAX = BigInt("18446744073709551615");
+export const SOL_DECIMALS = 9;
+export const LAMPORTS_PER_SOL = BigInt(1_000_000_000);
+
+// Parse a lamport amount and enforce the u64 range. Numbers are only accepted
+// when they are safe integers, strings must be plain digits.
+export function parseLamports(
+  value: bigint | number | string,
+  label: string = "Amount"
+): bigint {
+  let lamports: bigint;
+
+  if (typeof value === "bigint") {
+    lamports = value;
+  } else if (typeof value === "number" && Number.isSafeInteger(value)) {
+    lamports = BigInt(value);
+  } else if (typeof value === "string" && /^\d+$/.test(value.trim())) {
+    lamports = BigInt(value.trim());
+  } else {
+    throw new Error(`${label} "${value}" is not a whole number of lamports`);
+  }
+
+  if (lamports < BigInt(0)) {
+    throw new Error(`${label} ${lamports} is negative`);
+  }
+  if (lamports > U64_MAX) {
+    throw new Error(`${label} ${lamports} exceeds the u64 maximum ${U64_MAX}`);
+  }
+
+  return lamports;
+}
+
+// Sum lamport amounts, failing if the total no longer fits in a u64
+export function sumLamports(
+  values: Array<bigint | number | string>,
+  label: string = "Total amount"
+): bigint {
+  const total = values.reduce<bigint>(
+    (sum, value) => sum + parseLamports(value),
+    BigInt(0)
+  );
+  return parseLamports(total, label);
+}
+
+// Convert a decimal SOL string to lamports without going through floats
+export function solToLamports(value: string): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value);
+  if (!match) {
+    throw new Error(`"${value}" is not a decimal SOL amount`);
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > SOL_DECIMALS) {
+    throw new Error(
+      `"${value}" has more than ${SOL_DECIMALS} decimal places (smaller than 1 lamport)`
+    );
+  }
+
+  return (
+    BigInt(whole) * LAMPORTS_PER_SOL +
+    BigInt(fraction.padEnd(SOL_DECIMALS, "0"))
+  );
+}
+
+// Exact decimal representation of an amount in base units, e.g. 1500 with
+// 3 decimals → "1.5"
+export function formatUnits(
+  amount: bigint | number | string,
+  decimals: number
+): string {
+  const value = BigInt(amount.toString());
+  const sign = value < BigInt(0) ? "-" : "";
+  const absolute = value < BigInt(0) ? -value : value;
+  const unit = BigInt(10) ** BigInt(decimals);
+
+  const whole = absolute / unit;
+  const fraction =
+    decimals > 0
+      ? (absolute % unit).toString().padStart(decimals, "0").replace(/0+$/, "")
+      : "";
+
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+// Exact SOL representation of a lamport amount, e.g. 1500000000 → "1.5"
+export function formatSol(lamports: bigint | number | string): string {
+  return formatUnits(lamports, SOL_DECIMALS);
+}
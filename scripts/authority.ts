@@ -0,0 +1,228 @@
+import * as fs from "fs";
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import { SolanaDistributor } from "../target/types/solana_distributor";
+import { PublicKey, Transaction } from "@solana/web3.js";
+import { loadRecipients } from "./load-recipients";
+import { campaignFlag } from "./campaigns";
+import { AirdropStateAccount, DistributorClient } from "./distributor-client";
+
+export type AuthorityCommand = "status" | "propose" | "accept" | "cancel";
+
+export interface AuthorityState {
+  authority: string;
+  // null when no transfer is pending
+  pendingAuthority: string | null;
+}
+
+export interface AuthorityResult {
+  before: AuthorityState;
+  // Read back after sending; equal to before when nothing was sent
+  after: AuthorityState;
+  // Unsigned transaction (base64) when written for another signer
+  transaction: string | null;
+  signature: string | null;
+}
+
+function authorityState(state: AirdropStateAccount): AuthorityState {
+  return {
+    authority: state.authority.toString(),
+    pendingAuthority: state.pendingAuthority.equals(PublicKey.default)
+      ? null
+      : state.pendingAuthority.toString(),
+  };
+}
+
+function printAuthorityState(label: string, state: AuthorityState) {
+  console.log(`${label}:`);
+  console.log(`   👤 Authority: ${state.authority}`);
+  console.log(`   ⏳ Pending authority: ${state.pendingAuthority || "none"}`);
+}
+
+// Show or change who controls an airdrop. A transfer takes two steps: the
+// current authority proposes a successor, who then accepts by signing.
+// With outFile the unsigned transaction is written for the required signer
+// instead of being sent with ANCHOR_WALLET.
+export async function manageAuthority(
+  recipientsFile: string = "recipients.json",
+  command: AuthorityCommand = "status",
+  options: { newAuthority?: string; outFile?: string } = {}
+): Promise<AuthorityResult> {
+  try {
+    console.log("🔑 Checking airdrop authority...");
+    const recipientsData = loadRecipients(recipientsFile);
+
+    // Set up Anchor
+    const provider = anchor.AnchorProvider.env();
+    anchor.setProvider(provider);
+
+    const program = anchor.workspace
+      .SolanaDistributor as Program<SolanaDistributor>;
+
+    const client = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      recipientsData.airdropId,
+      provider.opts
+    );
+    const airdropState = await client.getAirdropState();
+    if (!airdropState) {
+      throw new Error("Airdrop is not initialized");
+    }
+
+    console.log(
+      `🏛️  Airdrop ${
+        recipientsData.airdropId
+      }: ${client.airdropStatePda.toString()}`
+    );
+    const before = authorityState(airdropState);
+    printAuthorityState(command === "status" ? "Status" : "Before", before);
+
+    const result: AuthorityResult = {
+      before,
+      after: before,
+      transaction: null,
+      signature: null,
+    };
+    if (command === "status") {
+      return result;
+    }
+
+    // Who has to sign, and the transaction they sign
+    let signer: PublicKey;
+    let tx: Transaction;
+    if (command === "propose") {
+      if (!options.newAuthority) {
+        throw new Error("propose needs the new authority's public key");
+      }
+      const newAuthority = new PublicKey(options.newAuthority);
+      if (newAuthority.equals(airdropState.authority)) {
+        throw new Error(`${newAuthority.toString()} is already the authority`);
+      }
+      console.log(`📝 Proposing ${newAuthority.toString()} as the authority`);
+      signer = airdropState.authority;
+      tx = await client.buildProposeAuthorityTx(newAuthority, signer);
+    } else if (command === "cancel") {
+      if (!before.pendingAuthority) {
+        console.log("ℹ️  No authority transfer is pending");
+        return result;
+      }
+      console.log(`🚫 Cancelling the transfer to ${before.pendingAuthority}`);
+      signer = airdropState.authority;
+      tx = await client.buildProposeAuthorityTx(PublicKey.default, signer);
+    } else {
+      if (!before.pendingAuthority) {
+        throw new Error(
+          "No authority transfer is pending; the current authority must propose one first"
+        );
+      }
+      console.log(`🤝 Accepting the transfer to ${before.pendingAuthority}`);
+      signer = airdropState.pendingAuthority;
+      tx = await client.buildAcceptAuthorityTx(signer);
+    }
+
+    if (options.outFile) {
+      // Unsigned transaction for the signer to review, sign and send
+      result.transaction = tx
+        .serialize({ requireAllSignatures: false, verifySignatures: false })
+        .toString("base64");
+      fs.writeFileSync(options.outFile, result.transaction);
+      console.log(
+        `💾 Unsigned transaction for ${signer.toString()} written to ${
+          options.outFile
+        }`
+      );
+      return result;
+    }
+
+    if (!signer.equals(provider.wallet.publicKey)) {
+      throw new Error(
+        `This step must be signed by ${signer.toString()}, but the wallet is ${provider.wallet.publicKey.toString()}; pass --out to write the transaction for that key to sign`
+      );
+    }
+
+    console.log("📤 Sending transaction...");
+    result.signature = await provider.sendAndConfirm(tx);
+    console.log(`📋 Transaction signature: ${result.signature}`);
+
+    result.after = authorityState(await client.getAirdropState());
+    printAuthorityState("After", result.after);
+
+    return result;
+  } catch (error) {
+    console.error("❌ Error managing authority:", error);
+    throw error;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const valueFlags = ["--campaign", "--out"];
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const commands: AuthorityCommand[] = [
+    "status",
+    "propose",
+    "accept",
+    "cancel",
+  ];
+  const [command, ...rest] = args;
+
+  if (!commands.includes(command as AuthorityCommand)) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/authority.ts status [recipients.json | --campaign <airdropId>]"
+    );
+    console.log(
+      "  ts-node scripts/authority.ts propose <new_authority> [recipients.json | --campaign <airdropId>] [--out <file>]"
+    );
+    console.log(
+      "  ts-node scripts/authority.ts accept [recipients.json | --campaign <airdropId>] [--out <file>]"
+    );
+    console.log(
+      "  ts-node scripts/authority.ts cancel [recipients.json | --campaign <airdropId>] [--out <file>]"
+    );
+    console.log("");
+    console.log("📝 Examples:");
+    console.log(
+      "  ts-node scripts/authority.ts propose <new_authority> --campaign spring-2025"
+    );
+    console.log(
+      "  ANCHOR_WALLET=new-authority.json ts-node scripts/authority.ts accept --campaign spring-2025"
+    );
+    process.exit(1);
+  }
+
+  // propose takes the new authority first, then the usual file argument
+  const positional = rest.filter(
+    (arg, i) => !arg.startsWith("--") && !valueFlags.includes(rest[i - 1])
+  );
+  const newAuthority = command === "propose" ? positional.shift() : undefined;
+  const recipientsFile =
+    campaignFlag(args)?.recipients || positional[0] || "recipients.json";
+
+  // Set environment variables if not already set
+  if (!process.env.ANCHOR_PROVIDER_URL) {
+    process.env.ANCHOR_PROVIDER_URL = "https://api.devnet.solana.com";
+  }
+  if (!process.env.ANCHOR_WALLET) {
+    process.env.ANCHOR_WALLET = "test-wallet-1.json";
+  }
+
+  manageAuthority(recipientsFile, command as AuthorityCommand, {
+    newAuthority,
+    outFile: flag("--out"),
+  })
+    .then(() => {
+      console.log("🎉 Authority command completed!");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,283 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { ClaimPhases } from "./phases";
+import type { VestingSchedule } from "./vesting";
+import {
+  RecipientsFile,
+  formatAmount,
+  loadRecipients,
+} from "./load-recipients";
+
+// Every campaign lives in campaigns/<airdropId>/ so several airdrops can be
+// prepared side by side without overwriting each other's recipients.json
+export const CAMPAIGNS_DIR = process.env.CAMPAIGNS_DIR || "campaigns";
+
+export interface CampaignPaths {
+  airdropId: string;
+  dir: string;
+  recipients: string;
+  snapshot: string;
+  proofs: string;
+  deployment: string;
+}
+
+// Written by initialize-airdrop.ts when run with --campaign
+export interface DeploymentRecord {
+  airdropId: string;
+  network: string;
+  programId: string;
+  airdropStatePda: string;
+  authority: string;
+  merkleRoot: string;
+  totalAmount: string;
+  // Token airdrops only
+  mint?: string;
+  // Unix timestamp; absent when claims never close
+  claimEndTime?: number;
+  // Absent when everything is claimable at once
+  vesting?: VestingSchedule;
+  // Absent when claims opened to everyone at initialization
+  phases?: ClaimPhases;
+  signature: string;
+  initializedAt: string;
+}
+
+// Lifecycle: recipients written → tree generated → manifest signed → initialized on-chain
+export type CampaignStage = "draft" | "generated" | "signed" | "initialized";
+
+export interface CampaignStatus {
+  airdropId: string;
+  stage: CampaignStage;
+  recipients: number;
+  totalAmount: string;
+  mint?: string;
+  decimals?: number;
+  network: string;
+  hasSnapshot: boolean;
+  hasProofs: boolean;
+  deployment?: DeploymentRecord;
+  // Set when recipients.json cannot be read
+  error?: string;
+}
+
+const ZERO_ROOT = "0x" + "00".repeat(32);
+
+export function campaignPaths(
+  airdropId: string,
+  root: string = CAMPAIGNS_DIR
+): CampaignPaths {
+  // airdropId becomes a directory name, so keep it to one safe path segment
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(airdropId)) {
+    throw new Error(
+      `Campaign id "${airdropId}" may only contain letters, digits, ".", "_" and "-"`
+    );
+  }
+
+  const dir = path.join(root, airdropId);
+  return {
+    airdropId,
+    dir,
+    recipients: path.join(dir, "recipients.json"),
+    snapshot: path.join(dir, "tree.snapshot.bin"),
+    proofs: path.join(dir, "proofs"),
+    deployment: path.join(dir, "deployment.json"),
+  };
+}
+
+// Paths of the campaign selected with --campaign <airdropId>, if any
+export function campaignFlag(args: string[]): CampaignPaths | undefined {
+  const i = args.indexOf("--campaign");
+  if (i === -1) {
+    return undefined;
+  }
+  if (!args[i + 1] || args[i + 1].startsWith("--")) {
+    throw new Error("--campaign needs an airdropId");
+  }
+
+  const paths = campaignPaths(args[i + 1]);
+  if (!fs.existsSync(paths.recipients)) {
+    throw new Error(
+      `Campaign ${paths.airdropId} has no ${paths.recipients}; create it with campaigns.ts create`
+    );
+  }
+  return paths;
+}
+
+// Start a campaign from an existing recipients file; its airdropId is set to
+// the campaign id so the directory and the file always agree. A new id voids
+// the copied signature and root, so the campaign starts again as a draft.
+export function createCampaign(
+  airdropId: string,
+  sourceFile: string = "recipients.json",
+  root: string = CAMPAIGNS_DIR
+): CampaignPaths {
+  const paths = campaignPaths(airdropId, root);
+  if (fs.existsSync(paths.dir)) {
+    throw new Error(`Campaign ${airdropId} already exists in ${paths.dir}`);
+  }
+
+  const source = loadRecipients(sourceFile);
+  const data: RecipientsFile = { ...source, airdropId };
+  if (source.airdropId !== airdropId) {
+    data.merkleRoot = ZERO_ROOT;
+    delete data.earlyAccessRoot;
+    data.metadata = { ...source.metadata };
+    delete data.metadata.signature;
+  }
+  fs.mkdirSync(paths.dir, { recursive: true });
+  fs.writeFileSync(paths.recipients, JSON.stringify(data, null, 2));
+
+  return paths;
+}
+
+export function recordDeployment(
+  deploymentFile: string,
+  record: DeploymentRecord
+) {
+  fs.writeFileSync(deploymentFile, JSON.stringify(record, null, 2));
+}
+
+export function campaignStatus(
+  airdropId: string,
+  root: string = CAMPAIGNS_DIR
+): CampaignStatus {
+  const paths = campaignPaths(airdropId, root);
+  const hasSnapshot = fs.existsSync(paths.snapshot);
+  const hasProofs = fs.existsSync(paths.proofs);
+  const deployment: DeploymentRecord | undefined = fs.existsSync(
+    paths.deployment
+  )
+    ? JSON.parse(fs.readFileSync(paths.deployment, "utf8"))
+    : undefined;
+
+  let data: RecipientsFile;
+  try {
+    data = JSON.parse(fs.readFileSync(paths.recipients, "utf8"));
+  } catch (error) {
+    return {
+      airdropId,
+      stage: "draft",
+      recipients: 0,
+      totalAmount: "0",
+      network: "",
+      hasSnapshot,
+      hasProofs,
+      deployment,
+      error: error.message,
+    };
+  }
+
+  let stage: CampaignStage = "draft";
+  if (deployment) {
+    stage = "initialized";
+  } else if (data.metadata?.signature) {
+    stage = "signed";
+  } else if (data.merkleRoot && data.merkleRoot !== ZERO_ROOT) {
+    stage = "generated";
+  }
+
+  return {
+    airdropId,
+    stage,
+    recipients: data.recipients?.length || 0,
+    totalAmount: String(data.totalAmount),
+    mint: data.mint,
+    decimals: data.decimals,
+    network: data.network,
+    hasSnapshot,
+    hasProofs,
+    deployment,
+  };
+}
+
+export function listCampaigns(root: string = CAMPAIGNS_DIR): CampaignStatus[] {
+  if (!fs.existsSync(root)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(root, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort()
+    .map((airdropId) => campaignStatus(airdropId, root));
+}
+
+export function printCampaigns(campaigns: CampaignStatus[]) {
+  if (campaigns.length === 0) {
+    console.log(`📭 No campaigns in ${CAMPAIGNS_DIR}/`);
+    return;
+  }
+
+  const icons: Record<CampaignStage, string> = {
+    draft: "📝",
+    generated: "🌳",
+    signed: "🔏",
+    initialized: "🚀",
+  };
+
+  console.log(`📂 Campaigns in ${CAMPAIGNS_DIR}/:`);
+  for (const campaign of campaigns) {
+    if (campaign.error) {
+      console.log(`   ❌ ${campaign.airdropId}: ${campaign.error}`);
+      continue;
+    }
+
+    const extras = [
+      campaign.hasSnapshot ? "snapshot" : undefined,
+      campaign.hasProofs ? "proofs" : undefined,
+    ].filter(Boolean);
+    console.log(
+      `   ${icons[campaign.stage]} ${campaign.airdropId} [${campaign.stage}] ${
+        campaign.recipients
+      } recipients, ${formatAmount(campaign, campaign.totalAmount)} on ${
+        campaign.network
+      }${extras.length ? ` (${extras.join(", ")})` : ""}`
+    );
+    if (campaign.deployment) {
+      console.log(
+        `      Program ${campaign.deployment.programId}, initialized ${campaign.deployment.initializedAt}`
+      );
+    }
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const [command, airdropId] = args.filter(
+    (arg, i) => !arg.startsWith("--") && args[i - 1] !== "--from"
+  );
+
+  try {
+    if (command === "list" || command === undefined) {
+      printCampaigns(listCampaigns());
+    } else if (command === "create" && airdropId) {
+      const paths = createCampaign(airdropId, flag("--from"));
+      console.log(`✅ Created campaign ${airdropId} in ${paths.dir}`);
+      console.log(
+        `   Next: npx ts-node scripts/generate-merkle-tree.ts --campaign ${airdropId}`
+      );
+    } else {
+      console.log("📋 Usage:");
+      console.log("  ts-node scripts/campaigns.ts list");
+      console.log(
+        "  ts-node scripts/campaigns.ts create <airdropId> [--from recipients.json]"
+      );
+      console.log("");
+      console.log("📝 Then select the campaign in other scripts:");
+      console.log(
+        "  ts-node scripts/generate-merkle-tree.ts --campaign <airdropId>"
+      );
+      process.exit(1);
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error("💥 Failed:", error.message);
+    process.exit(1);
+  }
+}
@@ -1,16 +1,34 @@
 import * as anchor from "@coral-xyz/anchor";
 import { Program } from "@coral-xyz/anchor";
 import { SolanaDistributor } from "../target/types/solana_distributor";
-import { PublicKey, Keypair } from "@solana/web3.js";
-import { loadRecipients } from "./load-recipients";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import {
+  assertValidRecipients,
+  formatAmount,
+  loadRecipients,
+} from "./load-recipients";
 import { generateProofForRecipient } from "./generate-proof";
+import { assertOnChainAlgorithm } from "./merkle-tree";
+import { assertManifestAgainstState } from "./manifest-signature";
+import { campaignFlag } from "./campaigns";
+import {
+  DistributorClient,
+  formatPhase,
+  getClaimPhase,
+  isClaimWindowOpen,
+  isTokenAirdrop,
+} from "./distributor-client";
+import { formatDuration, formatTimestamp, nowSeconds } from "./time";
+import { formatVesting, vestingFromState, vestingStatus } from "./vesting";
 import bs58 from "bs58";
 
 // Claim airdrop for a specific recipient
 export async function claimAirdrop(
   recipientPublicKey: string,
   secretKeyBase58: string,
-  recipientsFile: string = "recipients.json"
+  recipientsFile: string = "recipients.json",
+  options: { requireSignature?: boolean } = {}
 ) {
   try {
     console.log(`🎯 Claiming airdrop for ${recipientPublicKey}...`);
@@ -25,7 +43,13 @@ export async function claimAirdrop(
 
     // Load recipients data and generate proof
     const recipientsData = loadRecipients(recipientsFile);
-    const proofData = generateProofForRecipient(
+    assertValidRecipients(recipientsData, {
+      strict: true,
+      source: recipientsFile,
+    });
+    assertOnChainAlgorithm(recipientsData.metadata?.algorithm);
+
+    let proofData = generateProofForRecipient(
       recipientPublicKey,
       recipientsFile
     );
@@ -36,7 +60,9 @@ export async function claimAirdrop(
       );
     }
 
-    console.log(`💰 Claiming ${parseInt(proofData.amount) / 1e9} SOL`);
+    console.log(
+      `💰 Allocation: ${formatAmount(recipientsData, proofData.amount)}`
+    );
     console.log(`📊 Leaf Index: ${proofData.leafIndex}`);
     console.log(`🔍 Proof Length: ${proofData.proof.length} hashes`);
 
@@ -48,55 +74,148 @@ export async function claimAirdrop(
       throw new Error("Secret key doesn't match the recipient public key");
     }
 
-    // Calculate PDAs
-    const [airdropStatePda] = PublicKey.findProgramAddressSync(
-      [Buffer.from("merkle_tree")],
-      program.programId
+    // Claims go through the same client the dApp uses, signed by the claimant
+    const client = new DistributorClient(
+      provider.connection,
+      new anchor.Wallet(claimant),
+      program.programId,
+      recipientsData.airdropId,
+      provider.opts
     );
-
-    const [userClaimPda] = PublicKey.findProgramAddressSync(
-      [
-        Buffer.from("claim"),
-        airdropStatePda.toBuffer(),
-        claimant.publicKey.toBuffer(),
-      ],
-      program.programId
+    const { claimStatusPda, withdrawn } = await client.getClaimStatus(
+      claimant.publicKey
     );
 
-    console.log(`🏛️  Airdrop State PDA: ${airdropStatePda.toString()}`);
-    console.log(`👤 User Claim PDA: ${userClaimPda.toString()}`);
+    console.log(`🏛️  Airdrop State PDA: ${client.airdropStatePda.toString()}`);
+    console.log(`👤 User Claim PDA: ${claimStatusPda.toString()}`);
 
-    // Check if already claimed
-    try {
-      await program.account.claimStatus.fetch(userClaimPda);
+    const airdropState = await client.getAirdropState();
+    if (!airdropState) {
+      throw new Error("Airdrop is not initialized");
+    }
+
+    // Only trust the proof data if the authority vouched for this file
+    assertManifestAgainstState(recipientsData, airdropState, options);
+
+    const fileMint = recipientsData.mint
+      ? new PublicKey(recipientsData.mint)
+      : PublicKey.default;
+    if (!fileMint.equals(airdropState.mint)) {
+      throw new Error(
+        `Recipients file is for ${
+          recipientsData.mint ? `mint ${recipientsData.mint}` : "SOL"
+        }, but the airdrop distributes ${
+          isTokenAirdrop(airdropState)
+            ? `mint ${airdropState.mint.toString()}`
+            : "SOL"
+        }`
+      );
+    }
+    if (airdropState.clawedBack) {
+      throw new Error(
+        "Unclaimed funds were clawed back; the airdrop is closed"
+      );
+    }
+    if (airdropState.paused) {
+      throw new Error("Claims are paused by the authority");
+    }
+    const claimEndTime = airdropState.claimEndTime.toNumber();
+    if (!isClaimWindowOpen(airdropState)) {
+      throw new Error(`Claims closed at ${formatTimestamp(claimEndTime)}`);
+    }
+    if (claimEndTime !== 0) {
+      console.log(
+        `⏰ Claims close at ${formatTimestamp(claimEndTime)} (${formatDuration(
+          claimEndTime - nowSeconds()
+        )} left)`
+      );
+    }
+
+    const now = nowSeconds();
+    const { phases, current } = getClaimPhase(airdropState, now);
+    console.log(`🚦 Phase: ${formatPhase(phases, current, now)}`);
+    if (current.name === "not-started") {
+      throw new Error(
+        `Too early to claim: ${formatPhase(phases, current, now)}`
+      );
+    }
+    // Before the public phase the program only accepts proofs against the
+    // early tier's tree
+    if (current.name === "early") {
+      if (recipientsData.earlyAccessRoot?.toLowerCase() !== phases.earlyRoot) {
+        throw new Error(
+          `The early access root in ${recipientsFile} does not match the airdrop's ${phases.earlyRoot}`
+        );
+      }
+      proofData = generateProofForRecipient(
+        recipientPublicKey,
+        recipientsFile,
+        { earlyAccess: true }
+      );
+      if (!proofData) {
+        throw new Error(
+          `${recipientPublicKey} is not in the early access tier; ${formatPhase(
+            phases,
+            current,
+            now
+          )}`
+        );
+      }
+    }
+    if (isTokenAirdrop(airdropState)) {
+      const vault = await client.getTokenVault(airdropState.mint);
+      const destination = getAssociatedTokenAddressSync(
+        vault.mint,
+        claimant.publicKey,
+        false,
+        vault.tokenProgram
+      );
+      const exists = await provider.connection.getAccountInfo(destination);
+      console.log(
+        `🪙 Paying into ${destination.toString()}${
+          exists ? "" : " (created by this claim)"
+        }`
+      );
+    }
+
+    // With vesting, every claim pays what has vested since the last one
+    const format = (amount: bigint) => formatAmount(recipientsData, amount);
+    const vesting = vestingFromState(airdropState.vesting);
+    const status = vestingStatus(
+      vesting,
+      BigInt(proofData.amount),
+      withdrawn,
+      nowSeconds()
+    );
+    if (vesting.durationSeconds > 0) {
+      console.log(`📅 Vesting: ${formatVesting(vesting)}`);
+      console.log(
+        `   Vested ${format(status.vested)}, claimed ${format(
+          status.claimed
+        )}, remaining ${format(status.remaining)}`
+      );
+    }
+
+    if (status.remaining === BigInt(0)) {
       console.log("❌ This recipient has already claimed their airdrop!");
       return {
         success: false,
         error: "Already claimed",
         signature: null,
       };
-    } catch (e) {
-      // Not claimed yet, continue
-      console.log("✅ Recipient hasn't claimed yet, proceeding...");
     }
-
-    // Convert proof format - program expects Vec<[u8; 32]>
-    const proofBytes = proofData.proof.map((p) =>
-      Array.from(new Uint8Array(p))
-    );
+    if (status.claimable === BigInt(0)) {
+      console.log("⏳ Nothing has vested since the last claim");
+      return {
+        success: false,
+        error: "Nothing vested yet",
+        signature: null,
+      };
+    }
+    console.log(`✅ Claiming ${format(status.claimable)}, proceeding...`);
 
     console.log("📤 Sending claim transaction...");
-    const tx = await program.methods
-      .claimAirdrop(
-        new anchor.BN(proofData.amount),
-        proofBytes,
-        new anchor.BN(proofData.leafIndex)
-      )
-      .accounts({
-        signer: claimant.publicKey,
-      })
-      .signers([claimant])
-      .rpc();
+    const tx = await client.claim(proofData);
 
     console.log("✅ Airdrop claimed successfully!");
     console.log(`📋 Transaction signature: ${tx}`);
@@ -107,7 +226,7 @@ export async function claimAirdrop(
     return {
       success: true,
       signature: tx,
-      amount: proofData.amount,
+      amount: status.claimable.toString(),
       recipient: recipientPublicKey,
     };
   } catch (error) {
@@ -122,12 +241,17 @@ export async function claimAirdrop(
 
 // Command line interface
 if (require.main === module) {
-  const args = process.argv.slice(2);
+  const argv = process.argv.slice(2);
+  const args = argv.filter(
+    (arg, i) => !arg.startsWith("--") && argv[i - 1] !== "--campaign"
+  );
+  const requireSignature = argv.includes("--require-signature");
+  const campaign = campaignFlag(argv);
 
   if (args.length < 2) {
     console.log("📋 Usage:");
     console.log(
-      "  npx ts-node scripts/claim-airdrop.ts <recipient_public_key> <secret_key_base58>"
+      "  npx ts-node scripts/claim-airdrop.ts <recipient_public_key> <secret_key_base58> [--campaign <airdropId>] [--require-signature]"
     );
     console.log("");
     console.log("📝 Example:");
@@ -151,7 +275,9 @@ if (require.main === module) {
     process.env.ANCHOR_WALLET = "test-wallet-1.json";
   }
 
-  claimAirdrop(recipientPublicKey, secretKeyBase58)
+  claimAirdrop(recipientPublicKey, secretKeyBase58, campaign?.recipients, {
+    requireSignature,
+  })
     .then((result) => {
       if (result.success) {
         console.log("🎉 Claim completed successfully!");
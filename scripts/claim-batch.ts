@@ -0,0 +1,394 @@
+import * as fs from "fs";
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import { SolanaDistributor } from "../target/types/solana_distributor";
+import {
+  Keypair,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Transaction,
+} from "@solana/web3.js";
+import {
+  Recipient as RecipientEntry,
+  assertValidRecipients,
+  earlyAccessRecipients,
+  loadRecipients,
+} from "./load-recipients";
+import {
+  MultiProofData,
+  buildEarlyAccessTree,
+  buildMerkleTree,
+  getMultiProofData,
+} from "./generate-proof";
+import {
+  assertOnChainAlgorithm,
+  createLeaf,
+  verifyMultiProof,
+} from "./merkle-tree";
+import { formatSol, sumLamports } from "./amounts";
+import { assertManifestAgainstState } from "./manifest-signature";
+import { campaignFlag } from "./campaigns";
+import { findAirdropStatePda, findClaimStatusPda } from "./pda";
+import {
+  formatPhase,
+  getClaimPhase,
+  isClaimWindowOpen,
+  isTokenAirdrop,
+} from "./distributor-client";
+import { formatTimestamp, nowSeconds } from "./time";
+import { formatVesting, vestedAmount, vestingFromState } from "./vesting";
+
+export interface BatchClaimResult {
+  signature: string;
+  recipients: string[];
+  // What was paid: the vested part of the recipients' amounts
+  totalAmount: bigint;
+  proofLength: number;
+}
+
+// Build the claim_airdrop_batch transaction for one chunk of claimants
+async function buildBatchTransaction(
+  program: Program<SolanaDistributor>,
+  airdropStatePda: PublicKey,
+  payer: PublicKey,
+  multiProof: MultiProofData
+): Promise<Transaction> {
+  const remainingAccounts = multiProof.recipients.flatMap((publicKey) => {
+    const claimant = new PublicKey(publicKey);
+    const userClaimPda = findClaimStatusPda(
+      program.programId,
+      airdropStatePda,
+      claimant
+    );
+    return [
+      { pubkey: claimant, isSigner: true, isWritable: true },
+      { pubkey: userClaimPda, isSigner: false, isWritable: true },
+    ];
+  });
+
+  return program.methods
+    .claimAirdropBatch(
+      multiProof.amounts.map((amount) => new anchor.BN(amount)),
+      multiProof.leafIndices.map((index) => new anchor.BN(index)),
+      multiProof.proof,
+      multiProof.proofFlags
+    )
+    .accounts({ airdropState: airdropStatePda, payer })
+    .remainingAccounts(remainingAccounts)
+    .transaction();
+}
+
+// Serialized size of a transaction once every required signature is attached
+function transactionSize(tx: Transaction, signerCount: number): number {
+  return tx.serializeMessage().length + 1 + signerCount * 64;
+}
+
+// Claim for several recipients whose keys the caller holds. Claims are sorted
+// by leaf index so neighbouring leaves share proof nodes, verified locally
+// with one multiproof per transaction, and chunks that would exceed the
+// packet size limit are split in half until they fit.
+export async function claimAirdropBatch(
+  claimants: Keypair[],
+  recipientsFile: string = "recipients.json",
+  maxBatchSize: number = 8,
+  options: { requireSignature?: boolean } = {}
+): Promise<BatchClaimResult[]> {
+  try {
+    console.log(`🎯 Batch claiming for ${claimants.length} recipients...`);
+
+    // Set up Anchor
+    const provider = anchor.AnchorProvider.env();
+    anchor.setProvider(provider);
+
+    const program = anchor.workspace
+      .SolanaDistributor as Program<SolanaDistributor>;
+    console.log(`📍 Program ID: ${program.programId.toString()}`);
+
+    const recipientsData = loadRecipients(recipientsFile);
+    assertValidRecipients(recipientsData, {
+      strict: true,
+      source: recipientsFile,
+    });
+    const algorithm = recipientsData.metadata?.algorithm;
+    assertOnChainAlgorithm(algorithm);
+
+    const airdropStatePda = findAirdropStatePda(
+      program.programId,
+      recipientsData.airdropId
+    );
+    console.log(
+      `🏛️  Airdrop state PDA for ${
+        recipientsData.airdropId
+      }: ${airdropStatePda.toString()}`
+    );
+    const airdropState = await program.account.airdropState.fetch(
+      airdropStatePda
+    );
+    assertManifestAgainstState(recipientsData, airdropState, options);
+    // claim_airdrop_batch pays lamports; token claims go one by one
+    if (isTokenAirdrop(airdropState)) {
+      throw new Error(
+        "Batch claims only support SOL airdrops; use claim-airdrop.ts for token airdrops"
+      );
+    }
+    if (airdropState.clawedBack) {
+      throw new Error(
+        "Unclaimed funds were clawed back; the airdrop is closed"
+      );
+    }
+    if (airdropState.paused) {
+      throw new Error("Claims are paused by the authority");
+    }
+    if (!isClaimWindowOpen(airdropState)) {
+      throw new Error(
+        `Claims closed at ${formatTimestamp(
+          airdropState.claimEndTime.toNumber()
+        )}`
+      );
+    }
+
+    // Before the public phase only the early tier can claim, with proofs
+    // against the tier's own tree
+    const now = nowSeconds();
+    const { phases, current } = getClaimPhase(airdropState, now);
+    console.log(`🚦 Phase: ${formatPhase(phases, current, now)}`);
+    if (current.name === "not-started") {
+      throw new Error(
+        `Too early to claim: ${formatPhase(phases, current, now)}`
+      );
+    }
+    const earlyAccess = current.name === "early";
+    if (
+      earlyAccess &&
+      recipientsData.earlyAccessRoot?.toLowerCase() !== phases.earlyRoot
+    ) {
+      throw new Error(
+        `The early access root in ${recipientsFile} does not match the airdrop's ${phases.earlyRoot}`
+      );
+    }
+    const merkleTree = earlyAccess
+      ? buildEarlyAccessTree(recipientsData)
+      : buildMerkleTree(recipientsData);
+    const treeRoot = earlyAccess
+      ? recipientsData.earlyAccessRoot
+      : recipientsData.merkleRoot;
+    const tier = new Map(
+      earlyAccessRecipients(recipientsData.recipients).map((r) => [
+        r.publicKey,
+        r,
+      ])
+    );
+
+    // Match every keypair to its recipient entry
+    const byKey = new Map(
+      recipientsData.recipients.map((r) => [r.publicKey, r])
+    );
+    const keypairs = new Map<string, Keypair>();
+    for (const claimant of claimants) {
+      const publicKey = claimant.publicKey.toString();
+      if (!byKey.has(publicKey)) {
+        throw new Error(`Recipient ${publicKey} not found in recipients list`);
+      }
+      keypairs.set(publicKey, claimant);
+    }
+
+    // Skip recipients outside the tier during early access
+    const entries = [...keypairs.keys()].flatMap((k) => {
+      if (!earlyAccess) {
+        return [byKey.get(k)];
+      }
+      if (!tier.has(k)) {
+        console.log(`⏭️  ${k} is not in the early access tier, skipping`);
+        return [];
+      }
+      return [tier.get(k)];
+    });
+    const claimPdas = entries.map((r) =>
+      findClaimStatusPda(
+        program.programId,
+        airdropStatePda,
+        new PublicKey(r.publicKey)
+      )
+    );
+    const claimAccounts: (anchor.web3.AccountInfo<Buffer> | null)[] = [];
+    for (let i = 0; i < claimPdas.length; i += 100) {
+      claimAccounts.push(
+        ...(await provider.connection.getMultipleAccountsInfo(
+          claimPdas.slice(i, i + 100)
+        ))
+      );
+    }
+
+    // A batch claim pays what has vested so far; later withdrawals of a
+    // vesting airdrop go through claim-airdrop.ts
+    const vesting = vestingFromState(airdropState.vesting);
+    if (vesting.durationSeconds > 0) {
+      console.log(`📅 Vesting: ${formatVesting(vesting)}`);
+    }
+
+    // Batches only cover first claims. A ClaimStatus is program-owned data;
+    // lamports someone sent to the empty address do not count.
+    const hasClaimStatus = (account: anchor.web3.AccountInfo<Buffer> | null) =>
+      !!account &&
+      account.owner.equals(program.programId) &&
+      account.data.length > 0;
+
+    const pending: RecipientEntry[] = [];
+    entries.forEach((r, i) => {
+      if (hasClaimStatus(claimAccounts[i])) {
+        console.log(`⏭️  ${r.publicKey} has already claimed, skipping`);
+      } else if (vestedAmount(vesting, BigInt(r.amount), now) === BigInt(0)) {
+        console.log(`⏭️  ${r.publicKey} has nothing vested yet, skipping`);
+      } else {
+        pending.push(r);
+      }
+    });
+    pending.sort((a, b) => a.index - b.index);
+
+    const chunks: RecipientEntry[][] = [];
+    for (let i = 0; i < pending.length; i += maxBatchSize) {
+      chunks.push(pending.slice(i, i + maxBatchSize));
+    }
+
+    const results: BatchClaimResult[] = [];
+    while (chunks.length > 0) {
+      const chunk = chunks.shift();
+      const multiProof = getMultiProofData(merkleTree, chunk);
+
+      // Catch a bad multiproof before it costs fees
+      const leaves = multiProof.recipients.map((publicKey, i) =>
+        createLeaf(new PublicKey(publicKey), multiProof.amounts[i], algorithm)
+      );
+      if (
+        !verifyMultiProof(
+          leaves,
+          multiProof.leafIndices,
+          multiProof.proof,
+          multiProof.proofFlags,
+          treeRoot,
+          algorithm
+        )
+      ) {
+        throw new Error(
+          `Multiproof does not verify against ${
+            earlyAccess ? "earlyAccessRoot" : "merkleRoot"
+          }`
+        );
+      }
+
+      const tx = await buildBatchTransaction(
+        program,
+        airdropStatePda,
+        provider.wallet.publicKey,
+        multiProof
+      );
+      tx.feePayer = provider.wallet.publicKey;
+      tx.recentBlockhash = (
+        await provider.connection.getLatestBlockhash()
+      ).blockhash;
+
+      // Payer plus one signature per claimant (unless the payer is claiming)
+      const signers = chunk.map((r) => keypairs.get(r.publicKey));
+      const signerCount =
+        1 + signers.filter((s) => !s.publicKey.equals(tx.feePayer)).length;
+
+      if (transactionSize(tx, signerCount) > PACKET_DATA_SIZE) {
+        if (chunk.length === 1) {
+          throw new Error(
+            `Claim for ${chunk[0].publicKey} does not fit in a transaction`
+          );
+        }
+        const half = Math.ceil(chunk.length / 2);
+        chunks.unshift(chunk.slice(0, half), chunk.slice(half));
+        continue;
+      }
+
+      const totalAmount = sumLamports(
+        multiProof.amounts.map((amount) =>
+          vestedAmount(vesting, BigInt(amount), now)
+        )
+      );
+      console.log(
+        `📤 Claiming ${formatSol(totalAmount)} SOL for ${
+          chunk.length
+        } recipients (${multiProof.proof.length} proof hashes)...`
+      );
+
+      const signature = await provider.sendAndConfirm(tx, signers);
+      console.log(`✅ Transaction signature: ${signature}`);
+
+      results.push({
+        signature,
+        recipients: multiProof.recipients,
+        totalAmount,
+        proofLength: multiProof.proof.length,
+      });
+    }
+
+    console.log(
+      `✅ Claimed for ${pending.length} recipients in ${results.length} transactions`
+    );
+    return results;
+  } catch (error) {
+    console.error("❌ Error batch claiming airdrop:", error);
+    throw error;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const keypairFiles = args.filter(
+    (arg, i) =>
+      !arg.startsWith("--") &&
+      args[i - 1] !== "--recipients" &&
+      args[i - 1] !== "--max-batch" &&
+      args[i - 1] !== "--campaign"
+  );
+
+  if (keypairFiles.length === 0) {
+    console.log("📋 Usage:");
+    console.log(
+      "  npx ts-node scripts/claim-batch.ts <keypair.json> [<keypair.json> ...] [--recipients <file> | --campaign <airdropId>] [--max-batch <n>] [--require-signature]"
+    );
+    console.log("");
+    console.log("📝 Example:");
+    console.log(
+      "  npx ts-node scripts/claim-batch.ts test-wallet-1.json test-wallet-2.json test-wallet-3.json"
+    );
+    process.exit(1);
+  }
+
+  // Set environment variables if not already set
+  if (!process.env.ANCHOR_PROVIDER_URL) {
+    process.env.ANCHOR_PROVIDER_URL = "https://api.devnet.solana.com";
+  }
+  if (!process.env.ANCHOR_WALLET) {
+    process.env.ANCHOR_WALLET = "test-wallet-1.json";
+  }
+
+  const claimants = keypairFiles.map((file) =>
+    Keypair.fromSecretKey(
+      new Uint8Array(JSON.parse(fs.readFileSync(file, "utf8")))
+    )
+  );
+
+  claimAirdropBatch(
+    claimants,
+    flag("--recipients") || campaignFlag(args)?.recipients,
+    flag("--max-batch") ? parseInt(flag("--max-batch")) : undefined,
+    { requireSignature: args.includes("--require-signature") }
+  )
+    .then(() => {
+      console.log("🎉 Batch claim completed!");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,210 @@
+import * as fs from "fs";
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import { SolanaDistributor } from "../target/types/solana_distributor";
+import { PublicKey } from "@solana/web3.js";
+import { formatAmount, loadRecipients } from "./load-recipients";
+import { campaignFlag } from "./campaigns";
+import {
+  DistributorClient,
+  isClaimWindowOpen,
+  isTokenAirdrop,
+} from "./distributor-client";
+import { formatDuration, formatTimestamp, nowSeconds } from "./time";
+
+export interface ClawbackPlan {
+  destination: string;
+  // What the vault holds beyond its rent-exempt minimum
+  amount: bigint;
+  claimEndTime: number;
+  // Unsigned transaction (base64) when not sent
+  transaction: string | null;
+  signature: string | null;
+}
+
+// Show what a clawback would recover; send it with send, otherwise build the
+// unsigned transaction for the authority to review and sign
+export async function planClawback(
+  recipientsFile: string = "recipients.json",
+  options: { destination?: string; outFile?: string; send?: boolean } = {}
+): Promise<ClawbackPlan> {
+  try {
+    console.log("🔙 Planning clawback of unclaimed funds...");
+    const recipientsData = loadRecipients(recipientsFile);
+    const format = (amount: bigint | string) =>
+      formatAmount(recipientsData, amount);
+
+    // Set up Anchor
+    const provider = anchor.AnchorProvider.env();
+    anchor.setProvider(provider);
+
+    const program = anchor.workspace
+      .SolanaDistributor as Program<SolanaDistributor>;
+
+    const client = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      recipientsData.airdropId,
+      provider.opts
+    );
+    const airdropState = await client.getAirdropState();
+    if (!airdropState) {
+      throw new Error("Airdrop is not initialized");
+    }
+
+    console.log(
+      `🏛️  Airdrop ${
+        recipientsData.airdropId
+      }: ${client.airdropStatePda.toString()}`
+    );
+    console.log(`👤 Authority: ${airdropState.authority.toString()}`);
+    if (!airdropState.authority.equals(provider.wallet.publicKey)) {
+      console.log(
+        `⚠️  Wallet ${provider.wallet.publicKey.toString()} is not the airdrop authority`
+      );
+    }
+    console.log(
+      `   Allocated: ${format(airdropState.airdropAmount.toString())}`
+    );
+    console.log(`   Claimed: ${format(airdropState.amountClaimed.toString())}`);
+
+    const claimEndTime = airdropState.claimEndTime.toNumber();
+    if (airdropState.clawedBack) {
+      throw new Error(
+        `Unclaimed funds were already clawed back (${format(
+          airdropState.amountClawedBack.toString()
+        )})`
+      );
+    }
+    if (claimEndTime === 0) {
+      throw new Error(
+        "Airdrop has no claim end time; clawback is only possible after a deadline"
+      );
+    } else if (isClaimWindowOpen(airdropState)) {
+      throw new Error(
+        `Claims are open until ${formatTimestamp(
+          claimEndTime
+        )} (${formatDuration(
+          claimEndTime - nowSeconds()
+        )} left); clawback is only possible after that`
+      );
+    } else {
+      console.log(`⏰ Claims closed at ${formatTimestamp(claimEndTime)}`);
+    }
+
+    const destination = new PublicKey(
+      options.destination || provider.wallet.publicKey
+    );
+    const { vault, balance, rentReserved, amount } =
+      await client.getClawbackAmount();
+
+    console.log("\n💰 Clawback:");
+    console.log(`   Vault ${vault.toString()}: ${format(balance)}`);
+    if (rentReserved > BigInt(0)) {
+      console.log(`   Kept for rent: ${format(rentReserved)}`);
+    }
+    console.log(`   Amount: ${format(amount)}`);
+    console.log(
+      `   Destination: ${destination.toString()}${
+        isTokenAirdrop(airdropState) ? " (its associated token account)" : ""
+      }`
+    );
+
+    const plan: ClawbackPlan = {
+      destination: destination.toString(),
+      amount,
+      claimEndTime,
+      transaction: null,
+      signature: null,
+    };
+    if (amount === BigInt(0)) {
+      console.log("📭 Nothing to claw back");
+      return plan;
+    }
+
+    if (options.send) {
+      console.log("📤 Sending clawback transaction...");
+      plan.signature = await client.clawback(destination);
+      console.log("✅ Unclaimed funds clawed back!");
+      console.log(`📋 Transaction signature: ${plan.signature}`);
+    } else {
+      // Unsigned transaction for the authority to review, sign and send
+      const tx = await client.buildClawbackTx(
+        destination,
+        airdropState.authority
+      );
+      plan.transaction = tx
+        .serialize({ requireAllSignatures: false, verifySignatures: false })
+        .toString("base64");
+
+      if (options.outFile) {
+        fs.writeFileSync(options.outFile, plan.transaction);
+        console.log(`💾 Unsigned transaction written to ${options.outFile}`);
+      } else {
+        console.log(`📦 Unsigned transaction (base64):\n${plan.transaction}`);
+      }
+      console.log(
+        "ℹ️  Nothing sent; pass --send to claw back with ANCHOR_WALLET"
+      );
+    }
+
+    return plan;
+  } catch (error) {
+    console.error("❌ Error planning clawback:", error);
+    throw error;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const valueFlags = ["--campaign", "--destination", "--out"];
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+
+  if (args.includes("--help")) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/clawback.ts [recipients.json | --campaign <airdropId>] [--destination <pubkey>] [--out <file>] [--send]"
+    );
+    console.log("");
+    console.log("📝 Examples:");
+    console.log("  ts-node scripts/clawback.ts recipients.json");
+    console.log(
+      "  ts-node scripts/clawback.ts --campaign spring-2025 --destination <treasury> --send"
+    );
+    process.exit(0);
+  }
+
+  const recipientsFile =
+    campaignFlag(args)?.recipients ||
+    args.find(
+      (arg, i) => !arg.startsWith("--") && !valueFlags.includes(args[i - 1])
+    ) ||
+    "recipients.json";
+
+  // Set environment variables if not already set
+  if (!process.env.ANCHOR_PROVIDER_URL) {
+    process.env.ANCHOR_PROVIDER_URL = "https://api.devnet.solana.com";
+  }
+  if (!process.env.ANCHOR_WALLET) {
+    process.env.ANCHOR_WALLET = "test-wallet-1.json";
+  }
+
+  planClawback(recipientsFile, {
+    destination: flag("--destination"),
+    outFile: flag("--out"),
+    send: args.includes("--send"),
+  })
+    .then(() => {
+      console.log("🎉 Clawback plan completed!");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error);
+      process.exit(1);
+    });
+}
@@ -6,7 +6,9 @@ import { Keypair, Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.j
 import bs58 from "bs58";
 import { execSync } from "child_process";
 import * as readline from "readline";
-import { keccak_256 } from "js-sha3";
+import { Recipient, SimpleMerkleTree } from "./merkle-tree";
+import { parseLamports } from "./amounts";
+import { CampaignPaths, campaignPaths } from "./campaigns";
 
 interface WalletInfo {
   name: string;
@@ -28,82 +30,6 @@ interface WalletInfo {
   isDeployWallet?: boolean;
 }
 
-interface Recipient {
-  recipient: PublicKey;
-  amount: number;
-}
-
-class SimpleMerkleTree {
-  public root: Uint8Array;
-  private leaves: Uint8Array[];
-  private tree: Uint8Array[][];
-
-  constructor(recipients: Recipient[]) {
-    // Create leaves
-    this.leaves = recipients.map((r) => this.createLeaf(r.recipient, r.amount));
-
-    // Build tree
-    this.tree = [this.leaves];
-    let currentLevel = this.leaves;
-
-    while (currentLevel.length > 1) {
-      const nextLevel: Uint8Array[] = [];
-
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = i + 1 < currentLevel.length ? currentLevel[i + 1] : left;
-        const parent = this.hashPair(left, right);
-        nextLevel.push(parent);
-      }
-
-      this.tree.push(nextLevel);
-      currentLevel = nextLevel;
-    }
-
-    this.root = currentLevel[0];
-  }
-
-  private createLeaf(recipient: PublicKey, amount: number): Uint8Array {
-    const data = Buffer.concat([
-      recipient.toBuffer(),
-      Buffer.from(new Uint8Array(new BigUint64Array([BigInt(amount)]).buffer)),
-      Buffer.from([0]), // isClaimed = false
-    ]);
-    return new Uint8Array(keccak_256.arrayBuffer(data));
-  }
-
-  private hashPair(left: Uint8Array, right: Uint8Array): Uint8Array {
-    const data = Buffer.concat([Buffer.from(left), Buffer.from(right)]);
-    return new Uint8Array(keccak_256.arrayBuffer(data));
-  }
-
-  public getProof(leafIndex: number): Uint8Array[] {
-    const proof: Uint8Array[] = [];
-    let index = leafIndex;
-
-    for (let level = 0; level < this.tree.length - 1; level++) {
-      const currentLevel = this.tree[level];
-      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
-
-      if (siblingIndex < currentLevel.length) {
-        proof.push(currentLevel[siblingIndex]);
-      }
-
-      index = Math.floor(index / 2);
-    }
-
-    return proof;
-  }
-
-  public getRootHex(): string {
-    return "0x" + Buffer.from(this.root).toString("hex");
-  }
-
-  public getLeafCount(): number {
-    return this.leaves.length;
-  }
-}
-
 interface TestWalletsData {
   network: string;
   description: string;
@@ -131,8 +57,11 @@ class SolanaDeploymentSetup {
   private connection: Connection;
   private rl: readline.Interface;
   private wallets: WalletInfo[] = [];
+  // The campaign's recipients file with --campaign, otherwise recipients.json
+  private recipientsFile: string;
 
-  constructor() {
+  constructor(private campaign?: CampaignPaths) {
+    this.recipientsFile = campaign ? campaign.recipients : "recipients.json";
     this.connection = new Connection("https://api.devnet.solana.com", "confirmed");
     this.rl = readline.createInterface({
       input: process.stdin,
@@ -140,6 +69,11 @@ class SolanaDeploymentSetup {
     });
   }
 
+  // Appended to script commands so they use the same recipients file
+  private get campaignArg(): string {
+    return this.campaign ? ` --campaign ${this.campaign.airdropId}` : "";
+  }
+
   private question(prompt: string): Promise<string> {
     return new Promise((resolve) => {
       this.rl.question(prompt, resolve);
@@ -511,20 +445,27 @@ test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
 
     const totalAmount = (recipients.length * 75000000).toString();
 
-    // Check if recipients.json already exists with the same wallets
+    // Check if the recipients file already exists with the same wallets
     let shouldUpdate = true;
-    if (fs.existsSync("recipients.json")) {
+    if (fs.existsSync(this.recipientsFile)) {
       try {
-        const existingData = JSON.parse(fs.readFileSync("recipients.json", "utf8"));
-        const existingPublicKeys = existingData.recipients?.map((r: any) => r.publicKey) || [];
-        const newPublicKeys = recipients.map(r => r.publicKey);
-        
+        const existingData = JSON.parse(
+          fs.readFileSync(this.recipientsFile, "utf8")
+        );
+        const existingPublicKeys =
+          existingData.recipients?.map((r: any) => r.publicKey) || [];
+        const newPublicKeys = recipients.map((r) => r.publicKey);
+
         // If the wallets are the same, just update descriptions and keep existing merkle root
         if (JSON.stringify(existingPublicKeys.sort()) === JSON.stringify(newPublicKeys.sort())) {
           console.log("📋 Recipients unchanged, updating descriptions only");
           existingData.recipients = recipients;
-          existingData.description = "Deployment setup airdrop for testing purposes";
-          fs.writeFileSync("recipients.json", JSON.stringify(existingData, null, 2));
+          existingData.description =
+            "Deployment setup airdrop for testing purposes";
+          fs.writeFileSync(
+            this.recipientsFile,
+            JSON.stringify(existingData, null, 2)
+          );
           shouldUpdate = false;
         }
       } catch (error) {
@@ -534,7 +475,9 @@ test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
 
     if (shouldUpdate) {
       const recipientsData = {
-        airdropId: "solana-distributor-airdrop-" + new Date().getFullYear(),
+        airdropId: this.campaign
+          ? this.campaign.airdropId
+          : "solana-distributor-airdrop-" + new Date().getFullYear(),
         description: "Deployment setup airdrop for testing purposes",
         merkleRoot: "0x0000000000000000000000000000000000000000000000000000000000000000", // Will be updated after tree generation
         totalAmount,
@@ -549,8 +492,12 @@ test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
         },
       };
 
-      fs.writeFileSync("recipients.json", JSON.stringify(recipientsData, null, 2));
-      console.log("📋 Generated recipients.json");
+      fs.mkdirSync(path.dirname(this.recipientsFile), { recursive: true });
+      fs.writeFileSync(
+        this.recipientsFile,
+        JSON.stringify(recipientsData, null, 2)
+      );
+      console.log(`📋 Generated ${this.recipientsFile}`);
     }
   }
 
@@ -559,13 +506,17 @@ test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
       console.log("🌳 Generating Merkle tree...");
 
       // Load recipients data
-      const recipientsData = JSON.parse(fs.readFileSync("recipients.json", "utf8"));
+      const recipientsData = JSON.parse(
+        fs.readFileSync(this.recipientsFile, "utf8")
+      );
 
       // Convert to format expected by merkle tree
-      const recipients: Recipient[] = recipientsData.recipients.map((r: any) => ({
-        recipient: new PublicKey(r.publicKey),
-        amount: parseInt(r.amount),
-      }));
+      const recipients: Recipient[] = recipientsData.recipients.map(
+        (r: any) => ({
+          recipient: new PublicKey(r.publicKey),
+          amount: parseLamports(r.amount),
+        })
+      );
 
       // Generate merkle tree
       const merkleTree = new SimpleMerkleTree(recipients);
@@ -575,14 +526,17 @@ test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
       console.log(`   Leaves: ${merkleTree.getLeafCount()}`);
       console.log(`   Root: ${merkleRootHex}`);
 
-      // Update recipients.json with the computed root
+      // Update the recipients file with the computed root
       recipientsData.merkleRoot = merkleRootHex;
-      recipientsData.metadata.algorithm = "keccak256";
+      recipientsData.metadata.algorithm = merkleTree.getAlgorithm();
       recipientsData.metadata.leafFormat = "recipient_pubkey(32) + amount(8) + is_claimed(1)";
 
       // Write back to file
-      fs.writeFileSync("recipients.json", JSON.stringify(recipientsData, null, 2));
-      console.log(`✅ Updated recipients.json with merkle root`); 
+      fs.writeFileSync(
+        this.recipientsFile,
+        JSON.stringify(recipientsData, null, 2)
+      );
+      console.log(`✅ Updated ${this.recipientsFile} with merkle root`);
 
       return {
         merkleRoot: merkleRootHex,
@@ -659,12 +613,17 @@ test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
       fs.writeFileSync("Anchor.toml", anchorContent);
       console.log("   ✅ Updated Anchor.toml");
       
-      // Update recipients.json if it exists
-      if (fs.existsSync("recipients.json")) {
-        const recipientsData = JSON.parse(fs.readFileSync("recipients.json", "utf8"));
+      // Update the recipients file if it exists
+      if (fs.existsSync(this.recipientsFile)) {
+        const recipientsData = JSON.parse(
+          fs.readFileSync(this.recipientsFile, "utf8")
+        );
         recipientsData.programId = newProgramId;
-        fs.writeFileSync("recipients.json", JSON.stringify(recipientsData, null, 2));
-        console.log("   ✅ Updated recipients.json");
+        fs.writeFileSync(
+          this.recipientsFile,
+          JSON.stringify(recipientsData, null, 2)
+        );
+        console.log(`   ✅ Updated ${this.recipientsFile}`);
       }
       
       console.log("✅ All program references updated!");
@@ -751,13 +710,17 @@ test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
       console.log("\n🚀 Initializing airdrop on-chain...\n");
       
       console.log("📤 Running initialization script...");
-      execSync("npx ts-node scripts/initialize-airdrop.ts", { stdio: "inherit" });
-      
+      execSync(`npx ts-node scripts/initialize-airdrop.ts${this.campaignArg}`, {
+        stdio: "inherit",
+      });
+
       console.log("✅ Airdrop initialized successfully!");
       return true;
     } catch (error) {
       console.error("❌ Airdrop initialization failed:", error);
-      console.log("You can try manually with: npx ts-node scripts/initialize-airdrop.ts");
+      console.log(
+        `You can try manually with: npx ts-node scripts/initialize-airdrop.ts${this.campaignArg}`
+      );
       return false;
     }
   }
@@ -786,7 +749,7 @@ test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
       this.saveTestWalletsJson(this.wallets);
       this.generateRecipientsJson(testWallets);
 
-      // Step 3.5: Generate merkle tree and update recipients.json
+      // Step 3.5: Generate merkle tree and update the recipients file
       console.log("\n🌳 Generating merkle tree and updating recipients...");
       const { merkleRoot } = this.generateMerkleTree();
 
@@ -805,7 +768,9 @@ test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
       // Deployment completed successfully
       if (deploySuccess) {
         console.log("🎉 Program deployment completed successfully!");
-        console.log("📋 To initialize the airdrop later, run: npx ts-node scripts/initialize-airdrop.ts");
+        console.log(
+          `📋 To initialize the airdrop later, run: npx ts-node scripts/initialize-airdrop.ts${this.campaignArg}`
+        );
       }
 
       // Step 5: Next steps
@@ -816,20 +781,28 @@ test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
         console.log(`   - ${wallet.keypairFile}`);
       });
       console.log("   - test-wallets.json");
-      console.log("   - recipients.json (updated)");
+      console.log(`   - ${this.recipientsFile} (updated)`);
       console.log("   - Anchor.toml (updated)");
       
       console.log("\n🚀 Next steps:");
-      console.log("1. ✅ Merkle tree generated and recipients.json updated");
+      console.log(
+        `1. ✅ Merkle tree generated and ${this.recipientsFile} updated`
+      );
       if (deploySuccess) {
         console.log("2. ✅ Program deployed successfully");
-        console.log("3. Initialize airdrop: npx ts-node scripts/initialize-airdrop.ts");
+        console.log(
+          `3. Initialize airdrop: npx ts-node scripts/initialize-airdrop.ts${this.campaignArg}`
+        );
       } else {
         console.log("2. Deploy program: anchor deploy");
-        console.log("3. Initialize airdrop: npx ts-node scripts/initialize-airdrop.ts");
+        console.log(
+          `3. Initialize airdrop: npx ts-node scripts/initialize-airdrop.ts${this.campaignArg}`
+        );
       }
-      console.log("4. Test claiming: npx ts-node scripts/claim-airdrop.ts <pubkey> <secretkey>");
-      
+      console.log(
+        `4. Test claiming: npx ts-node scripts/claim-airdrop.ts <pubkey> <secretkey>${this.campaignArg}`
+      );
+
       console.log("\n💡 Wallet information saved in test-wallets.json");
       console.log("   Use 'npx ts-node scripts/extract-private-keys.ts' to view keys");
 
@@ -844,7 +817,18 @@ test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
 
 // Run the setup if this file is executed directly
 if (require.main === module) {
-  const setup = new SolanaDeploymentSetup();
+  // --campaign <airdropId> sets up campaigns/<airdropId>/recipients.json,
+  // which need not exist yet
+  const args = process.argv.slice(2);
+  const campaignIndex = args.indexOf("--campaign");
+  const campaignId = campaignIndex !== -1 ? args[campaignIndex + 1] : undefined;
+  if (campaignIndex !== -1 && (!campaignId || campaignId.startsWith("--"))) {
+    console.error("❌ --campaign needs an airdropId");
+    process.exit(1);
+  }
+  const setup = new SolanaDeploymentSetup(
+    campaignId ? campaignPaths(campaignId) : undefined
+  );
   setup.run().catch(console.error);
 }
 
@@ -0,0 +1,268 @@
+import * as fs from "fs";
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import { SolanaDistributor } from "../target/types/solana_distributor";
+import {
+  RecipientsFile,
+  assertValidRecipients,
+  formatAmount,
+  loadRecipients,
+} from "./load-recipients";
+import { assertOnChainAlgorithm } from "./merkle-tree";
+import { parseLamports } from "./amounts";
+import { DistributorClient, isTokenAirdrop } from "./distributor-client";
+import {
+  AmountChange,
+  RecipientsDiff,
+  diffRecipients,
+  planSolvency,
+} from "./root-update";
+
+export interface RootUpdatePlan {
+  diff: RecipientsDiff;
+  newMerkleRoot: string;
+  airdropAmount: bigint;
+  amountClaimed: bigint;
+  // Lamports still owed to recipients of the new list: their amount minus
+  // what they already withdrew
+  unclaimedObligations: bigint;
+  additionalAmount: bigint;
+  // Recipients whose new amount is below what they already withdrew
+  claimedChanges: AmountChange[];
+  transaction: string | null;
+}
+
+export function printDiff(
+  diff: RecipientsDiff,
+  data: Pick<RecipientsFile, "mint" | "decimals"> = {}
+) {
+  const unit = data.mint ? "base units" : "lamports";
+  console.log("📊 Recipients diff:");
+  console.log(`   Added: ${diff.added.length}`);
+  diff.added.forEach((r) =>
+    console.log(`     + ${r.publicKey} ${r.amount} ${unit}`)
+  );
+  console.log(`   Removed: ${diff.removed.length}`);
+  diff.removed.forEach((r) =>
+    console.log(`     - ${r.publicKey} ${r.amount} ${unit}`)
+  );
+  console.log(`   Amount changed: ${diff.changed.length}`);
+  diff.changed.forEach((c) =>
+    console.log(`     ~ ${c.publicKey} ${c.oldAmount} → ${c.newAmount} ${unit}`)
+  );
+  console.log(`   Unchanged: ${diff.unchanged}`);
+  console.log(
+    `   Total: ${formatAmount(data, diff.oldTotal)} → ${formatAmount(
+      data,
+      diff.newTotal
+    )}`
+  );
+}
+
+// Diff two recipients files and build the update_merkle_root transaction that
+// moves the airdrop to the new list while keeping the vault solvent
+export async function planRootUpdate(
+  oldFile: string,
+  newFile: string,
+  options: { outFile?: string; send?: boolean } = {}
+): Promise<RootUpdatePlan> {
+  try {
+    console.log(`🔄 Planning merkle root update: ${oldFile} → ${newFile}`);
+
+    const oldData = loadRecipients(oldFile);
+    const newData = loadRecipients(newFile);
+    assertValidRecipients(oldData, { source: oldFile });
+    // The new file must already carry the root its proofs will be built from
+    assertValidRecipients(newData, { strict: true, source: newFile });
+    assertOnChainAlgorithm(newData.metadata?.algorithm);
+    // The update goes to the state account of one airdrop
+    if (oldData.airdropId !== newData.airdropId) {
+      throw new Error(
+        `airdropId changed (${oldData.airdropId} → ${newData.airdropId}); a root update stays within one airdrop`
+      );
+    }
+
+    const diff = diffRecipients(oldData, newData);
+    printDiff(diff, newData);
+
+    const newMerkleRoot = newData.merkleRoot.toLowerCase();
+    console.log(`🌳 New merkle root: ${newMerkleRoot}`);
+
+    // Set up Anchor
+    const provider = anchor.AnchorProvider.env();
+    anchor.setProvider(provider);
+
+    const program = anchor.workspace
+      .SolanaDistributor as Program<SolanaDistributor>;
+
+    const client = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      newData.airdropId,
+      provider.opts
+    );
+    const airdropState = await client.getAirdropState();
+    if (!airdropState) {
+      throw new Error("Airdrop is not initialized");
+    }
+
+    if (airdropState.clawedBack) {
+      throw new Error(
+        "Unclaimed funds were clawed back; the airdrop is closed and its root can no longer change"
+      );
+    }
+
+    if (!airdropState.authority.equals(provider.wallet.publicKey)) {
+      console.log(
+        `⚠️  Wallet ${provider.wallet.publicKey.toString()} is not the airdrop authority (${airdropState.authority.toString()})`
+      );
+    }
+
+    const airdropAmount = parseLamports(airdropState.airdropAmount.toString());
+    const amountClaimed = parseLamports(airdropState.amountClaimed.toString());
+    // What is left to pay out is the vault's actual balance: the token
+    // account, or the state account's lamports above its rent-exempt
+    // minimum. Plain transfers and clawbacks change it without touching
+    // the amounts recorded in the state.
+    const { vault, amount: remainingFunds } = await client.getClawbackAmount();
+
+    const withdrawn = new Map(
+      (
+        await client.getClaimStatuses(
+          newData.recipients.map((r) => r.publicKey)
+        )
+      ).map((status) => [status.claimant.toString(), status.withdrawn])
+    );
+    const {
+      unclaimedObligations,
+      owedRecipients,
+      additionalAmount,
+      claimedChanges,
+    } = planSolvency(newData.recipients, diff, { remainingFunds, withdrawn });
+
+    console.log("\n💰 Vault solvency:");
+    const format = (amount: bigint) => formatAmount(newData, amount);
+    console.log(`   Airdrop amount: ${format(airdropAmount)}`);
+    console.log(`   Amount claimed: ${format(amountClaimed)}`);
+    console.log(`   Remaining funds: ${format(remainingFunds)}`);
+    console.log(
+      `   Unclaimed obligations: ${format(
+        unclaimedObligations
+      )} (${owedRecipients} recipients)`
+    );
+    console.log(`   Additional amount needed: ${format(additionalAmount)}`);
+
+    if (claimedChanges.length > 0) {
+      console.log(
+        `⚠️  ${claimedChanges.length} recipients already withdrew more than their new amount; the difference cannot be taken back:`
+      );
+      claimedChanges.forEach((c) =>
+        console.log(`     ${c.publicKey} ${c.oldAmount} → ${c.newAmount}`)
+      );
+    }
+
+    // update_merkle_root only adds SOL; token vaults are topped up directly
+    let rootUpdateAmount = additionalAmount;
+    if (isTokenAirdrop(airdropState) && additionalAmount > BigInt(0)) {
+      console.log(
+        `⚠️  Token airdrop: transfer ${format(
+          additionalAmount
+        )} to the vault ${vault.toString()} yourself; the root update adds nothing`
+      );
+      rootUpdateAmount = BigInt(0);
+    }
+
+    let transaction: string | null = null;
+    if (options.send) {
+      console.log("📤 Sending update transaction...");
+      const tx = await client.updateMerkleRoot(newMerkleRoot, rootUpdateAmount);
+      console.log("✅ Merkle root updated successfully!");
+      console.log(`📋 Transaction signature: ${tx}`);
+    } else {
+      // Unsigned transaction for the authority to review, sign and send
+      const tx = await client.buildUpdateMerkleRootTx(
+        newMerkleRoot,
+        rootUpdateAmount,
+        airdropState.authority
+      );
+      transaction = tx
+        .serialize({ requireAllSignatures: false, verifySignatures: false })
+        .toString("base64");
+
+      if (options.outFile) {
+        fs.writeFileSync(options.outFile, transaction);
+        console.log(`💾 Unsigned transaction written to ${options.outFile}`);
+      } else {
+        console.log(`📦 Unsigned transaction (base64):\n${transaction}`);
+      }
+    }
+
+    return {
+      diff,
+      newMerkleRoot,
+      airdropAmount,
+      amountClaimed,
+      unclaimedObligations,
+      additionalAmount,
+      claimedChanges,
+      transaction,
+    };
+  } catch (error) {
+    console.error("❌ Error planning root update:", error);
+    throw error;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const outFlag = args.indexOf("--out");
+  const positional = args.filter(
+    (arg, i) => !arg.startsWith("--") && args[i - 1] !== "--out"
+  );
+
+  if (positional.length < 2) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/diff-recipients.ts <old_recipients.json> <new_recipients.json> [--offline] [--out <file>] [--send]"
+    );
+    console.log("");
+    console.log("📝 Examples:");
+    console.log(
+      "  ts-node scripts/diff-recipients.ts recipients.json recipients-v2.json --offline"
+    );
+    console.log(
+      "  ts-node scripts/diff-recipients.ts recipients.json recipients-v2.json --out update-tx.b64"
+    );
+    process.exit(1);
+  }
+
+  const [oldFile, newFile] = positional;
+
+  if (args.includes("--offline")) {
+    printDiff(diffRecipients(loadRecipients(oldFile), loadRecipients(newFile)));
+    process.exit(0);
+  }
+
+  // Set environment variables if not already set
+  if (!process.env.ANCHOR_PROVIDER_URL) {
+    process.env.ANCHOR_PROVIDER_URL = "https://api.devnet.solana.com";
+  }
+  if (!process.env.ANCHOR_WALLET) {
+    process.env.ANCHOR_WALLET = "test-wallet-1.json";
+  }
+
+  planRootUpdate(oldFile, newFile, {
+    outFile: outFlag !== -1 ? args[outFlag + 1] : undefined,
+    send: args.includes("--send"),
+  })
+    .then(() => {
+      console.log("🎉 Root update plan completed!");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error);
+      process.exit(1);
+    });
+}
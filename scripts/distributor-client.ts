@@ -0,0 +1,651 @@
+// Browser-safe client for the distributor program. Everything here runs in a
+// dApp as well as in Node: no fs, no AnchorProvider.env(), no anchor.workspace
+// and no Buffer. Node-only helpers (recipients files, snapshots) stay in the
+// scripts that call this client.
+import { AnchorProvider, BN, IdlAccounts, Program } from "@coral-xyz/anchor";
+import {
+  ConfirmOptions,
+  Connection,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAccount,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { SolanaDistributor } from "../target/types/solana_distributor";
+import idl from "../target/idl/solana_distributor.json";
+import type { ProofData } from "./generate-proof";
+import {
+  AirdropIdInput,
+  airdropIdSeed,
+  findAirdropStatePda,
+  findClaimStatusPda,
+} from "./pda";
+import {
+  ClaimPhases,
+  CurrentPhase,
+  NO_PHASES,
+  currentPhase,
+  formatPhase,
+  phasesFromState,
+} from "./phases";
+import { formatTimestamp, nowSeconds } from "./time";
+import {
+  NO_VESTING,
+  VestingSchedule,
+  VestingStatus,
+  vestingFromState,
+  vestingStatus,
+} from "./vesting";
+
+export * from "./pda";
+export * from "./phases";
+export * from "./vesting";
+
+// Anything that can sign for the connected account: a wallet-adapter wallet
+// in the browser, anchor.Wallet around a Keypair in scripts
+export interface WalletAdapter {
+  publicKey: PublicKey;
+  signTransaction<T extends Transaction | VersionedTransaction>(
+    tx: T
+  ): Promise<T>;
+  signAllTransactions<T extends Transaction | VersionedTransaction>(
+    txs: T[]
+  ): Promise<T[]>;
+}
+
+export type AirdropStateAccount =
+  IdlAccounts<SolanaDistributor>["airdropState"];
+
+// Where a token airdrop keeps its tokens
+export interface TokenVault {
+  mint: PublicKey;
+  // SPL Token or Token-2022, the owner of the mint account
+  tokenProgram: PublicKey;
+  // The state PDA's associated token account
+  address: PublicKey;
+}
+
+// Settings fixed when the airdrop is initialized
+export interface InitializeOptions {
+  // Unix timestamp after which claims are rejected; 0 or unset for none
+  claimEndTime?: number;
+  // Global vesting schedule; unset to make everything claimable at once
+  vesting?: VestingSchedule;
+  // When claims open and whether an early tier goes first; unset to open
+  // claims to everyone immediately
+  phases?: ClaimPhases;
+  // Token mode: the token account to fund the vault from, by default the
+  // wallet's associated token account
+  source?: PublicKey;
+}
+
+// What a clawback would send to the authority's destination right now
+export interface ClawbackAmount {
+  // The state PDA for SOL airdrops, the token vault for token airdrops
+  vault: PublicKey;
+  balance: bigint;
+  // SOL airdrops keep the state account's rent-exempt minimum
+  rentReserved: bigint;
+  amount: bigint;
+}
+
+export interface ClaimStatusInfo {
+  claimant: PublicKey;
+  claimStatusPda: PublicKey;
+  // Claimed at least once
+  claimed: boolean;
+  // Total withdrawn so far; below the leaf amount while vesting
+  withdrawn: bigint;
+}
+
+// SOL airdrops store PublicKey.default as their mint
+export function isTokenAirdrop(state: { mint: PublicKey }): boolean {
+  return !state.mint.equals(PublicKey.default);
+}
+
+// Claims are accepted until claimEndTime; 0 means no deadline
+export function isClaimWindowOpen(
+  state: { claimEndTime: BN },
+  now: number = nowSeconds()
+): boolean {
+  const claimEndTime = state.claimEndTime.toNumber();
+  return claimEndTime === 0 || now <= claimEndTime;
+}
+
+// The airdrop's claim phases and the one it is in at `now`
+export function getClaimPhase(
+  state: Pick<AirdropStateAccount, "phases" | "claimEndTime">,
+  now: number = nowSeconds()
+): { phases: ClaimPhases; current: CurrentPhase } {
+  const phases = phasesFromState(state.phases);
+  return {
+    phases,
+    current: currentPhase(phases, state.claimEndTime.toNumber(), now),
+  };
+}
+
+function vestingArg(schedule: VestingSchedule = NO_VESTING) {
+  return {
+    startTime: new BN(schedule.startTime),
+    cliffSeconds: new BN(schedule.cliffSeconds),
+    durationSeconds: new BN(schedule.durationSeconds),
+  };
+}
+
+function phasesArg(phases: ClaimPhases = NO_PHASES) {
+  return {
+    startTime: new BN(phases.startTime),
+    earlyRoot: phases.earlyRoot
+      ? rootToBytes(phases.earlyRoot)
+      : new Array(32).fill(0),
+    publicStartTime: new BN(phases.publicStartTime),
+  };
+}
+
+// A merkle root as "0x"-prefixed hex or 32 raw bytes
+export type MerkleRootInput = string | number[] | Uint8Array;
+
+export function rootToBytes(merkleRoot: MerkleRootInput): number[] {
+  let bytes: number[];
+  if (typeof merkleRoot === "string") {
+    const hex = merkleRoot.replace(/^0x/, "");
+    bytes = /^[0-9a-fA-F]*$/.test(hex)
+      ? (hex.match(/../g) || []).map((byte) => parseInt(byte, 16))
+      : [];
+  } else {
+    bytes = Array.from(merkleRoot);
+  }
+
+  if (bytes.length !== 32) {
+    throw new Error(`Merkle root must be 32 bytes, got ${String(merkleRoot)}`);
+  }
+  return bytes;
+}
+
+export class DistributorClient {
+  readonly provider: AnchorProvider;
+  readonly program: Program<SolanaDistributor>;
+  readonly programId: PublicKey;
+  readonly airdropId: number[];
+  readonly airdropStatePda: PublicKey;
+
+  constructor(
+    readonly connection: Connection,
+    readonly wallet: WalletAdapter,
+    programId: PublicKey | string,
+    airdropId: AirdropIdInput,
+    opts: ConfirmOptions = AnchorProvider.defaultOptions()
+  ) {
+    this.programId = new PublicKey(programId);
+    this.airdropId = airdropIdSeed(airdropId);
+    this.provider = new AnchorProvider(connection, wallet, opts);
+    // The IDL carries the address it was built for; point it at programId so
+    // one build works against every deployment
+    this.program = new Program<SolanaDistributor>(
+      { ...idl, address: this.programId.toString() } as SolanaDistributor,
+      this.provider
+    );
+    this.airdropStatePda = findAirdropStatePda(this.programId, this.airdropId);
+  }
+
+  claimStatusPda(claimant: PublicKey | string): PublicKey {
+    return findClaimStatusPda(
+      this.programId,
+      this.airdropStatePda,
+      new PublicKey(claimant)
+    );
+  }
+
+  // null until the airdrop is initialized
+  async getAirdropState(): Promise<AirdropStateAccount | null> {
+    return this.program.account.airdropState.fetchNullable(
+      this.airdropStatePda
+    );
+  }
+
+  // A claim status account exists once the claimant has claimed
+  async getClaimStatus(claimant: PublicKey | string): Promise<ClaimStatusInfo> {
+    const claimStatusPda = this.claimStatusPda(claimant);
+    const account = await this.program.account.claimStatus.fetchNullable(
+      claimStatusPda
+    );
+    return {
+      claimant: new PublicKey(claimant),
+      claimStatusPda,
+      claimed: account !== null,
+      withdrawn: account ? BigInt(account.withdrawn.toString()) : BigInt(0),
+    };
+  }
+
+  // Batched getClaimStatus for many claimants, in the same order
+  async getClaimStatuses(
+    claimants: (PublicKey | string)[]
+  ): Promise<ClaimStatusInfo[]> {
+    const statuses: ClaimStatusInfo[] = [];
+    const batchSize = 100; // getMultipleAccountsInfo limit
+
+    for (let i = 0; i < claimants.length; i += batchSize) {
+      const batch = claimants.slice(i, i + batchSize).map((claimant) => {
+        const key = new PublicKey(claimant);
+        return { claimant: key, claimStatusPda: this.claimStatusPda(key) };
+      });
+      const accounts = await this.program.account.claimStatus.fetchMultiple(
+        batch.map((entry) => entry.claimStatusPda)
+      );
+      batch.forEach((entry, j) =>
+        statuses.push({
+          ...entry,
+          claimed: accounts[j] !== null,
+          withdrawn: accounts[j]
+            ? BigInt(accounts[j].withdrawn.toString())
+            : BigInt(0),
+        })
+      );
+    }
+
+    return statuses;
+  }
+
+  // Vested, claimed and remaining parts of a recipient's leaf amount
+  async getVestingStatus(
+    claimant: PublicKey | string,
+    amount: bigint | number | string,
+    now: number = nowSeconds()
+  ): Promise<VestingStatus> {
+    const state = await this.getAirdropState();
+    if (!state) {
+      throw new Error("Airdrop is not initialized");
+    }
+    const { withdrawn } = await this.getClaimStatus(claimant);
+    return vestingStatus(
+      vestingFromState(state.vesting),
+      BigInt(amount.toString()),
+      withdrawn,
+      now
+    );
+  }
+
+  // Vault of a token airdrop for mint; the token program is read from the
+  // mint account so SPL Token and Token-2022 mints both work
+  async getTokenVault(mint: PublicKey | string): Promise<TokenVault> {
+    const mintKey = new PublicKey(mint);
+    const mintAccount = await this.connection.getAccountInfo(mintKey);
+    if (!mintAccount) {
+      throw new Error(`Mint ${mintKey.toString()} does not exist`);
+    }
+
+    const tokenProgram = mintAccount.owner;
+    return {
+      mint: mintKey,
+      tokenProgram,
+      address: getAssociatedTokenAddressSync(
+        mintKey,
+        this.airdropStatePda,
+        true,
+        tokenProgram
+      ),
+    };
+  }
+
+  // Unsigned claim transaction for the connected wallet, with fee payer and
+  // recent blockhash set, ready for wallet.sendTransaction. Token airdrops pay
+  // into the claimant's associated token account, created if missing.
+  async buildClaimTx(proofData: ProofData): Promise<Transaction> {
+    const claimant = new PublicKey(proofData.recipient);
+    if (!claimant.equals(this.wallet.publicKey)) {
+      throw new Error(
+        `Proof is for ${claimant.toString()}, but the wallet is ${this.wallet.publicKey.toString()}`
+      );
+    }
+
+    const state = await this.getAirdropState();
+    if (!state) {
+      throw new Error("Airdrop is not initialized");
+    }
+    if (state.clawedBack) {
+      throw new Error(
+        "Unclaimed funds were clawed back; the airdrop is closed"
+      );
+    }
+    if (state.paused) {
+      throw new Error("Claims are paused by the authority");
+    }
+    if (!isClaimWindowOpen(state)) {
+      throw new Error(
+        `Claims closed at ${formatTimestamp(state.claimEndTime.toNumber())}`
+      );
+    }
+    // Early access proofs are checked on-chain against the tier's root
+    const { phases, current } = getClaimPhase(state);
+    if (current.name === "not-started") {
+      throw new Error(
+        `Too early to claim: ${formatPhase(phases, current, nowSeconds())}`
+      );
+    }
+
+    // Each claim pays what has vested since the last one
+    const { withdrawn } = await this.getClaimStatus(claimant);
+    const status = vestingStatus(
+      vestingFromState(state.vesting),
+      BigInt(proofData.amount),
+      withdrawn,
+      nowSeconds()
+    );
+    if (status.remaining === BigInt(0)) {
+      throw new Error(`${claimant.toString()} has already claimed everything`);
+    }
+    if (status.claimable === BigInt(0)) {
+      throw new Error(
+        `Nothing to claim yet: ${status.vested} of ${status.total} vested, ${status.claimed} claimed`
+      );
+    }
+
+    const args = [
+      new BN(proofData.amount),
+      proofData.proof.map((p) => Array.from(p)),
+      new BN(proofData.leafIndex),
+    ] as const;
+
+    let tx: Transaction;
+    if (isTokenAirdrop(state)) {
+      const vault = await this.getTokenVault(state.mint);
+      tx = await this.program.methods
+        .claimTokenAirdrop(...args)
+        .accountsPartial({
+          airdropState: this.airdropStatePda,
+          mint: vault.mint,
+          vault: vault.address,
+          claimantTokenAccount: getAssociatedTokenAddressSync(
+            vault.mint,
+            claimant,
+            false,
+            vault.tokenProgram
+          ),
+          signer: claimant,
+          tokenProgram: vault.tokenProgram,
+        })
+        .transaction();
+    } else {
+      tx = await this.program.methods
+        .claimAirdrop(...args)
+        .accounts({ airdropState: this.airdropStatePda, signer: claimant })
+        .transaction();
+    }
+    return this.withBlockhash(tx, claimant);
+  }
+
+  async buildInitializeTx(
+    merkleRoot: MerkleRootInput,
+    amount: bigint | number | string,
+    options: InitializeOptions = {}
+  ): Promise<Transaction> {
+    const tx = await this.program.methods
+      .initializeAirdrop(
+        this.airdropId,
+        rootToBytes(merkleRoot),
+        new BN(amount.toString()),
+        new BN(options.claimEndTime || 0),
+        vestingArg(options.vesting),
+        phasesArg(options.phases)
+      )
+      .accountsPartial({
+        airdropState: this.airdropStatePda,
+        authority: this.wallet.publicKey,
+      })
+      .transaction();
+    return this.withBlockhash(tx, this.wallet.publicKey);
+  }
+
+  // Token mode: amount is in the mint's base units and is taken from the
+  // wallet's associated token account unless another source is given
+  async buildInitializeTokenTx(
+    mint: PublicKey | string,
+    merkleRoot: MerkleRootInput,
+    amount: bigint | number | string,
+    options: InitializeOptions = {}
+  ): Promise<Transaction> {
+    const vault = await this.getTokenVault(mint);
+    const tx = await this.program.methods
+      .initializeTokenAirdrop(
+        this.airdropId,
+        rootToBytes(merkleRoot),
+        new BN(amount.toString()),
+        new BN(options.claimEndTime || 0),
+        vestingArg(options.vesting),
+        phasesArg(options.phases)
+      )
+      .accountsPartial({
+        airdropState: this.airdropStatePda,
+        mint: vault.mint,
+        vault: vault.address,
+        authorityTokenAccount:
+          options.source ||
+          getAssociatedTokenAddressSync(
+            vault.mint,
+            this.wallet.publicKey,
+            false,
+            vault.tokenProgram
+          ),
+        authority: this.wallet.publicKey,
+        tokenProgram: vault.tokenProgram,
+      })
+      .transaction();
+    return this.withBlockhash(tx, this.wallet.publicKey);
+  }
+
+  // Pause or resume every claim; authority defaults to the wallet
+  async buildSetPausedTx(
+    paused: boolean,
+    authority: PublicKey = this.wallet.publicKey
+  ): Promise<Transaction> {
+    const tx = await this.program.methods
+      .setPaused(paused)
+      .accounts({ airdropState: this.airdropStatePda, authority })
+      .transaction();
+    return this.withBlockhash(tx, authority);
+  }
+
+  // First step of an authority transfer; PublicKey.default cancels a pending
+  // one. authority defaults to the wallet.
+  async buildProposeAuthorityTx(
+    newAuthority: PublicKey | string,
+    authority: PublicKey = this.wallet.publicKey
+  ): Promise<Transaction> {
+    const tx = await this.program.methods
+      .proposeAuthority(new PublicKey(newAuthority))
+      .accounts({ airdropState: this.airdropStatePda, authority })
+      .transaction();
+    return this.withBlockhash(tx, authority);
+  }
+
+  // Second step, signed by the pending authority (the wallet by default)
+  async buildAcceptAuthorityTx(
+    newAuthority: PublicKey = this.wallet.publicKey
+  ): Promise<Transaction> {
+    const tx = await this.program.methods
+      .acceptAuthority()
+      .accounts({ airdropState: this.airdropStatePda, newAuthority })
+      .transaction();
+    return this.withBlockhash(tx, newAuthority);
+  }
+
+  // authority defaults to the wallet; pass the on-chain authority to build a
+  // transaction for someone else to sign
+  async buildUpdateMerkleRootTx(
+    merkleRoot: MerkleRootInput,
+    additionalAmount: bigint | number | string = 0,
+    authority: PublicKey = this.wallet.publicKey
+  ): Promise<Transaction> {
+    const tx = await this.program.methods
+      .updateMerkleRoot(
+        rootToBytes(merkleRoot),
+        new BN(additionalAmount.toString())
+      )
+      .accounts({ airdropState: this.airdropStatePda, authority })
+      .transaction();
+    return this.withBlockhash(tx, authority);
+  }
+
+  async getClawbackAmount(): Promise<ClawbackAmount> {
+    const state = await this.getAirdropState();
+    if (!state) {
+      throw new Error("Airdrop is not initialized");
+    }
+
+    if (isTokenAirdrop(state)) {
+      const vault = await this.getTokenVault(state.mint);
+      const { amount } = await getAccount(
+        this.connection,
+        vault.address,
+        undefined,
+        vault.tokenProgram
+      );
+      return {
+        vault: vault.address,
+        balance: amount,
+        rentReserved: BigInt(0),
+        amount,
+      };
+    }
+
+    const account = await this.connection.getAccountInfo(this.airdropStatePda);
+    const balance = BigInt(account.lamports);
+    const rentReserved = BigInt(
+      await this.connection.getMinimumBalanceForRentExemption(
+        account.data.length
+      )
+    );
+    return {
+      vault: this.airdropStatePda,
+      balance,
+      rentReserved,
+      amount: balance > rentReserved ? balance - rentReserved : BigInt(0),
+    };
+  }
+
+  // Sends the unclaimed balance to destination, a wallet; token airdrops pay
+  // into its associated token account, created if missing. authority
+  // defaults to the wallet, as in buildUpdateMerkleRootTx.
+  async buildClawbackTx(
+    destination: PublicKey | string,
+    authority: PublicKey = this.wallet.publicKey
+  ): Promise<Transaction> {
+    const state = await this.getAirdropState();
+    if (!state) {
+      throw new Error("Airdrop is not initialized");
+    }
+    const destinationKey = new PublicKey(destination);
+
+    if (!isTokenAirdrop(state)) {
+      const tx = await this.program.methods
+        .clawback()
+        .accounts({
+          airdropState: this.airdropStatePda,
+          destination: destinationKey,
+          authority,
+        })
+        .transaction();
+      return this.withBlockhash(tx, authority);
+    }
+
+    const vault = await this.getTokenVault(state.mint);
+    const destinationTokenAccount = getAssociatedTokenAddressSync(
+      vault.mint,
+      destinationKey,
+      true,
+      vault.tokenProgram
+    );
+    const tx = await this.program.methods
+      .clawbackToken()
+      .accountsPartial({
+        airdropState: this.airdropStatePda,
+        mint: vault.mint,
+        vault: vault.address,
+        destination: destinationTokenAccount,
+        authority,
+        tokenProgram: vault.tokenProgram,
+      })
+      .preInstructions([
+        createAssociatedTokenAccountIdempotentInstruction(
+          authority,
+          destinationTokenAccount,
+          destinationKey,
+          vault.mint,
+          vault.tokenProgram
+        ),
+      ])
+      .transaction();
+    return this.withBlockhash(tx, authority);
+  }
+
+  // The methods below sign with the wallet and send; they return the signature
+  async claim(proofData: ProofData): Promise<string> {
+    return this.provider.sendAndConfirm(await this.buildClaimTx(proofData));
+  }
+
+  async initialize(
+    merkleRoot: MerkleRootInput,
+    amount: bigint | number | string,
+    options: InitializeOptions = {}
+  ): Promise<string> {
+    return this.provider.sendAndConfirm(
+      await this.buildInitializeTx(merkleRoot, amount, options)
+    );
+  }
+
+  async initializeToken(
+    mint: PublicKey | string,
+    merkleRoot: MerkleRootInput,
+    amount: bigint | number | string,
+    options: InitializeOptions = {}
+  ): Promise<string> {
+    return this.provider.sendAndConfirm(
+      await this.buildInitializeTokenTx(mint, merkleRoot, amount, options)
+    );
+  }
+
+  async updateMerkleRoot(
+    merkleRoot: MerkleRootInput,
+    additionalAmount: bigint | number | string = 0
+  ): Promise<string> {
+    return this.provider.sendAndConfirm(
+      await this.buildUpdateMerkleRootTx(merkleRoot, additionalAmount)
+    );
+  }
+
+  async setPaused(paused: boolean): Promise<string> {
+    return this.provider.sendAndConfirm(await this.buildSetPausedTx(paused));
+  }
+
+  async proposeAuthority(newAuthority: PublicKey | string): Promise<string> {
+    return this.provider.sendAndConfirm(
+      await this.buildProposeAuthorityTx(newAuthority)
+    );
+  }
+
+  async acceptAuthority(): Promise<string> {
+    return this.provider.sendAndConfirm(await this.buildAcceptAuthorityTx());
+  }
+
+  async clawback(destination: PublicKey | string): Promise<string> {
+    return this.provider.sendAndConfirm(
+      await this.buildClawbackTx(destination)
+    );
+  }
+
+  private async withBlockhash(
+    tx: Transaction,
+    feePayer: PublicKey
+  ): Promise<Transaction> {
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash(this.provider.opts.commitment);
+    tx.feePayer = feePayer;
+    tx.recentBlockhash = blockhash;
+    tx.lastValidBlockHeight = lastValidBlockHeight;
+    return tx;
+  }
+}
@@ -0,0 +1,220 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Recipient,
+  earlyAccessRecipients,
+  loadRecipients,
+} from "./load-recipients";
+import {
+  buildEarlyAccessTree,
+  buildMerkleTree,
+  getProofData,
+} from "./generate-proof";
+import { SimpleMerkleTree } from "./merkle-tree";
+import { campaignFlag } from "./campaigns";
+
+// Manifest describing a proof bundle, written to <outputDir>/manifest.json
+export interface ProofBundleManifest {
+  airdropId: string;
+  merkleRoot: string;
+  algorithm: string;
+  programId: string;
+  network: string;
+  recipientCount: number;
+  shardCount: number;
+  prefixLength: number;
+  // Relative path of a claimant's proof, e.g. "Hc/HcCcKy....json"
+  pathTemplate: string;
+  // Proofs against the early tier's tree, which the program checks claims
+  // against before the public phase; only set for files with an early tier
+  earlyAccess?: {
+    merkleRoot: string;
+    recipientCount: number;
+    shardCount: number;
+    // e.g. "early/Hc/HcCcKy....json"
+    pathTemplate: string;
+  };
+  createdAt: string;
+}
+
+// Early access proofs go under this directory of the bundle. "l" is not a
+// base58 character, so no shard prefix can collide with it.
+export const EARLY_ACCESS_DIR = "early";
+
+// Shard directory for a public key (its first characters)
+export function getShardPrefix(
+  publicKey: string,
+  prefixLength: number = 2
+): string {
+  return publicKey.slice(0, prefixLength);
+}
+
+// Relative path of a recipient's proof file inside the bundle
+export function getProofPath(
+  publicKey: string,
+  prefixLength: number = 2
+): string {
+  return `${getShardPrefix(publicKey, prefixLength)}/${publicKey}.json`;
+}
+
+// Write one proof file per recipient under outputDir; returns the shard count
+function writeProofs(
+  merkleTree: SimpleMerkleTree,
+  recipients: Recipient[],
+  outputDir: string,
+  prefixLength: number
+): number {
+  const shards = new Set<string>();
+  for (const recipient of recipients) {
+    const proofData = getProofData(merkleTree, recipient);
+    const shard = getShardPrefix(recipient.publicKey, prefixLength);
+
+    if (!shards.has(shard)) {
+      fs.mkdirSync(path.join(outputDir, shard), { recursive: true });
+      shards.add(shard);
+    }
+
+    fs.writeFileSync(
+      path.join(outputDir, getProofPath(recipient.publicKey, prefixLength)),
+      JSON.stringify(proofData)
+    );
+  }
+  return shards.size;
+}
+
+// Write one proof file per recipient, sharded by public key prefix, plus a
+// manifest so a frontend can fetch a single small file per claimant. With
+// an early access tier its proofs are written under early/ as well.
+export function exportProofBundle(
+  recipientsFile: string = "recipients.json",
+  outputDir: string = "proofs",
+  prefixLength: number = 2
+): ProofBundleManifest {
+  try {
+    if (!Number.isSafeInteger(prefixLength) || prefixLength < 1) {
+      throw new Error(
+        `Prefix length must be a positive integer, got ${prefixLength}`
+      );
+    }
+
+    console.log(`📦 Exporting proof bundle to ${outputDir}/...`);
+
+    const recipientsData = loadRecipients(recipientsFile);
+
+    // Build the tree once and make sure it still matches the published root;
+    // hex case does not matter, getRootHex is always lowercase
+    const merkleTree = buildMerkleTree(recipientsData);
+    if (merkleTree.getRootHex() !== recipientsData.merkleRoot.toLowerCase()) {
+      throw new Error(
+        `Computed root ${merkleTree.getRootHex()} does not match merkleRoot ${
+          recipientsData.merkleRoot
+        } in ${recipientsFile}; regenerate the merkle tree first`
+      );
+    }
+
+    const earlyTree = buildEarlyAccessTree(recipientsData);
+    if (
+      earlyTree?.getRootHex() !== recipientsData.earlyAccessRoot?.toLowerCase()
+    ) {
+      throw new Error(
+        `Computed early access root ${
+          earlyTree?.getRootHex() || "(none)"
+        } does not match earlyAccessRoot ${
+          recipientsData.earlyAccessRoot || "(none)"
+        } in ${recipientsFile}; regenerate the merkle tree first`
+      );
+    }
+
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    const shardCount = writeProofs(
+      merkleTree,
+      recipientsData.recipients,
+      outputDir,
+      prefixLength
+    );
+
+    const manifest: ProofBundleManifest = {
+      airdropId: recipientsData.airdropId,
+      merkleRoot: merkleTree.getRootHex(),
+      algorithm: merkleTree.getAlgorithm(),
+      programId: recipientsData.programId,
+      network: recipientsData.network,
+      recipientCount: recipientsData.recipients.length,
+      shardCount,
+      prefixLength,
+      pathTemplate: `{prefix}/{publicKey}.json`,
+      createdAt: new Date().toISOString(),
+    };
+
+    if (earlyTree) {
+      const tier = earlyAccessRecipients(recipientsData.recipients);
+      manifest.earlyAccess = {
+        merkleRoot: earlyTree.getRootHex(),
+        recipientCount: tier.length,
+        shardCount: writeProofs(
+          earlyTree,
+          tier,
+          path.join(outputDir, EARLY_ACCESS_DIR),
+          prefixLength
+        ),
+        pathTemplate: `${EARLY_ACCESS_DIR}/{prefix}/{publicKey}.json`,
+      };
+    }
+
+    fs.writeFileSync(
+      path.join(outputDir, "manifest.json"),
+      JSON.stringify(manifest, null, 2)
+    );
+
+    console.log(`✅ Exported ${manifest.recipientCount} proofs`);
+    console.log(`   Shards: ${manifest.shardCount}`);
+    console.log(`   Root: ${manifest.merkleRoot}`);
+    if (manifest.earlyAccess) {
+      console.log(
+        `   Early access: ${manifest.earlyAccess.recipientCount} proofs, root ${manifest.earlyAccess.merkleRoot}`
+      );
+    }
+
+    return manifest;
+  } catch (error) {
+    console.error("❌ Error exporting proof bundle:", error);
+    throw error;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+
+  if (args.includes("--help")) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/export-proofs.ts [--recipients <file> | --campaign <airdropId>] [--out <dir>] [--prefix <length>]"
+    );
+    console.log("");
+    console.log("📝 Example:");
+    console.log("  ts-node scripts/export-proofs.ts --out public/proofs");
+    process.exit(0);
+  }
+
+  try {
+    // A campaign exports into its own proofs/ directory
+    const campaign = campaignFlag(args);
+    exportProofBundle(
+      flag("--recipients") || campaign?.recipients,
+      flag("--out") || campaign?.proofs,
+      // Not a number (or a missing value) gives NaN, which is rejected
+      args.includes("--prefix") ? Number(flag("--prefix")) : undefined
+    );
+    console.log("🎉 Proof bundle export completed!");
+    process.exit(0);
+  } catch (error) {
+    console.error("💥 Failed:", error);
+    process.exit(1);
+  }
+}
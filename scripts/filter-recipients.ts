@@ -0,0 +1,318 @@
+import * as fs from "fs";
+import * as path from "path";
+import { PublicKey } from "@solana/web3.js";
+import { Recipient, RecipientsFile, loadRecipients } from "./load-recipients";
+import { parseDelimited } from "./import-recipients";
+import { allocate } from "./allocate";
+import { formatSol, sumLamports } from "./amounts";
+
+// recalculate: totalAmount shrinks by the removed amount
+// redistribute: the removed amount goes pro-rata to the remaining recipients
+export type FilterPolicy = "recalculate" | "redistribute";
+
+export interface FilterEntry {
+  publicKey: string;
+  reason?: string;
+}
+
+export interface FilterList {
+  // File the list was read from, used in audit reasons
+  source: string;
+  entries: FilterEntry[];
+}
+
+export interface FilterOptions {
+  // When given, only recipients on one of these lists are kept
+  allow?: FilterList[];
+  deny?: FilterList[];
+  policy?: FilterPolicy;
+}
+
+export interface FilteredRecipient extends Recipient {
+  list: "allow" | "deny";
+  reason: string;
+}
+
+export interface FilterAudit {
+  createdAt: string;
+  policy: FilterPolicy;
+  originalTotal: string;
+  removedAmount: string;
+  newTotal: string;
+  removed: FilteredRecipient[];
+}
+
+// Read an allowlist or denylist. Plain files hold one address per line with
+// an optional "# reason" comment; .csv/.tsv files hold address,reason rows
+// with an optional header.
+export function loadFilterList(listFile: string): FilterList {
+  const content = fs.readFileSync(path.resolve(listFile), "utf8");
+  const extension = path.extname(listFile).toLowerCase();
+  let rows: { line: number; address: string; reason?: string }[];
+
+  if (extension === ".csv" || extension === ".tsv") {
+    const parsed = parseDelimited(content, extension === ".tsv" ? "\t" : ",");
+    rows = parsed.map(({ line, cells }) => ({
+      line,
+      address: cells[0].trim(),
+      reason: cells[1]?.trim() || undefined,
+    }));
+    if (
+      rows.length &&
+      /^(address|public_?key|wallet)$/i.test(rows[0].address)
+    ) {
+      rows = rows.slice(1);
+    }
+  } else {
+    rows = content.split(/\r?\n/).map((text, i) => {
+      const [address, ...comment] = text.split("#");
+      return {
+        line: i + 1,
+        address: address.trim(),
+        reason: comment.join("#").trim() || undefined,
+      };
+    });
+  }
+
+  const entries = rows
+    .filter((row) => row.address)
+    .map((row) => {
+      let publicKey: string;
+      try {
+        publicKey = new PublicKey(row.address).toString();
+      } catch {
+        throw new Error(
+          `${listFile}:${row.line}: invalid public key "${row.address}"`
+        );
+      }
+      return { publicKey, reason: row.reason };
+    });
+
+  return { source: listFile, entries };
+}
+
+// Drop denied (and, with an allowlist, unlisted) recipients. Remaining
+// recipients keep their order and are reindexed; merkleRoot is left stale.
+export function filterRecipients(
+  data: RecipientsFile,
+  options: FilterOptions
+): { data: RecipientsFile; audit: FilterAudit } {
+  const policy = options.policy || "recalculate";
+
+  const denied = new Map<string, string>();
+  for (const list of options.deny || []) {
+    for (const entry of list.entries) {
+      if (!denied.has(entry.publicKey)) {
+        denied.set(
+          entry.publicKey,
+          entry.reason || `Listed in denylist ${list.source}`
+        );
+      }
+    }
+  }
+  const allowed = options.allow
+    ? new Set(
+        options.allow.flatMap((list) => list.entries.map((e) => e.publicKey))
+      )
+    : undefined;
+
+  const kept: Recipient[] = [];
+  const removed: FilteredRecipient[] = [];
+  for (const recipient of data.recipients) {
+    if (denied.has(recipient.publicKey)) {
+      removed.push({
+        ...recipient,
+        list: "deny",
+        reason: denied.get(recipient.publicKey),
+      });
+    } else if (allowed && !allowed.has(recipient.publicKey)) {
+      removed.push({
+        ...recipient,
+        list: "allow",
+        reason: "Not on any allowlist",
+      });
+    } else {
+      kept.push(recipient);
+    }
+  }
+
+  if (kept.length === 0) {
+    throw new Error("Filters removed every recipient");
+  }
+
+  const originalTotal = sumLamports(data.recipients.map((r) => r.amount));
+  const removedAmount = sumLamports(removed.map((r) => r.amount));
+
+  // Pro-rata by current amount, with allocate's deterministic dust handling
+  let amounts = new Map(kept.map((r) => [r.publicKey, String(r.amount)]));
+  if (policy === "redistribute" && removed.length > 0) {
+    const { data: allocated } = allocate(
+      kept.map((r) => ({ publicKey: r.publicKey, weight: String(r.amount) })),
+      { strategy: "pro-rata", budget: originalTotal }
+    );
+    amounts = new Map(allocated.recipients.map((r) => [r.publicKey, r.amount]));
+  }
+
+  const recipients = kept.map((recipient, index) => ({
+    ...recipient,
+    amount: amounts.get(recipient.publicKey),
+    index,
+  }));
+  const newTotal = sumLamports(recipients.map((r) => r.amount)).toString();
+
+  return {
+    data: { ...data, totalAmount: newTotal, recipients },
+    audit: {
+      createdAt: new Date().toISOString(),
+      policy,
+      originalTotal: originalTotal.toString(),
+      removedAmount: removedAmount.toString(),
+      newTotal,
+      removed,
+    },
+  };
+}
+
+export function printFilterAudit(audit: FilterAudit) {
+  console.log("📊 Filter report:");
+  console.log(`   Removed recipients: ${audit.removed.length}`);
+  audit.removed.forEach((r) =>
+    console.log(
+      `     ${r.publicKey} (${formatSol(r.amount)} SOL, ${r.list}): ${r.reason}`
+    )
+  );
+  console.log(`   Removed amount: ${formatSol(audit.removedAmount)} SOL`);
+  console.log(
+    `   Total amount: ${formatSol(audit.originalTotal)} → ${formatSol(
+      audit.newTotal
+    )} SOL (${audit.policy})`
+  );
+}
+
+export interface FilterOutputOptions {
+  // Where the filtered recipients go; defaults to <name>.filtered.json
+  // next to the input
+  outputFile?: string;
+  // Overwrite the input instead; the removed entries survive only in the audit
+  inPlace?: boolean;
+  // Defaults to <name>.filter-audit.json next to the input
+  auditFile?: string;
+}
+
+// Where filtering writes: the source list is only replaced when asked to,
+// and each input (so each campaign directory) keeps its own audit
+export function filterOutputFiles(
+  recipientsFile: string,
+  options: FilterOutputOptions = {}
+): { outputFile: string; auditFile: string } {
+  if (options.inPlace && options.outputFile) {
+    throw new Error("Pass either an output file or --in-place, not both");
+  }
+  const { dir, name } = path.parse(recipientsFile);
+  return {
+    outputFile: options.inPlace
+      ? recipientsFile
+      : options.outputFile || path.join(dir, `${name}.filtered.json`),
+    auditFile: options.auditFile || path.join(dir, `${name}.filter-audit.json`),
+  };
+}
+
+// Filter a recipients file on disk into a separate output (or in place with
+// inPlace) and write the removed entries to an audit file
+export function filterRecipientsFile(
+  recipientsFile: string = "recipients.json",
+  options: FilterOptions & FilterOutputOptions = {}
+): FilterAudit {
+  try {
+    console.log(`🚫 Filtering ${recipientsFile}...`);
+    const { outputFile, auditFile } = filterOutputFiles(
+      recipientsFile,
+      options
+    );
+
+    const { data, audit } = filterRecipients(
+      loadRecipients(recipientsFile),
+      options
+    );
+    printFilterAudit(audit);
+
+    fs.writeFileSync(outputFile, JSON.stringify(data, null, 2));
+    console.log(`💾 Filtered recipients written to ${outputFile}`);
+
+    fs.writeFileSync(auditFile, JSON.stringify(audit, null, 2));
+    console.log(`📝 Audit written to ${auditFile}`);
+
+    if (audit.removed.length > 0) {
+      console.log(
+        "⚠️  merkleRoot is now stale; run generate-merkle-tree.ts before use"
+      );
+    }
+
+    return audit;
+  } catch (error) {
+    console.error("❌ Error filtering recipients:", error);
+    throw error;
+  }
+}
+
+// Parse a --filter-policy flag value
+export function parseFilterPolicy(value: string = "recalculate"): FilterPolicy {
+  if (value !== "recalculate" && value !== "redistribute") {
+    throw new Error(
+      `Unknown filter policy "${value}" (expected recalculate or redistribute)`
+    );
+  }
+  return value;
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const valueFlags = ["--allow", "--deny", "--policy", "--out", "--audit"];
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const lists = (name: string) =>
+    args.flatMap((arg, i) => (args[i - 1] === name ? [arg] : []));
+  const positional = args.filter(
+    (arg, i) => !arg.startsWith("--") && !valueFlags.includes(args[i - 1])
+  );
+
+  if (
+    args.includes("--help") ||
+    (lists("--allow").length === 0 && lists("--deny").length === 0)
+  ) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/filter-recipients.ts [recipients.json] [--deny <list>]... [--allow <list>]... [--policy <recalculate|redistribute>] [--out <file> | --in-place] [--audit <file>]"
+    );
+    console.log("");
+    console.log("📝 Lists:");
+    console.log("  Plain text: one address per line, optional '# reason'");
+    console.log("  CSV/TSV:    address,reason (header optional)");
+    console.log("");
+    console.log("📝 Example:");
+    console.log(
+      "  ts-node scripts/filter-recipients.ts --deny team.txt --deny sanctioned.csv --policy redistribute"
+    );
+    process.exit(args.includes("--help") ? 0 : 1);
+  }
+
+  try {
+    const allow = lists("--allow").map(loadFilterList);
+    filterRecipientsFile(positional[0], {
+      allow: allow.length > 0 ? allow : undefined,
+      deny: lists("--deny").map(loadFilterList),
+      policy: parseFilterPolicy(flag("--policy")),
+      outputFile: flag("--out"),
+      inPlace: args.includes("--in-place"),
+      auditFile: flag("--audit"),
+    });
+    console.log("🎉 Filtering completed!");
+    process.exit(0);
+  } catch (error) {
+    console.error("💥 Failed:", error.message);
+    process.exit(1);
+  }
+}
@@ -1,117 +1,141 @@
 import * as fs from "fs";
-import { PublicKey } from "@solana/web3.js";
-import { keccak_256 } from "js-sha3";
-import { loadRecipients } from "./load-recipients";
-
-interface Recipient {
-  recipient: PublicKey;
-  amount: number;
-}
-
-class SimpleMerkleTree {
-  public root: Uint8Array;
-  private leaves: Uint8Array[];
-  private tree: Uint8Array[][];
-
-  constructor(recipients: Recipient[]) {
-    // Create leaves
-    this.leaves = recipients.map((r) => this.createLeaf(r.recipient, r.amount));
-
-    // Build tree
-    this.tree = [this.leaves];
-    let currentLevel = this.leaves;
-
-    while (currentLevel.length > 1) {
-      const nextLevel: Uint8Array[] = [];
-
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = i + 1 < currentLevel.length ? currentLevel[i + 1] : left;
-        const parent = this.hashPair(left, right);
-        nextLevel.push(parent);
-      }
-
-      this.tree.push(nextLevel);
-      currentLevel = nextLevel;
-    }
-
-    this.root = currentLevel[0];
-  }
-
-  private createLeaf(recipient: PublicKey, amount: number): Uint8Array {
-    const data = Buffer.concat([
-      recipient.toBuffer(),
-      Buffer.from(new Uint8Array(new BigUint64Array([BigInt(amount)]).buffer)),
-      Buffer.from([0]), // isClaimed = false
-    ]);
-    return new Uint8Array(keccak_256.arrayBuffer(data));
-  }
-
-  private hashPair(left: Uint8Array, right: Uint8Array): Uint8Array {
-    const data = Buffer.concat([Buffer.from(left), Buffer.from(right)]);
-    return new Uint8Array(keccak_256.arrayBuffer(data));
-  }
-
-  public getProof(leafIndex: number): Uint8Array[] {
-    const proof: Uint8Array[] = [];
-    let index = leafIndex;
-
-    for (let level = 0; level < this.tree.length - 1; level++) {
-      const currentLevel = this.tree[level];
-      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
-
-      if (siblingIndex < currentLevel.length) {
-        proof.push(currentLevel[siblingIndex]);
-      }
-
-      index = Math.floor(index / 2);
-    }
-
-    return proof;
-  }
-
-  public getRootHex(): string {
-    return "0x" + Buffer.from(this.root).toString("hex");
-  }
-
-  public getLeafCount(): number {
-    return this.leaves.length;
-  }
+import {
+  AddressPolicy,
+  enforceAddressSafety,
+  parseAddressPolicy,
+} from "./address-safety";
+import {
+  convertRecipientsForMerkleTree,
+  earlyAccessRecipients,
+  loadRecipients,
+} from "./load-recipients";
+import {
+  DEFAULT_ALGORITHM,
+  LEAF_FORMAT,
+  Recipient,
+  SimpleMerkleTree,
+} from "./merkle-tree";
+import { writeTreeSnapshot } from "./tree-snapshot";
+import { campaignFlag } from "./campaigns";
+import {
+  FilterOptions,
+  FilterOutputOptions,
+  filterOutputFiles,
+  filterRecipients,
+  loadFilterList,
+  parseFilterPolicy,
+  printFilterAudit,
+} from "./filter-recipients";
+
+export interface GenerateMerkleTreeOptions {
+  // Hashing mode; defaults to the file's metadata.algorithm
+  algorithm?: string;
+  // Also write a binary tree snapshot for fast proof lookup
+  snapshotFile?: string;
+  // What to do with recipients that can never sign a claim; defaults to block
+  addressPolicy?: AddressPolicy;
+  // Flagged addresses that were reviewed and may stay in the tree
+  allowAddresses?: string[];
+  // Allowlists/denylists applied before the tree is built. The filtered
+  // list is written to a separate file unless inPlace is set, and removed
+  // entries to an audit file (see filterOutputFiles)
+  filter?: FilterOptions & FilterOutputOptions;
 }
 
 // Generate merkle tree and update recipients.json
 export async function generateMerkleTree(
-  recipientsFile: string = "recipients.json"
+  recipientsFile: string = "recipients.json",
+  options: GenerateMerkleTreeOptions = {}
 ) {
   try {
     console.log("🌳 Generating Merkle tree...");
 
     // Load recipients
-    const recipientsData = loadRecipients(recipientsFile);
+    let recipientsData = loadRecipients(recipientsFile);
+    let outputFile = recipientsFile;
+
+    if (options.filter) {
+      const { data, audit } = filterRecipients(recipientsData, options.filter);
+      printFilterAudit(audit);
+      const files = filterOutputFiles(recipientsFile, options.filter);
+      fs.writeFileSync(files.auditFile, JSON.stringify(audit, null, 2));
+      console.log(`📝 Filter audit written to ${files.auditFile}`);
+      recipientsData = data;
+      outputFile = files.outputFile;
+    }
+
+    // Never commit funds to a leaf nobody can sign for
+    enforceAddressSafety(recipientsData, {
+      policy: options.addressPolicy,
+      allow: options.allowAddresses,
+    });
 
     // Convert to format expected by merkle tree
-    const recipients: Recipient[] = recipientsData.recipients.map((r) => ({
-      recipient: new PublicKey(r.publicKey),
-      amount: parseInt(r.amount),
-    }));
+    const recipients: Recipient[] = convertRecipientsForMerkleTree(
+      recipientsData.recipients
+    );
+
+    // Keep the file's algorithm unless a different one is requested
+    const treeAlgorithm =
+      options.algorithm ||
+      recipientsData.metadata?.algorithm ||
+      DEFAULT_ALGORITHM;
 
     // Generate merkle tree
-    const merkleTree = new SimpleMerkleTree(recipients);
+    const merkleTree = new SimpleMerkleTree(recipients, treeAlgorithm);
     const merkleRootHex = merkleTree.getRootHex();
 
     console.log(`✅ Merkle tree generated!`);
     console.log(`   Leaves: ${merkleTree.getLeafCount()}`);
+    console.log(`   Algorithm: ${merkleTree.getAlgorithm()}`);
     console.log(`   Root: ${merkleRootHex}`);
 
+    // The early tier gets its own tree over the same leaves
+    const tier = earlyAccessRecipients(recipientsData.recipients);
+    const earlyAccessRoot =
+      tier.length > 0
+        ? new SimpleMerkleTree(
+            convertRecipientsForMerkleTree(tier),
+            treeAlgorithm
+          ).getRootHex()
+        : undefined;
+    if (earlyAccessRoot) {
+      console.log(
+        `   Early access tier: ${tier.length} recipients, root ${earlyAccessRoot}`
+      );
+    }
+
+    // A signature over the previous roots no longer applies
+    if (
+      recipientsData.metadata.signature &&
+      (recipientsData.merkleRoot.toLowerCase() !== merkleRootHex ||
+        recipientsData.earlyAccessRoot?.toLowerCase() !== earlyAccessRoot)
+    ) {
+      delete recipientsData.metadata.signature;
+      console.log(
+        "⚠️  Removed the authority signature for the old root; re-sign with manifest-signature.ts"
+      );
+    }
+
+    if (earlyAccessRoot) {
+      recipientsData.earlyAccessRoot = earlyAccessRoot;
+    } else {
+      delete recipientsData.earlyAccessRoot;
+    }
+
     // Update recipients.json with the computed root
     recipientsData.merkleRoot = merkleRootHex;
-    recipientsData.metadata.algorithm = "keccak256";
-    recipientsData.metadata.leafFormat =
-      "recipient_pubkey(32) + amount(8) + is_claimed(1)";
+    recipientsData.metadata.algorithm = merkleTree.getAlgorithm();
+    recipientsData.metadata.leafFormat = LEAF_FORMAT;
 
     // Write back to file
-    fs.writeFileSync(recipientsFile, JSON.stringify(recipientsData, null, 2));
-    console.log(`✅ Updated ${recipientsFile} with merkle root`);
+    fs.writeFileSync(outputFile, JSON.stringify(recipientsData, null, 2));
+    console.log(`✅ Updated ${outputFile} with merkle root`);
+
+    if (options.snapshotFile) {
+      writeTreeSnapshot(options.snapshotFile, merkleTree, recipientsData);
+      console.log(`💾 Wrote tree snapshot to ${options.snapshotFile}`);
+    }
 
     return {
       merkleTree,
@@ -126,7 +150,47 @@ export async function generateMerkleTree(
 
 // If running this script directly
 if (require.main === module) {
-  generateMerkleTree()
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const lists = (name: string) =>
+    args.flatMap((arg, i) => (args[i - 1] === name ? [arg] : []));
+  const allowLists = lists("--allow").map(loadFilterList);
+  const denyLists = lists("--deny").map(loadFilterList);
+  const filtering = allowLists.length > 0 || denyLists.length > 0;
+  const inPlace = args.includes("--in-place");
+  // A campaign keeps its tree snapshot next to its recipients, so it is only
+  // rewritten together with the campaign's recipients file
+  const campaign = campaignFlag(args);
+  const recipientsFile =
+    campaign?.recipients ||
+    args.find(
+      (arg, i) =>
+        !arg.startsWith("--") &&
+        (!args[i - 1]?.startsWith("--") || args[i - 1] === "--in-place")
+    ) ||
+    "recipients.json";
+
+  generateMerkleTree(recipientsFile, {
+    algorithm: flag("--algorithm"),
+    snapshotFile:
+      flag("--snapshot") ||
+      (!filtering || inPlace ? campaign?.snapshot : undefined),
+    addressPolicy: parseAddressPolicy(flag("--address-policy")),
+    allowAddresses: lists("--allow-address"),
+    filter: filtering
+      ? {
+          allow: allowLists.length > 0 ? allowLists : undefined,
+          deny: denyLists,
+          policy: parseFilterPolicy(flag("--filter-policy")),
+          outputFile: flag("--out"),
+          inPlace,
+          auditFile: flag("--audit"),
+        }
+      : undefined,
+  })
     .then(() => {
       console.log("🎉 Merkle tree generation completed!");
       process.exit(0);
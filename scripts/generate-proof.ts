@@ -1,160 +1,202 @@
-import { PublicKey } from "@solana/web3.js";
-import { keccak_256 } from "js-sha3";
-import { loadRecipients } from "./load-recipients";
+import * as fs from "fs";
+import {
+  RecipientsFile,
+  Recipient as RecipientEntry,
+  convertRecipientsForMerkleTree,
+  earlyAccessRecipients,
+  loadRecipients,
+} from "./load-recipients";
+import { DEFAULT_ALGORITHM, SimpleMerkleTree } from "./merkle-tree";
+import { formatSol } from "./amounts";
+import { loadTreeSnapshot } from "./tree-snapshot";
+import { campaignFlag } from "./campaigns";
 
-interface Recipient {
-  recipient: PublicKey;
-  amount: number;
+// Proof data in the format expected by claim_airdrop
+export interface ProofData {
+  proof: number[][];
+  leafIndex: number;
+  amount: string;
+  recipient: string;
 }
 
-class SimpleMerkleTree {
-  public root: Uint8Array;
-  private leaves: Uint8Array[];
-  private tree: Uint8Array[][];
-
-  constructor(recipients: Recipient[]) {
-    // Create leaves
-    this.leaves = recipients.map((r) => this.createLeaf(r.recipient, r.amount));
-
-    // Build tree
-    this.tree = [this.leaves];
-    let currentLevel = this.leaves;
+// Multiproof data in the format expected by claim_airdrop_batch; claims are
+// listed in ascending leaf index order
+export interface MultiProofData {
+  proof: number[][];
+  proofFlags: boolean[];
+  leafIndices: number[];
+  amounts: string[];
+  recipients: string[];
+}
 
-    while (currentLevel.length > 1) {
-      const nextLevel: Uint8Array[] = [];
+// Build the merkle tree for a recipients file with the algorithm the root was built with
+export function buildMerkleTree(
+  recipientsData: RecipientsFile
+): SimpleMerkleTree {
+  return new SimpleMerkleTree(
+    convertRecipientsForMerkleTree(recipientsData.recipients),
+    recipientsData.metadata?.algorithm || DEFAULT_ALGORITHM
+  );
+}
 
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = i + 1 < currentLevel.length ? currentLevel[i + 1] : left;
-        const parent = this.hashPair(left, right);
-        nextLevel.push(parent);
-      }
+// Build the early tier's tree, whose root the program checks claims against
+// before the public phase; null when no recipient has earlyAccess
+export function buildEarlyAccessTree(
+  recipientsData: RecipientsFile
+): SimpleMerkleTree | null {
+  const tier = earlyAccessRecipients(recipientsData.recipients);
+  return tier.length > 0
+    ? new SimpleMerkleTree(
+        convertRecipientsForMerkleTree(tier),
+        recipientsData.metadata?.algorithm || DEFAULT_ALGORITHM
+      )
+    : null;
+}
 
-      this.tree.push(nextLevel);
-      currentLevel = nextLevel;
-    }
+// Extract the proof for a recipient from an already built tree
+export function getProofData(
+  merkleTree: SimpleMerkleTree,
+  recipientInfo: RecipientEntry
+): ProofData {
+  // Convert proof to format expected by the program (Vec<[u8; 32]>)
+  const proof = merkleTree.getProof(recipientInfo.index);
 
-    this.root = currentLevel[0];
-  }
+  return {
+    proof: proof.map((p) => Array.from(p)),
+    leafIndex: recipientInfo.index,
+    amount: recipientInfo.amount,
+    recipient: recipientInfo.publicKey,
+  };
+}
 
-  private createLeaf(recipient: PublicKey, amount: number): Uint8Array {
-    const data = Buffer.concat([
-      recipient.toBuffer(),
-      Buffer.from(new Uint8Array(new BigUint64Array([BigInt(amount)]).buffer)),
-      Buffer.from([0]), // isClaimed = false
-    ]);
-    return new Uint8Array(keccak_256.arrayBuffer(data));
-  }
+// Extract one multiproof covering several recipients from an already built tree
+export function getMultiProofData(
+  merkleTree: SimpleMerkleTree,
+  recipientInfos: RecipientEntry[]
+): MultiProofData {
+  const sorted = [...recipientInfos].sort((a, b) => a.index - b.index);
+  const { leafIndices, proof, proofFlags } = merkleTree.getMultiProof(
+    sorted.map((r) => r.index)
+  );
 
-  private hashPair(left: Uint8Array, right: Uint8Array): Uint8Array {
-    const data = Buffer.concat([Buffer.from(left), Buffer.from(right)]);
-    return new Uint8Array(keccak_256.arrayBuffer(data));
+  if (leafIndices.length !== sorted.length) {
+    throw new Error("Multiproof recipients must be distinct");
   }
 
-  public getProof(leafIndex: number): Uint8Array[] {
-    const proof: Uint8Array[] = [];
-    let index = leafIndex;
-
-    for (let level = 0; level < this.tree.length - 1; level++) {
-      const currentLevel = this.tree[level];
-      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
-
-      if (siblingIndex < currentLevel.length) {
-        proof.push(currentLevel[siblingIndex]);
-      }
-
-      index = Math.floor(index / 2);
-    }
-
-    return proof;
-  }
+  return {
+    proof: proof.map((p) => Array.from(p)),
+    proofFlags,
+    leafIndices,
+    amounts: sorted.map((r) => r.amount),
+    recipients: sorted.map((r) => r.publicKey),
+  };
 }
 
-// Generate proof for a specific recipient
+// Generate proof for a specific recipient; with earlyAccess the proof is
+// against the early tier's tree, for claims before the public phase
 export function generateProofForRecipient(
   recipientPublicKey: string,
-  recipientsFile: string = "recipients.json"
-): {
-  proof: number[][];
-  leafIndex: number;
-  amount: string;
-  recipient: string;
-} | null {
+  recipientsFile: string = "recipients.json",
+  options: { earlyAccess?: boolean } = {}
+): ProofData | null {
   try {
-    console.log(`🔍 Generating proof for ${recipientPublicKey}...`);
+    console.log(
+      `🔍 Generating ${
+        options.earlyAccess ? "early access " : ""
+      }proof for ${recipientPublicKey}...`
+    );
 
     // Load recipients
     const recipientsData = loadRecipients(recipientsFile);
+    const recipients = options.earlyAccess
+      ? earlyAccessRecipients(recipientsData.recipients)
+      : recipientsData.recipients;
 
     // Find the recipient
-    const recipientInfo = recipientsData.recipients.find(
+    const recipientInfo = recipients.find(
       (r) => r.publicKey === recipientPublicKey
     );
     if (!recipientInfo) {
       console.error(
-        `❌ Recipient ${recipientPublicKey} not found in recipients list`
+        `❌ Recipient ${recipientPublicKey} not found in ${
+          options.earlyAccess ? "the early access tier" : "recipients list"
+        }`
       );
       return null;
     }
 
-    // Convert to format expected by merkle tree
-    const recipients: Recipient[] = recipientsData.recipients.map((r) => ({
-      recipient: new PublicKey(r.publicKey),
-      amount: parseInt(r.amount),
-    }));
-
-    // Generate merkle tree
-    const merkleTree = new SimpleMerkleTree(recipients);
-
-    // Generate proof for this recipient
-    const leafIndex = recipientInfo.index;
-    const proof = merkleTree.getProof(leafIndex);
-
-    // Convert proof to format expected by the program (Vec<[u8; 32]>)
-    const proofArray = proof.map((p) => Array.from(p));
+    // Generate merkle tree and the proof for this recipient
+    const merkleTree = options.earlyAccess
+      ? buildEarlyAccessTree(recipientsData)
+      : buildMerkleTree(recipientsData);
+    const proofData = getProofData(merkleTree, recipientInfo);
+    const { leafIndex, proof: proofArray } = proofData;
 
     console.log(
       `✅ Proof generated for ${recipientInfo.description || "recipient"}:`
     );
     console.log(`   Leaf Index: ${leafIndex}`);
     console.log(
-      `   Amount: ${recipientInfo.amount} lamports (${
-        parseInt(recipientInfo.amount) / 1e9
-      } SOL)`
+      `   Amount: ${recipientInfo.amount} lamports (${formatSol(
+        recipientInfo.amount
+      )} SOL)`
     );
-    console.log(`   Proof Length: ${proof.length} hashes`);
+    console.log(`   Proof Length: ${proofArray.length} hashes`);
     console.log(
       `   Proof: [${proofArray.map((p) => `[${p.join(", ")}]`).join(", ")}]`
     );
 
-    return {
-      proof: proofArray,
-      leafIndex,
-      amount: recipientInfo.amount,
-      recipient: recipientPublicKey,
-    };
+    return proofData;
   } catch (error) {
     console.error("❌ Error generating proof:", error);
     return null;
   }
 }
 
+// Look up a proof in a tree snapshot instead of rebuilding the tree
+export function generateProofFromSnapshot(
+  recipientPublicKey: string,
+  snapshotFile: string,
+  recipientsFile: string = "recipients.json"
+): ProofData | null {
+  try {
+    console.log(
+      `🔍 Looking up proof for ${recipientPublicKey} in ${snapshotFile}...`
+    );
+
+    const snapshot = loadTreeSnapshot(snapshotFile, recipientsFile);
+    const proofData = snapshot.getProofData(recipientPublicKey);
+    if (!proofData) {
+      console.error(
+        `❌ Recipient ${recipientPublicKey} not found in tree snapshot`
+      );
+      return null;
+    }
+
+    console.log(`✅ Proof found:`);
+    console.log(`   Leaf Index: ${proofData.leafIndex}`);
+    console.log(`   Amount: ${proofData.amount} lamports`);
+    console.log(`   Proof Length: ${proofData.proof.length} hashes`);
+
+    return proofData;
+  } catch (error) {
+    console.error("❌ Error reading proof from snapshot:", error);
+    return null;
+  }
+}
+
 // Generate proofs for all recipients
 export function generateAllProofs(recipientsFile: string = "recipients.json") {
   try {
     console.log("🔍 Generating proofs for all recipients...");
 
     const recipientsData = loadRecipients(recipientsFile);
-    const proofs: { [key: string]: any } = {};
+    const proofs: { [key: string]: ProofData } = {};
 
+    // Build the tree once and reuse it for every recipient
+    const merkleTree = buildMerkleTree(recipientsData);
     for (const recipient of recipientsData.recipients) {
-      const proof = generateProofForRecipient(
-        recipient.publicKey,
-        recipientsFile
-      );
-      if (proof) {
-        proofs[recipient.publicKey] = proof;
-      }
+      proofs[recipient.publicKey] = getProofData(merkleTree, recipient);
     }
 
     console.log(`✅ Generated ${Object.keys(proofs).length} proofs`);
@@ -168,8 +210,16 @@ export function generateAllProofs(recipientsFile: string = "recipients.json") {
 // Command line interface
 if (require.main === module) {
   const args = process.argv.slice(2);
+  const campaign = campaignFlag(args);
+  const recipientsFile = campaign?.recipients;
+  const publicKey = args.find(
+    (arg, i) =>
+      !arg.startsWith("--") &&
+      args[i - 1] !== "--snapshot" &&
+      args[i - 1] !== "--campaign"
+  );
 
-  if (args.length === 0) {
+  if (!publicKey && !args.includes("--all")) {
     console.log("📋 Usage:");
     console.log(
       "  Generate proof for specific recipient: ts-node scripts/generate-proof.ts <public_key>"
@@ -177,19 +227,42 @@ if (require.main === module) {
     console.log(
       "  Generate proofs for all recipients: ts-node scripts/generate-proof.ts --all"
     );
+    console.log(
+      "  Look up a proof in a tree snapshot: ts-node scripts/generate-proof.ts <public_key> --snapshot <file>"
+    );
+    console.log(
+      "  Proof against the early tier's tree: ts-node scripts/generate-proof.ts <public_key> --early-access"
+    );
     console.log("");
     console.log("📝 Examples:");
     console.log(
       "  ts-node scripts/generate-proof.ts HcCcKydEcuGMbBso7jciQrFpBw1XQrKHKFckGSAxXXQG"
     );
     console.log("  ts-node scripts/generate-proof.ts --all");
+    console.log(
+      "  ts-node scripts/generate-proof.ts <public_key> --campaign <airdropId>"
+    );
     process.exit(1);
   }
 
-  if (args[0] === "--all") {
-    generateAllProofs();
+  // Campaigns use their tree snapshot when generate-merkle-tree.ts wrote one
+  const snapshotFlag = args.indexOf("--snapshot");
+  const snapshotFile =
+    snapshotFlag !== -1
+      ? args[snapshotFlag + 1]
+      : campaign && fs.existsSync(campaign.snapshot)
+      ? campaign.snapshot
+      : undefined;
+
+  if (args.includes("--all")) {
+    generateAllProofs(recipientsFile);
+  } else if (args.includes("--early-access")) {
+    generateProofForRecipient(publicKey, recipientsFile, {
+      earlyAccess: true,
+    });
+  } else if (snapshotFile) {
+    generateProofFromSnapshot(publicKey, snapshotFile, recipientsFile);
   } else {
-    const publicKey = args[0];
-    generateProofForRecipient(publicKey);
+    generateProofForRecipient(publicKey, recipientsFile);
   }
 }
@@ -0,0 +1,433 @@
+import * as fs from "fs";
+import * as path from "path";
+import { PublicKey } from "@solana/web3.js";
+import { Recipient, RecipientsFile } from "./load-recipients";
+import { DEFAULT_ALGORITHM, LEAF_FORMAT } from "./merkle-tree";
+import { normalizeRecipients } from "./normalize-recipients";
+import { generateMerkleTree } from "./generate-merkle-tree";
+import { campaignPaths } from "./campaigns";
+import { U64_MAX, formatSol, solToLamports } from "./amounts";
+
+export type AmountUnit = "sol" | "lamports";
+
+export interface ImportOptions {
+  // Unit of the amount column; there is no default so 1 SOL is never read as 1 lamport
+  unit: AmountUnit;
+  delimiter?: string;
+  // Sum amounts of repeated addresses instead of reporting them as errors
+  mergeDuplicates?: boolean;
+  airdropId?: string;
+  description?: string;
+  network?: string;
+  programId?: string;
+  algorithm?: string;
+}
+
+// One problem in the input; row is the 1-based line number in the file
+export interface ImportError {
+  row: number;
+  column?: string;
+  value?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  data: RecipientsFile | null;
+  errors: ImportError[];
+  rowCount: number;
+}
+
+// Parse an amount cell in the given unit
+export function parseAmountCell(value: string, unit: AmountUnit): bigint {
+  if (unit === "sol") {
+    return solToLamports(value);
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`"${value}" is not a whole number of lamports`);
+  }
+  return BigInt(value);
+}
+
+// Split delimited text into rows of cells. Handles quoted cells with embedded
+// delimiters, doubled quotes and newlines, as exported by spreadsheets.
+export function parseDelimited(
+  content: string,
+  delimiter: string = ","
+): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim() !== "")) {
+      rows.push({ line: rowLine, cells: cells.map((c) => c.trim()) });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  const text = content.replace(/^\uFEFF/, "");
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+const ADDRESS_HEADERS = /^(address|public_?key|wallet|recipient)$/i;
+const AMOUNT_HEADERS = /^(amount|amount_?(sol|lamports)|sol|lamports)$/i;
+const DESCRIPTION_HEADERS = /^(description|note|memo|label|name)$/i;
+
+// Column positions, taken from a header row if there is one
+function findColumns(firstRow: string[]): {
+  address: number;
+  amount: number;
+  description: number;
+  hasHeader: boolean;
+} {
+  const address = firstRow.findIndex((c) => ADDRESS_HEADERS.test(c));
+  if (address === -1) {
+    return { address: 0, amount: 1, description: 2, hasHeader: false };
+  }
+
+  return {
+    address,
+    amount: firstRow.findIndex((c) => AMOUNT_HEADERS.test(c)),
+    description: firstRow.findIndex((c) => DESCRIPTION_HEADERS.test(c)),
+    hasHeader: true,
+  };
+}
+
+// Turn CSV/TSV text into a RecipientsFile, collecting every row error
+// instead of stopping at the first one
+export function importRecipients(
+  content: string,
+  options: ImportOptions
+): ImportResult {
+  const rows = parseDelimited(content, options.delimiter || ",");
+  const errors: ImportError[] = [];
+
+  if (rows.length === 0) {
+    return {
+      data: null,
+      errors: [{ row: 0, message: "Input contains no rows" }],
+      rowCount: 0,
+    };
+  }
+
+  const columns = findColumns(rows[0].cells);
+  if (columns.hasHeader && columns.amount === -1) {
+    return {
+      data: null,
+      errors: [
+        {
+          row: rows[0].line,
+          message: "Header row has no amount column",
+        },
+      ],
+      rowCount: 0,
+    };
+  }
+
+  const dataRows = columns.hasHeader ? rows.slice(1) : rows;
+  const recipients: Recipient[] = [];
+  const firstSeen = new Map<string, number>();
+
+  for (const { line, cells } of dataRows) {
+    const address = cells[columns.address] || "";
+    const amount = cells[columns.amount] || "";
+    const description =
+      columns.description !== -1 ? cells[columns.description] : undefined;
+    let rowValid = true;
+
+    let publicKey: string;
+    try {
+      publicKey = new PublicKey(address).toString();
+    } catch {
+      errors.push({
+        row: line,
+        column: "address",
+        value: address,
+        message: address ? "Invalid public key" : "Missing address",
+      });
+      rowValid = false;
+    }
+
+    let lamports: bigint;
+    try {
+      if (!amount) {
+        throw new Error("Missing amount");
+      }
+      lamports = parseAmountCell(amount, options.unit);
+      if (lamports <= BigInt(0)) {
+        throw new Error("Amount must be greater than zero");
+      }
+      if (lamports > U64_MAX) {
+        throw new Error("Amount exceeds the u64 lamport limit");
+      }
+    } catch (error) {
+      errors.push({
+        row: line,
+        column: "amount",
+        value: amount,
+        message: error.message,
+      });
+      rowValid = false;
+    }
+
+    if (!rowValid) {
+      continue;
+    }
+
+    if (firstSeen.has(publicKey) && !options.mergeDuplicates) {
+      errors.push({
+        row: line,
+        column: "address",
+        value: address,
+        message: `Duplicate of row ${firstSeen.get(
+          publicKey
+        )} (use --merge-duplicates to sum them)`,
+      });
+      continue;
+    }
+    if (!firstSeen.has(publicKey)) {
+      firstSeen.set(publicKey, line);
+    }
+
+    const recipient: Recipient = {
+      publicKey,
+      amount: lamports.toString(),
+      index: recipients.length,
+    };
+    if (description) {
+      recipient.description = description;
+    }
+    recipients.push(recipient);
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors, rowCount: dataRows.length };
+  }
+
+  let data: RecipientsFile = {
+    airdropId: options.airdropId || "solana-distributor-airdrop",
+    description: options.description || "Imported recipients",
+    merkleRoot: "0x" + "00".repeat(32),
+    totalAmount: recipients
+      .reduce((sum, r) => sum + BigInt(r.amount), BigInt(0))
+      .toString(),
+    network: options.network || "devnet",
+    programId: options.programId || "WILL_BE_UPDATED_AFTER_DEPLOYMENT",
+    recipients,
+    metadata: {
+      createdAt: new Date().toISOString(),
+      version: "1.0.0",
+      algorithm: options.algorithm || DEFAULT_ALGORITHM,
+      leafFormat: LEAF_FORMAT,
+    },
+  };
+
+  if (options.mergeDuplicates) {
+    data = normalizeRecipients(data).data;
+  }
+
+  if (BigInt(data.totalAmount) > U64_MAX) {
+    return {
+      data: null,
+      errors: [
+        { row: 0, message: "Total amount exceeds the u64 lamport limit" },
+      ],
+      rowCount: dataRows.length,
+    };
+  }
+
+  return { data, errors, rowCount: dataRows.length };
+}
+
+export function printImportErrors(errors: ImportError[]) {
+  console.log(`❌ ${errors.length} problems found:`);
+  for (const error of errors) {
+    const location = error.row > 0 ? `Row ${error.row}` : "File";
+    const column = error.column ? ` [${error.column}]` : "";
+    const value = error.value !== undefined ? ` "${error.value}"` : "";
+    console.log(`   ${location}${column}${value}: ${error.message}`);
+  }
+}
+
+// Import a CSV/TSV file into a recipients JSON file, optionally generating
+// the merkle tree straight away. Without an output file the JSON goes next to
+// the input (finance.csv → finance.json), so an existing recipients.json is
+// only replaced when it is named.
+export async function importRecipientsFile(
+  inputFile: string,
+  outputFile: string | undefined,
+  options: ImportOptions & {
+    generate?: boolean;
+    reportFile?: string;
+    // Tree snapshot written by --generate, e.g. a campaign's
+    snapshotFile?: string;
+  }
+): Promise<ImportResult> {
+  try {
+    console.log(`📥 Importing recipients from ${inputFile}...`);
+    const { dir, name } = path.parse(inputFile);
+    outputFile = outputFile || path.join(dir, `${name}.json`);
+
+    const delimiter =
+      options.delimiter ||
+      ([".tsv", ".tab"].includes(path.extname(inputFile).toLowerCase())
+        ? "\t"
+        : ",");
+    const result = importRecipients(fs.readFileSync(inputFile, "utf8"), {
+      ...options,
+      delimiter,
+    });
+
+    if (options.reportFile) {
+      fs.writeFileSync(
+        options.reportFile,
+        JSON.stringify(
+          { rowCount: result.rowCount, errors: result.errors },
+          null,
+          2
+        )
+      );
+      console.log(`📝 Row report written to ${options.reportFile}`);
+    }
+
+    if (result.errors.length > 0) {
+      printImportErrors(result.errors);
+      throw new Error(
+        `${result.errors.length} of ${result.rowCount} rows could not be imported`
+      );
+    }
+
+    fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+    fs.writeFileSync(outputFile, JSON.stringify(result.data, null, 2));
+    console.log(
+      `✅ Imported ${result.data.recipients.length} recipients (${formatSol(
+        result.data.totalAmount
+      )} SOL) to ${outputFile}`
+    );
+
+    if (options.generate) {
+      await generateMerkleTree(outputFile, {
+        algorithm: options.algorithm,
+        snapshotFile: options.snapshotFile,
+      });
+    }
+
+    return result;
+  } catch (error) {
+    console.error("❌ Error importing recipients:", error);
+    throw error;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const valueFlags = [
+    "--out",
+    "--unit",
+    "--delimiter",
+    "--airdrop-id",
+    "--network",
+    "--program-id",
+    "--algorithm",
+    "--report",
+    "--campaign",
+  ];
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const positional = args.filter(
+    (arg, i) => !arg.startsWith("--") && !valueFlags.includes(args[i - 1])
+  );
+  const unit = flag("--unit");
+
+  if (positional.length === 0 || (unit !== "sol" && unit !== "lamports")) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/import-recipients.ts <recipients.csv | recipients.tsv> --unit <sol|lamports> [--out <file> | --campaign <airdropId>] [--generate]"
+    );
+    console.log("");
+    console.log("🔧 Options:");
+    console.log("  --merge-duplicates      Sum amounts of repeated addresses");
+    console.log(
+      "  --delimiter <char>      Override the delimiter (default from extension)"
+    );
+    console.log("  --report <file>         Write the row-level report as JSON");
+    console.log(
+      "  --campaign <airdropId>  Write campaigns/<airdropId>/recipients.json (default: next to the input)"
+    );
+    console.log("  --airdrop-id, --network, --program-id, --algorithm");
+    console.log("");
+    console.log("📝 Example:");
+    console.log(
+      "  ts-node scripts/import-recipients.ts finance.csv --unit sol --out recipients.json --generate"
+    );
+    process.exit(1);
+  }
+
+  // The campaign is created by the import, so it need not exist yet
+  const campaign = flag("--campaign")
+    ? campaignPaths(flag("--campaign"))
+    : undefined;
+
+  importRecipientsFile(positional[0], flag("--out") || campaign?.recipients, {
+    unit,
+    delimiter: flag("--delimiter") === "\\t" ? "\t" : flag("--delimiter"),
+    mergeDuplicates: args.includes("--merge-duplicates"),
+    airdropId: campaign?.airdropId || flag("--airdrop-id"),
+    network: flag("--network"),
+    programId: flag("--program-id"),
+    algorithm: flag("--algorithm"),
+    reportFile: flag("--report"),
+    generate: args.includes("--generate"),
+    snapshotFile: campaign?.snapshot,
+  })
+    .then(() => {
+      console.log("🎉 Import completed!");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error.message);
+      process.exit(1);
+    });
+}
@@ -1,23 +1,119 @@
 import * as anchor from "@coral-xyz/anchor";
 import { Program } from "@coral-xyz/anchor";
 import { SolanaDistributor } from "../target/types/solana_distributor";
-import { PublicKey } from "@solana/web3.js";
-import { loadRecipients } from "./load-recipients";
+import {
+  TOKEN_2022_PROGRAM_ID,
+  getMint,
+  getTransferFeeConfig,
+} from "@solana/spl-token";
+import {
+  AddressPolicy,
+  enforceAddressSafety,
+  parseAddressPolicy,
+} from "./address-safety";
+import {
+  assertValidRecipients,
+  formatAmount,
+  loadRecipients,
+} from "./load-recipients";
+import { assertOnChainAlgorithm } from "./merkle-tree";
+import { parseLamports } from "./amounts";
+import { campaignFlag, recordDeployment } from "./campaigns";
+import {
+  ClaimPhases,
+  DistributorClient,
+  assertValidPhases,
+  formatPhases,
+  phasesFromState,
+} from "./distributor-client";
+import {
+  formatTimestamp,
+  nowSeconds,
+  parseDuration,
+  parseTimestamp,
+} from "./time";
+import {
+  NO_VESTING,
+  VestingSchedule,
+  assertValidVesting,
+  formatVesting,
+} from "./vesting";
 
 // Initialize the airdrop with recipients data
 export async function initializeAirdrop(
-  recipientsFile: string = "recipients.json"
+  recipientsFile: string = "recipients.json",
+  options: {
+    addressPolicy?: AddressPolicy;
+    allowAddresses?: string[];
+    // Where to record the deployment, e.g. a campaign's deployment.json
+    deploymentFile?: string;
+    // Unix timestamp after which claims are rejected and the authority may
+    // claw back what is left; unset for no deadline
+    claimEndTime?: number;
+    // Global vesting schedule; unset to make everything claimable at once
+    vesting?: VestingSchedule;
+    // Unix timestamp claims open at; unset to open them immediately
+    claimStartTime?: number;
+    // End of the early access phase: until then only recipients marked
+    // earlyAccess can claim. Needs the file's earlyAccessRoot.
+    publicStartTime?: number;
+  } = {}
 ) {
   try {
     console.log("🚀 Initializing airdrop...");
 
     // Load recipients data
     const recipientsData = loadRecipients(recipientsFile);
+    assertValidRecipients(recipientsData, {
+      strict: true,
+      source: recipientsFile,
+    });
     console.log(`📋 Loaded ${recipientsData.recipients.length} recipients`);
+    enforceAddressSafety(recipientsData, {
+      policy: options.addressPolicy,
+      allow: options.allowAddresses,
+    });
+    const totalLamports = parseLamports(
+      recipientsData.totalAmount,
+      "totalAmount"
+    );
     console.log(
-      `💰 Total amount: ${parseInt(recipientsData.totalAmount) / 1e9} SOL`
+      `💰 Total amount: ${formatAmount(recipientsData, totalLamports)}`
     );
     console.log(`🌳 Merkle root: ${recipientsData.merkleRoot}`);
+    const claimEndTime = options.claimEndTime || 0;
+    if (claimEndTime !== 0 && claimEndTime <= nowSeconds()) {
+      throw new Error(
+        `Claim end time ${formatTimestamp(claimEndTime)} is in the past`
+      );
+    }
+    console.log(`⏰ Claim end time: ${formatTimestamp(claimEndTime)}`);
+    const vesting = options.vesting || NO_VESTING;
+    assertValidVesting(vesting, claimEndTime);
+    console.log(`📅 Vesting: ${formatVesting(vesting)}`);
+
+    if (options.publicStartTime && !recipientsData.earlyAccessRoot) {
+      throw new Error(
+        `A public start time needs an early access tier: mark recipients with earlyAccess in ${recipientsFile} and run generate-merkle-tree.ts`
+      );
+    }
+    if (!options.publicStartTime && recipientsData.earlyAccessRoot) {
+      console.log(
+        "⚠️  The recipients file has an early access tier but no public start time; everyone can claim from the start"
+      );
+    }
+    const phases: ClaimPhases = {
+      startTime: options.claimStartTime || 0,
+      earlyRoot: options.publicStartTime
+        ? recipientsData.earlyAccessRoot
+        : undefined,
+      publicStartTime: options.publicStartTime || 0,
+    };
+    assertValidPhases(phases, claimEndTime);
+    console.log(`🚦 Claims open: ${formatPhases(phases)}`);
+
+    // The program can only verify proofs built with its own hashing scheme
+    assertOnChainAlgorithm(recipientsData.metadata?.algorithm);
 
     // Set up Anchor
     const provider = anchor.AnchorProvider.env();
@@ -35,27 +131,38 @@ export async function initializeAirdrop(
       `🔢 Merkle root bytes: [${Array.from(merkleRootBytes).join(", ")}]`
     );
 
-    // Calculate airdrop state PDA
-    const [airdropStatePda] = PublicKey.findProgramAddressSync(
-      [Buffer.from("merkle_tree")],
-      program.programId
+    const client = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      recipientsData.airdropId,
+      provider.opts
+    );
+    const { airdropStatePda } = client;
+    console.log(
+      `🏛️  Airdrop state PDA for ${
+        recipientsData.airdropId
+      }: ${airdropStatePda.toString()}`
     );
-    console.log(`🏛️  Airdrop state PDA: ${airdropStatePda.toString()}`);
 
     // Check if already initialized
-    try {
-      const existingState = await program.account.airdropState.fetch(
-        airdropStatePda
-      );
+    const existingState = await client.getAirdropState();
+    if (existingState) {
       console.log("⚠️  Airdrop already initialized:");
       console.log(
         `   Root: 0x${Buffer.from(existingState.merkleRoot).toString("hex")}`
       );
       console.log(
-        `   Amount: ${existingState.airdropAmount.toNumber() / 1e9} SOL`
+        `   Amount: ${formatAmount(
+          recipientsData,
+          existingState.airdropAmount.toString()
+        )}`
       );
       console.log(
-        `   Claimed: ${existingState.amountClaimed.toNumber() / 1e9} SOL`
+        `   Claimed: ${formatAmount(
+          recipientsData,
+          existingState.amountClaimed.toString()
+        )}`
       );
       console.log(`   Authority: ${existingState.authority.toString()}`);
       return {
@@ -63,21 +170,54 @@ export async function initializeAirdrop(
         signature: null,
         alreadyInitialized: true,
       };
-    } catch (e) {
-      // Not initialized yet, continue
-      console.log("✅ Airdrop not yet initialized, proceeding...");
     }
+    console.log("✅ Airdrop not yet initialized, proceeding...");
 
-    // Initialize the airdrop
-    const totalAmount = new anchor.BN(recipientsData.totalAmount);
+    let tx: string;
+    if (recipientsData.mint) {
+      // Token mode: the vault is the state PDA's associated token account
+      const vault = await client.getTokenVault(recipientsData.mint);
+      const mint = await getMint(
+        provider.connection,
+        vault.mint,
+        undefined,
+        vault.tokenProgram
+      );
+      if (mint.decimals !== recipientsData.decimals) {
+        throw new Error(
+          `Mint ${vault.mint.toString()} has ${
+            mint.decimals
+          } decimals, recipients file says ${recipientsData.decimals}`
+        );
+      }
+      const isToken2022 = vault.tokenProgram.equals(TOKEN_2022_PROGRAM_ID);
+      console.log(
+        `🪙 Mint: ${vault.mint.toString()} (${
+          isToken2022 ? "Token-2022" : "SPL Token"
+        })`
+      );
+      console.log(`🏦 Vault: ${vault.address.toString()}`);
+      if (isToken2022 && getTransferFeeConfig(mint)) {
+        console.log(
+          "⚠️  Mint charges a transfer fee: the deposit includes it, and claimants receive their amount minus the fee"
+        );
+      }
 
-    console.log("📤 Sending initialize transaction...");
-    const tx = await program.methods
-      .initializeAirdrop(Array.from(merkleRootBytes), totalAmount)
-      .accounts({
-        authority: provider.wallet.publicKey,
-      })
-      .rpc();
+      console.log("📤 Sending initialize transaction...");
+      tx = await client.initializeToken(
+        vault.mint,
+        merkleRootBytes,
+        totalLamports,
+        { claimEndTime, vesting, phases }
+      );
+    } else {
+      console.log("📤 Sending initialize transaction...");
+      tx = await client.initialize(merkleRootBytes, totalLamports, {
+        claimEndTime,
+        vesting,
+        phases,
+      });
+    }
 
     console.log("✅ Airdrop initialized successfully!");
     console.log(`📋 Transaction signature: ${tx}`);
@@ -86,9 +226,7 @@ export async function initializeAirdrop(
     );
 
     // Verify the state
-    const airdropState = await program.account.airdropState.fetch(
-      airdropStatePda
-    );
+    const airdropState = await client.getAirdropState();
     console.log("\n🔍 Verification:");
     console.log(
       `   Merkle root: 0x${Buffer.from(airdropState.merkleRoot).toString(
@@ -97,12 +235,45 @@ export async function initializeAirdrop(
     );
     console.log(`   Authority: ${airdropState.authority.toString()}`);
     console.log(
-      `   Total amount: ${airdropState.airdropAmount.toNumber() / 1e9} SOL`
+      `   Total amount: ${formatAmount(
+        recipientsData,
+        airdropState.airdropAmount.toString()
+      )}`
     );
     console.log(
-      `   Amount claimed: ${airdropState.amountClaimed.toNumber() / 1e9} SOL`
+      `   Amount claimed: ${formatAmount(
+        recipientsData,
+        airdropState.amountClaimed.toString()
+      )}`
+    );
+    console.log(
+      `   Claim end time: ${formatTimestamp(
+        airdropState.claimEndTime.toNumber()
+      )}`
+    );
+    console.log(
+      `   Claims open: ${formatPhases(phasesFromState(airdropState.phases))}`
     );
 
+    if (options.deploymentFile) {
+      recordDeployment(options.deploymentFile, {
+        airdropId: recipientsData.airdropId,
+        network: recipientsData.network,
+        programId: program.programId.toString(),
+        airdropStatePda: airdropStatePda.toString(),
+        authority: provider.wallet.publicKey.toString(),
+        merkleRoot: recipientsData.merkleRoot,
+        totalAmount: totalLamports.toString(),
+        mint: recipientsData.mint,
+        claimEndTime: claimEndTime || undefined,
+        vesting: vesting.durationSeconds > 0 ? vesting : undefined,
+        phases: phases.startTime !== 0 || phases.earlyRoot ? phases : undefined,
+        signature: tx,
+        initializedAt: new Date().toISOString(),
+      });
+      console.log(`📝 Deployment recorded in ${options.deploymentFile}`);
+    }
+
     return {
       airdropStatePda,
       signature: tx,
@@ -116,7 +287,56 @@ export async function initializeAirdrop(
 
 // If running this script directly
 if (require.main === module) {
-  initializeAirdrop()
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const allowAddresses = args.flatMap((arg, i) =>
+    args[i - 1] === "--allow-address" ? [arg] : []
+  );
+  const campaign = campaignFlag(args);
+  // The vesting start defaults to now; start and cliff need a duration
+  const vestingDuration = flag("--vesting-duration");
+  const vesting: VestingSchedule | undefined = [
+    "--vesting-start",
+    "--vesting-cliff",
+    "--vesting-duration",
+  ].some((name) => args.includes(name))
+    ? {
+        startTime: flag("--vesting-start")
+          ? parseTimestamp(flag("--vesting-start"), "--vesting-start")
+          : nowSeconds(),
+        cliffSeconds: flag("--vesting-cliff")
+          ? parseDuration(flag("--vesting-cliff"), "--vesting-cliff")
+          : 0,
+        durationSeconds: vestingDuration
+          ? parseDuration(vestingDuration, "--vesting-duration")
+          : 0,
+      }
+    : undefined;
+  const recipientsFile =
+    campaign?.recipients ||
+    args.find(
+      (arg, i) => !arg.startsWith("--") && !args[i - 1]?.startsWith("--")
+    ) ||
+    "recipients.json";
+
+  initializeAirdrop(recipientsFile, {
+    addressPolicy: parseAddressPolicy(flag("--address-policy")),
+    allowAddresses,
+    deploymentFile: campaign?.deployment,
+    claimEndTime: flag("--claim-end")
+      ? parseTimestamp(flag("--claim-end"), "--claim-end")
+      : undefined,
+    vesting,
+    claimStartTime: flag("--claim-start")
+      ? parseTimestamp(flag("--claim-start"), "--claim-start")
+      : undefined,
+    publicStartTime: flag("--public-start")
+      ? parseTimestamp(flag("--public-start"), "--public-start")
+      : undefined,
+  })
     .then((result) => {
       if (result.alreadyInitialized) {
         console.log("✨ Airdrop was already initialized!");
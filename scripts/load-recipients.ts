@@ -1,29 +1,58 @@
 import * as fs from "fs";
 import * as path from "path";
 import { PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import { formatSol, formatUnits, parseLamports } from "./amounts";
+import {
+  LEAF_FORMAT,
+  SUPPORTED_ALGORITHMS,
+  SimpleMerkleTree,
+} from "./merkle-tree";
 
-// Interface for recipient data
-interface Recipient {
+// Interface for recipient data; amounts are lamport strings so values above
+// 2^53 survive JSON
+export interface Recipient {
   publicKey: string;
   amount: string;
   index: number;
   description?: string;
+  // In the early tier: may claim before the public phase
+  earlyAccess?: boolean;
+}
+
+// Authority signature over the manifest hash (see manifest-signature.ts)
+export interface ManifestSignature {
+  scheme: "ed25519";
+  signer: string;
+  // sha256 of the canonical manifest, hex
+  manifestHash: string;
+  // base58, 64 bytes
+  signature: string;
+  signedAt: string;
 }
 
 // Interface for the recipients file
-interface RecipientsFile {
+export interface RecipientsFile {
   airdropId: string;
   description: string;
   merkleRoot: string;
   totalAmount: string;
   network: string;
   programId: string;
+  // Token mode: the SPL Token or Token-2022 mint to distribute instead of
+  // SOL. Amounts are then in the mint's base units.
+  mint?: string;
+  decimals?: number;
+  // Root of the early tier's tree, written by generate-merkle-tree.ts when
+  // any recipient has earlyAccess
+  earlyAccessRoot?: string;
   recipients: Recipient[];
   metadata: {
     createdAt: string;
     version: string;
     algorithm: string;
     leafFormat: string;
+    signature?: ManifestSignature;
   };
 }
 
@@ -37,7 +66,7 @@ export function loadRecipients(
     const data = JSON.parse(fileContent) as RecipientsFile;
 
     console.log(`Loaded ${data.recipients.length} recipients from ${filePath}`);
-    console.log(`Total amount: ${parseInt(data.totalAmount) / 1e9} SOL`);
+    console.log(`Total amount: ${formatAmount(data, data.totalAmount)}`);
 
     return data;
   } catch (error) {
@@ -46,16 +75,34 @@ export function loadRecipients(
   }
 }
 
+// Human-readable amount in the file's unit: SOL, or tokens of its mint
+export function formatAmount(
+  data: Pick<RecipientsFile, "mint" | "decimals">,
+  amount: bigint | number | string
+): string {
+  return data.mint
+    ? `${formatUnits(amount, data.decimals ?? 0)} tokens`
+    : `${formatSol(amount)} SOL`;
+}
+
 // Convert recipients to the format expected by the Merkle tree
 export function convertRecipientsForMerkleTree(
   recipients: Recipient[]
-): Array<{ recipient: PublicKey; amount: number }> {
+): Array<{ recipient: PublicKey; amount: bigint }> {
   return recipients.map((r) => ({
     recipient: new PublicKey(r.publicKey),
-    amount: parseInt(r.amount),
+    amount: parseLamports(r.amount, `Amount for ${r.publicKey}`),
   }));
 }
 
+// The early tier: recipients with earlyAccess, reindexed by their position
+// in the tier's own tree. Leaves are the same as in the full tree.
+export function earlyAccessRecipients(recipients: Recipient[]): Recipient[] {
+  return recipients
+    .filter((r) => r.earlyAccess)
+    .map((r, index) => ({ ...r, index }));
+}
+
 // Find a recipient by public key
 export function findRecipientByPublicKey(
   recipients: Recipient[],
@@ -64,53 +111,349 @@ export function findRecipientByPublicKey(
   return recipients.find((r) => r.publicKey === publicKey);
 }
 
-// Validate recipients file
-export function validateRecipientsFile(data: RecipientsFile): boolean {
-  // Check required fields
-  if (!data.airdropId || !data.recipients || !Array.isArray(data.recipients)) {
-    console.error("Invalid recipients file: missing required fields");
-    return false;
+export const KNOWN_NETWORKS = ["localnet", "devnet", "testnet", "mainnet-beta"];
+// programId value written before the program has been deployed
+export const PROGRAM_ID_PLACEHOLDER = "WILL_BE_UPDATED_AFTER_DEPLOYMENT";
+
+// One schema problem; path is a JSON path such as $.recipients[3].amount
+export interface ValidationError {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationError[];
+}
+
+export interface ValidationOptions {
+  // Also rebuild the merkle tree and compare it with merkleRoot
+  strict?: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Check a parsed recipients file against the RecipientsFile schema, collecting
+// every problem instead of stopping at the first one
+export function validateRecipientsData(
+  data: unknown,
+  options: ValidationOptions = {}
+): ValidationResult {
+  const errors: ValidationError[] = [];
+  const fail = (path: string, message: string) =>
+    errors.push({ path, message });
+
+  if (!isObject(data)) {
+    fail("$", "Recipients file must be a JSON object");
+    return { valid: false, errors };
+  }
+
+  const requireString = (field: string, allowEmpty = false) => {
+    const value = data[field];
+    if (typeof value !== "string") {
+      fail(`$.${field}`, `Expected a string, got ${JSON.stringify(value)}`);
+      return false;
+    }
+    if (!allowEmpty && value.trim() === "") {
+      fail(`$.${field}`, "Must not be empty");
+      return false;
+    }
+    return true;
+  };
+
+  requireString("airdropId");
+  requireString("description", true);
+
+  if (
+    requireString("merkleRoot") &&
+    !/^0x[0-9a-f]{64}$/i.test(data.merkleRoot)
+  ) {
+    fail("$.merkleRoot", "Expected 0x followed by 64 hex characters");
+  }
+
+  if (
+    data.earlyAccessRoot !== undefined &&
+    (typeof data.earlyAccessRoot !== "string" ||
+      !/^0x[0-9a-f]{64}$/i.test(data.earlyAccessRoot))
+  ) {
+    fail("$.earlyAccessRoot", "Expected 0x followed by 64 hex characters");
+  }
+
+  if (requireString("network") && !KNOWN_NETWORKS.includes(data.network)) {
+    fail(
+      "$.network",
+      `Unknown network "${data.network}" (expected one of ${KNOWN_NETWORKS.join(
+        ", "
+      )})`
+    );
+  }
+
+  if (requireString("programId") && data.programId !== PROGRAM_ID_PLACEHOLDER) {
+    try {
+      new PublicKey(data.programId);
+    } catch {
+      fail("$.programId", `Invalid program ID "${data.programId}"`);
+    }
+  }
+
+  if (data.mint !== undefined) {
+    try {
+      new PublicKey(data.mint);
+    } catch {
+      fail("$.mint", `Invalid mint ${JSON.stringify(data.mint)}`);
+    }
+    if (
+      !Number.isInteger(data.decimals) ||
+      data.decimals < 0 ||
+      data.decimals > 255
+    ) {
+      fail("$.decimals", "Expected the mint's decimals (0-255) with a mint");
+    }
+  } else if (data.decimals !== undefined) {
+    fail("$.decimals", "Only allowed together with a mint");
+  }
+
+  let fileTotal: bigint | null = null;
+  if (requireString("totalAmount")) {
+    try {
+      fileTotal = parseLamports(data.totalAmount, "totalAmount");
+    } catch (error) {
+      fail("$.totalAmount", error.message);
+    }
+  }
+
+  // Metadata
+  const metadata = data.metadata;
+  if (!isObject(metadata)) {
+    fail("$.metadata", "Expected an object");
+  } else {
+    if (
+      typeof metadata.createdAt !== "string" ||
+      isNaN(Date.parse(metadata.createdAt))
+    ) {
+      fail("$.metadata.createdAt", "Expected an ISO 8601 timestamp");
+    }
+    if (
+      typeof metadata.version !== "string" ||
+      !/^\d+\.\d+\.\d+$/.test(metadata.version)
+    ) {
+      fail("$.metadata.version", "Expected a version such as 1.0.0");
+    }
+    if (!SUPPORTED_ALGORITHMS.includes(metadata.algorithm)) {
+      fail(
+        "$.metadata.algorithm",
+        `Unsupported algorithm ${JSON.stringify(
+          metadata.algorithm
+        )} (expected one of ${SUPPORTED_ALGORITHMS.join(", ")})`
+      );
+    }
+    if (metadata.leafFormat !== LEAF_FORMAT) {
+      fail("$.metadata.leafFormat", `Expected "${LEAF_FORMAT}"`);
+    }
+    if (metadata.signature !== undefined) {
+      const signature = metadata.signature;
+      if (!isObject(signature) || signature.scheme !== "ed25519") {
+        fail(
+          "$.metadata.signature",
+          'Expected an object with scheme "ed25519"'
+        );
+      } else {
+        try {
+          new PublicKey(signature.signer);
+        } catch {
+          fail("$.metadata.signature.signer", "Invalid public key");
+        }
+        if (
+          typeof signature.manifestHash !== "string" ||
+          !/^[0-9a-f]{64}$/.test(signature.manifestHash)
+        ) {
+          fail(
+            "$.metadata.signature.manifestHash",
+            "Expected 64 hex characters"
+          );
+        }
+        let signatureBytes = 0;
+        try {
+          signatureBytes = bs58.decode(signature.signature).length;
+        } catch {
+          // reported below
+        }
+        if (signatureBytes !== 64) {
+          fail(
+            "$.metadata.signature.signature",
+            "Expected a base58 ed25519 signature (64 bytes)"
+          );
+        }
+      }
+    }
   }
 
-  // Validate each recipient
-  for (let i = 0; i < data.recipients.length; i++) {
-    const recipient = data.recipients[i];
+  // Recipients
+  if (!Array.isArray(data.recipients)) {
+    fail("$.recipients", "Expected an array");
+    return { valid: false, errors };
+  }
+  if (data.recipients.length === 0) {
+    fail("$.recipients", "Must contain at least one recipient");
+  }
+
+  const seen = new Map<string, number>();
+  let recipientsValid = true;
+  let calculatedTotal = BigInt(0);
+
+  data.recipients.forEach((recipient: unknown, i: number) => {
+    const path = `$.recipients[${i}]`;
+    if (!isObject(recipient)) {
+      fail(path, "Expected an object");
+      recipientsValid = false;
+      return;
+    }
 
-    // Check public key format
     try {
       new PublicKey(recipient.publicKey);
+      // Only one entry per key can ever be claimed (the claim PDA is per signer)
+      if (seen.has(recipient.publicKey)) {
+        fail(
+          `${path}.publicKey`,
+          `Duplicate of $.recipients[${seen.get(
+            recipient.publicKey
+          )}] (run normalize-recipients.ts to merge)`
+        );
+        recipientsValid = false;
+      } else {
+        seen.set(recipient.publicKey, i);
+      }
     } catch {
-      console.error(`Invalid public key at index ${i}: ${recipient.publicKey}`);
-      return false;
+      fail(
+        `${path}.publicKey`,
+        `Invalid public key ${JSON.stringify(recipient.publicKey)}`
+      );
+      recipientsValid = false;
     }
 
-    // Check amount is a valid number
-    const amount = parseInt(recipient.amount);
-    if (isNaN(amount) || amount <= 0) {
-      console.error(`Invalid amount at index ${i}: ${recipient.amount}`);
-      return false;
+    if (typeof recipient.amount !== "string") {
+      fail(`${path}.amount`, "Expected a lamport amount as a string");
+      recipientsValid = false;
+    } else {
+      try {
+        const amount = parseLamports(recipient.amount);
+        if (amount === BigInt(0)) {
+          throw new Error("Amount must be greater than zero");
+        }
+        calculatedTotal += amount;
+      } catch (error) {
+        fail(`${path}.amount`, error.message);
+        recipientsValid = false;
+      }
     }
 
-    // Check index matches array position
     if (recipient.index !== i) {
-      console.error(
-        `Index mismatch at position ${i}: expected ${i}, got ${recipient.index}`
+      fail(
+        `${path}.index`,
+        `Expected ${i}, got ${JSON.stringify(
+          recipient.index
+        )} (run normalize-recipients.ts to reassign)`
       );
-      return false;
+      recipientsValid = false;
     }
-  }
 
-  // Validate total amount matches sum of individual amounts
-  const calculatedTotal = data.recipients.reduce(
-    (sum, r) => sum + parseInt(r.amount),
-    0
-  );
-  const fileTotal = parseInt(data.totalAmount);
+    if (
+      recipient.description !== undefined &&
+      typeof recipient.description !== "string"
+    ) {
+      fail(`${path}.description`, "Expected a string");
+    }
 
-  if (calculatedTotal !== fileTotal) {
-    console.error(
-      `Total amount mismatch: calculated ${calculatedTotal}, file says ${fileTotal}`
+    if (
+      recipient.earlyAccess !== undefined &&
+      typeof recipient.earlyAccess !== "boolean"
+    ) {
+      fail(`${path}.earlyAccess`, "Expected a boolean");
+    }
+  });
+
+  if (recipientsValid && fileTotal !== null) {
+    try {
+      parseLamports(calculatedTotal, "Sum of recipient amounts");
+      if (calculatedTotal !== fileTotal) {
+        fail(
+          "$.totalAmount",
+          `Does not match the sum of recipient amounts (${calculatedTotal})`
+        );
+      }
+    } catch (error) {
+      fail("$.totalAmount", error.message);
+    }
+  }
+
+  // Strict mode: the published root must be the root of these recipients
+  if (options.strict && errors.length === 0) {
+    const merkleTree = new SimpleMerkleTree(
+      convertRecipientsForMerkleTree(data.recipients),
+      data.metadata.algorithm
     );
+    if (merkleTree.getRootHex() !== data.merkleRoot.toLowerCase()) {
+      fail(
+        "$.merkleRoot",
+        `Computed root ${merkleTree.getRootHex()} does not match (run generate-merkle-tree.ts)`
+      );
+    }
+
+    const tier = earlyAccessRecipients(data.recipients);
+    const earlyRoot =
+      tier.length > 0
+        ? new SimpleMerkleTree(
+            convertRecipientsForMerkleTree(tier),
+            data.metadata.algorithm
+          ).getRootHex()
+        : undefined;
+    if (earlyRoot !== data.earlyAccessRoot?.toLowerCase()) {
+      fail(
+        "$.earlyAccessRoot",
+        earlyRoot
+          ? `Computed early tier root ${earlyRoot} does not match (run generate-merkle-tree.ts)`
+          : "No recipient has earlyAccess (run generate-merkle-tree.ts)"
+      );
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// Human readable report of a validation result
+export function formatValidationResult(
+  result: ValidationResult,
+  source: string = "Recipients file"
+): string {
+  if (result.valid) {
+    return `✅ ${source} is valid`;
+  }
+  return [
+    `❌ ${source} has ${result.errors.length} problem${
+      result.errors.length === 1 ? "" : "s"
+    }:`,
+    ...result.errors.map((e) => `   ${e.path}: ${e.message}`),
+  ].join("\n");
+}
+
+// Throw with the full report unless the file is valid; scripts call this
+// before sending anything to the chain
+export function assertValidRecipients(
+  data: unknown,
+  options: ValidationOptions & { source?: string } = {}
+) {
+  const result = validateRecipientsData(data, options);
+  if (!result.valid) {
+    throw new Error(formatValidationResult(result, options.source));
+  }
+}
+
+// Validate recipients file
+export function validateRecipientsFile(data: RecipientsFile): boolean {
+  const result = validateRecipientsData(data);
+  if (!result.valid) {
+    console.error(formatValidationResult(result));
     return false;
   }
 
@@ -144,7 +487,7 @@ export function exampleUsage() {
 
     if (foundRecipient) {
       console.log(`Found recipient: ${foundRecipient.description}`);
-      console.log(`Amount: ${parseInt(foundRecipient.amount) / 1e9} SOL`);
+      console.log(`Amount: ${formatSol(foundRecipient.amount)} SOL`);
       console.log(`Index: ${foundRecipient.index}`);
     }
 
@@ -0,0 +1,371 @@
+import * as anchor from "@coral-xyz/anchor";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import {
+  ManifestSignature,
+  RecipientsFile,
+  assertValidRecipients,
+  loadRecipients,
+} from "./load-recipients";
+import { parseLamports } from "./amounts";
+import { findAirdropStatePda } from "./pda";
+
+// Domain separator so a manifest signature can never be replayed as a
+// transaction or another message signed by the same authority key
+export const MANIFEST_DOMAIN = "solana-distributor/manifest/v2";
+
+// The AirdropState fields a manifest is checked against
+export interface OnChainAirdropState {
+  authority: PublicKey;
+  merkleRoot: number[];
+  // PublicKey.default for SOL airdrops
+  mint?: PublicKey;
+  // All zero when there is no early access phase
+  phases?: { earlyRoot: number[] };
+}
+
+export interface ManifestVerification {
+  valid: boolean;
+  signer?: string;
+  reason?: string;
+}
+
+// 32-byte root from 0x hex, named in the error when it is malformed
+function rootBytes(root: string, field: string): Buffer {
+  const bytes = Buffer.from(root.replace(/^0x/, ""), "hex");
+  if (bytes.length !== 32) {
+    throw new Error(`${field} "${root}" is not 32 bytes`);
+  }
+  return bytes;
+}
+
+// Canonical manifest bytes: domain || u32 LE airdropId length || airdropId
+// (UTF-8) || programId (32) || merkleRoot (32) || totalAmount (u64 LE) ||
+// mint (32, PublicKey.default for SOL), plus earlyAccessRoot (32) when the
+// file has an early access tier. The mint is always written, so a token
+// airdrop's mint can't be read as an early access root.
+export function manifestMessage(data: RecipientsFile): Buffer {
+  let programId: PublicKey;
+  try {
+    programId = new PublicKey(data.programId);
+  } catch {
+    throw new Error(
+      `programId "${data.programId}" is not a public key; sign after deployment`
+    );
+  }
+  const root = rootBytes(data.merkleRoot, "merkleRoot");
+  const mint = data.mint ? new PublicKey(data.mint) : PublicKey.default;
+
+  const airdropId = Buffer.from(data.airdropId, "utf8");
+  const airdropIdLength = Buffer.alloc(4);
+  airdropIdLength.writeUInt32LE(airdropId.length);
+  const totalAmount = Buffer.alloc(8);
+  totalAmount.writeBigUInt64LE(parseLamports(data.totalAmount, "totalAmount"));
+
+  return Buffer.concat([
+    Buffer.from(MANIFEST_DOMAIN, "utf8"),
+    airdropIdLength,
+    airdropId,
+    programId.toBuffer(),
+    root,
+    totalAmount,
+    mint.toBuffer(),
+    ...(data.earlyAccessRoot
+      ? [rootBytes(data.earlyAccessRoot, "earlyAccessRoot")]
+      : []),
+  ]);
+}
+
+export function manifestHash(data: RecipientsFile): Buffer {
+  return crypto.createHash("sha256").update(manifestMessage(data)).digest();
+}
+
+// Node's crypto takes ed25519 keys as JWK; a Solana secret key is seed || public key
+function ed25519PrivateKey(keypair: Keypair): crypto.KeyObject {
+  return crypto.createPrivateKey({
+    key: {
+      kty: "OKP",
+      crv: "Ed25519",
+      d: Buffer.from(keypair.secretKey.slice(0, 32)).toString("base64url"),
+      x: keypair.publicKey.toBuffer().toString("base64url"),
+    },
+    format: "jwk",
+  });
+}
+
+function ed25519PublicKey(publicKey: PublicKey): crypto.KeyObject {
+  return crypto.createPublicKey({
+    key: {
+      kty: "OKP",
+      crv: "Ed25519",
+      x: publicKey.toBuffer().toString("base64url"),
+    },
+    format: "jwk",
+  });
+}
+
+// Sign the manifest with the authority key; returns a copy of the file with
+// metadata.signature set
+export function signManifest(
+  data: RecipientsFile,
+  authority: Keypair
+): RecipientsFile {
+  const hash = manifestHash(data);
+  const signature: ManifestSignature = {
+    scheme: "ed25519",
+    signer: authority.publicKey.toString(),
+    manifestHash: hash.toString("hex"),
+    signature: bs58.encode(
+      crypto.sign(null, hash, ed25519PrivateKey(authority))
+    ),
+    signedAt: new Date().toISOString(),
+  };
+
+  return { ...data, metadata: { ...data.metadata, signature } };
+}
+
+// Check metadata.signature against the file's current contents and,
+// when given, the expected authority
+export function verifyManifestSignature(
+  data: RecipientsFile,
+  expectedAuthority?: PublicKey | string
+): ManifestVerification {
+  const signature = data.metadata?.signature;
+  if (!signature) {
+    return { valid: false, reason: "File is not signed" };
+  }
+
+  try {
+    const hash = manifestHash(data);
+    if (hash.toString("hex") !== signature.manifestHash) {
+      return {
+        valid: false,
+        signer: signature.signer,
+        reason:
+          "Manifest hash does not match the file (root, early access root, airdropId, programId, totalAmount or mint changed)",
+      };
+    }
+
+    const signer = new PublicKey(signature.signer);
+    if (
+      !crypto.verify(
+        null,
+        hash,
+        ed25519PublicKey(signer),
+        Buffer.from(bs58.decode(signature.signature))
+      )
+    ) {
+      return {
+        valid: false,
+        signer: signature.signer,
+        reason: "Signature is not valid for the signer",
+      };
+    }
+
+    if (
+      expectedAuthority &&
+      !signer.equals(new PublicKey(expectedAuthority.toString()))
+    ) {
+      return {
+        valid: false,
+        signer: signature.signer,
+        reason: `Signed by ${
+          signature.signer
+        }, not the authority ${expectedAuthority.toString()}`,
+      };
+    }
+  } catch (error) {
+    return { valid: false, signer: signature.signer, reason: error.message };
+  }
+
+  return { valid: true, signer: signature.signer };
+}
+
+// Verify against the on-chain AirdropState: the signer must be the current
+// authority and the signed roots must be the ones claims are checked against.
+// A file's early tier that was deployed without an early phase is unused
+// on-chain, so only an on-chain early root has to match.
+export function verifyManifestAgainstState(
+  data: RecipientsFile,
+  state: OnChainAirdropState
+): ManifestVerification {
+  const result = verifyManifestSignature(data, state.authority);
+  if (!result.valid) {
+    return result;
+  }
+
+  const onChainRoot = Buffer.from(state.merkleRoot).toString("hex");
+  if (onChainRoot !== data.merkleRoot.replace(/^0x/, "").toLowerCase()) {
+    return {
+      ...result,
+      valid: false,
+      reason: `Signed root does not match the on-chain root 0x${onChainRoot}`,
+    };
+  }
+
+  const onChainEarlyRoot = state.phases?.earlyRoot.some((byte) => byte !== 0)
+    ? Buffer.from(state.phases.earlyRoot).toString("hex")
+    : undefined;
+  if (
+    onChainEarlyRoot &&
+    onChainEarlyRoot !== data.earlyAccessRoot?.replace(/^0x/, "").toLowerCase()
+  ) {
+    return {
+      ...result,
+      valid: false,
+      reason: `Signed early access root ${
+        data.earlyAccessRoot || "(none)"
+      } does not match the on-chain early root 0x${onChainEarlyRoot}`,
+    };
+  }
+
+  const signedMint = data.mint ? new PublicKey(data.mint) : PublicKey.default;
+  if (state.mint && !state.mint.equals(signedMint)) {
+    return {
+      ...result,
+      valid: false,
+      reason: `Signed mint ${signedMint.toString()} does not match the on-chain mint ${state.mint.toString()}`,
+    };
+  }
+
+  return result;
+}
+
+// Refuse to go on with a file whose signature does not check out on-chain.
+// Unsigned files are only accepted when requireSignature is false.
+export function assertManifestAgainstState(
+  data: RecipientsFile,
+  state: OnChainAirdropState,
+  options: { requireSignature?: boolean } = {}
+) {
+  if (!data.metadata?.signature && !options.requireSignature) {
+    console.log(
+      "⚠️  Recipients file is not signed by the authority; proof data is unverified"
+    );
+    return;
+  }
+
+  const result = verifyManifestAgainstState(data, state);
+  if (!result.valid) {
+    throw new Error(`Recipients manifest rejected: ${result.reason}`);
+  }
+  console.log(`🔏 Manifest signed by on-chain authority ${result.signer}`);
+}
+
+// Sign a recipients file on disk in place
+export function signRecipientsFile(
+  recipientsFile: string = "recipients.json",
+  keypairFile: string = "test-wallet-1.json"
+): ManifestSignature {
+  try {
+    console.log(`🔏 Signing ${recipientsFile}...`);
+
+    const data = loadRecipients(recipientsFile);
+    assertValidRecipients(data, { strict: true, source: recipientsFile });
+    const authority = Keypair.fromSecretKey(
+      Uint8Array.from(JSON.parse(fs.readFileSync(keypairFile, "utf8")))
+    );
+
+    const signed = signManifest(data, authority);
+    fs.writeFileSync(recipientsFile, JSON.stringify(signed, null, 2));
+
+    const { signature } = signed.metadata;
+    console.log(`✅ Signed by ${signature.signer}`);
+    console.log(`   Manifest hash: ${signature.manifestHash}`);
+    return signature;
+  } catch (error) {
+    console.error("❌ Error signing recipients file:", error);
+    throw error;
+  }
+}
+
+// Verify a recipients file on disk, offline against an expected authority or
+// against the on-chain AirdropState
+export async function verifyRecipientsFile(
+  recipientsFile: string = "recipients.json",
+  options: { onChain?: boolean; authority?: string } = {}
+): Promise<ManifestVerification> {
+  console.log(`🔍 Verifying manifest signature of ${recipientsFile}...`);
+  const data = loadRecipients(recipientsFile);
+
+  let result: ManifestVerification;
+  if (options.onChain) {
+    const provider = anchor.AnchorProvider.env();
+    anchor.setProvider(provider);
+    const program = anchor.workspace.SolanaDistributor;
+    const airdropStatePda = findAirdropStatePda(
+      program.programId,
+      data.airdropId
+    );
+    result = verifyManifestAgainstState(
+      data,
+      await program.account.airdropState.fetch(airdropStatePda)
+    );
+  } else {
+    result = verifyManifestSignature(data, options.authority);
+  }
+
+  if (result.valid) {
+    console.log(`✅ Valid signature by ${result.signer}`);
+    if (!options.onChain && !options.authority) {
+      console.log(
+        "⚠️  Signer not checked against the authority; use --onchain or --authority"
+      );
+    }
+  } else {
+    console.log(`❌ Invalid: ${result.reason}`);
+  }
+  return result;
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const valueFlags = ["--keypair", "--authority"];
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const [command, recipientsFile] = args.filter(
+    (arg, i) => !arg.startsWith("--") && !valueFlags.includes(args[i - 1])
+  );
+
+  if (command === "sign") {
+    try {
+      signRecipientsFile(recipientsFile, flag("--keypair"));
+      process.exit(0);
+    } catch (error) {
+      console.error("💥 Failed:", error.message);
+      process.exit(1);
+    }
+  } else if (command === "verify") {
+    const onChain = args.includes("--onchain");
+    if (onChain && !process.env.ANCHOR_PROVIDER_URL) {
+      process.env.ANCHOR_PROVIDER_URL = "https://api.devnet.solana.com";
+    }
+    if (onChain && !process.env.ANCHOR_WALLET) {
+      process.env.ANCHOR_WALLET = "test-wallet-1.json";
+    }
+
+    verifyRecipientsFile(recipientsFile, {
+      onChain,
+      authority: flag("--authority"),
+    })
+      .then((result) => process.exit(result.valid ? 0 : 1))
+      .catch((error) => {
+        console.error("💥 Failed:", error);
+        process.exit(1);
+      });
+  } else {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/manifest-signature.ts sign [recipients.json] [--keypair <authority.json>]"
+    );
+    console.log(
+      "  ts-node scripts/manifest-signature.ts verify [recipients.json] [--onchain | --authority <pubkey>]"
+    );
+    process.exit(1);
+  }
+}
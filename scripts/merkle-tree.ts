@@ -0,0 +1,383 @@
+import { createHash } from "crypto";
+import { PublicKey } from "@solana/web3.js";
+import { keccak_256 } from "js-sha3";
+import { parseLamports } from "./amounts";
+
+// Hash function used for both leaves and internal nodes
+export type HashFunction = "keccak256" | "sha256";
+
+// How the tree is hashed, recorded in RecipientsFile.metadata.algorithm as
+// "<hash>" for index-ordered pairs or "<hash>-sorted" for sorted pairs
+export interface MerkleTreeOptions {
+  hash: HashFunction;
+  sortPairs: boolean;
+}
+
+// The only algorithm the on-chain verify_merkle_proof understands
+export const ON_CHAIN_ALGORITHM = "keccak256";
+export const DEFAULT_ALGORITHM = ON_CHAIN_ALGORITHM;
+export const SUPPORTED_ALGORITHMS = [
+  "keccak256",
+  "keccak256-sorted",
+  "sha256",
+  "sha256-sorted",
+];
+
+export const LEAF_FORMAT = "recipient_pubkey(32) + amount(8) + is_claimed(1)";
+
+export interface Recipient {
+  recipient: PublicKey;
+  amount: bigint;
+}
+
+// Proof for several leaves at once. Leaves are listed in ascending index
+// order; each hashing step consumes one flag: true pairs the current node with
+// the next known node, false takes its sibling from proof.
+export interface MultiProof {
+  leafIndices: number[];
+  proof: Uint8Array[];
+  proofFlags: boolean[];
+}
+
+// Parse an algorithm name (e.g. "keccak256-sorted") into tree options
+export function parseAlgorithm(
+  algorithm: string = DEFAULT_ALGORITHM
+): MerkleTreeOptions {
+  if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+    throw new Error(
+      `Unsupported merkle algorithm "${algorithm}" (supported: ${SUPPORTED_ALGORITHMS.join(
+        ", "
+      )})`
+    );
+  }
+
+  const [hash, ordering] = algorithm.split("-");
+  return {
+    hash: hash as HashFunction,
+    sortPairs: ordering === "sorted",
+  };
+}
+
+// Inverse of parseAlgorithm
+export function formatAlgorithm(options: MerkleTreeOptions): string {
+  return options.sortPairs ? `${options.hash}-sorted` : options.hash;
+}
+
+// Throw if proofs built with this algorithm would be rejected on-chain
+export function assertOnChainAlgorithm(algorithm: string = DEFAULT_ALGORITHM) {
+  if (algorithm !== ON_CHAIN_ALGORITHM) {
+    throw new Error(
+      `Merkle algorithm "${algorithm}" cannot be verified by the on-chain program (expects "${ON_CHAIN_ALGORITHM}")`
+    );
+  }
+}
+
+function toOptions(
+  options: MerkleTreeOptions | string = DEFAULT_ALGORITHM
+): MerkleTreeOptions {
+  return typeof options === "string" ? parseAlgorithm(options) : options;
+}
+
+function hash(data: Buffer, hashFunction: HashFunction): Uint8Array {
+  if (hashFunction === "sha256") {
+    return new Uint8Array(createHash("sha256").update(data).digest());
+  }
+  return new Uint8Array(keccak_256.arrayBuffer(data));
+}
+
+// Leaf hash: hash(recipient_pubkey(32) + amount(8, little endian) + is_claimed(1)).
+// Throws if the amount is not a whole number of lamports within u64.
+export function createLeaf(
+  recipient: PublicKey,
+  amount: bigint | number | string,
+  options: MerkleTreeOptions | string = DEFAULT_ALGORITHM
+): Uint8Array {
+  const data = Buffer.alloc(32 + 8 + 1); // isClaimed = false
+  recipient.toBuffer().copy(data, 0);
+  data.writeBigUInt64LE(parseLamports(amount), 32);
+  return hash(data, toOptions(options).hash);
+}
+
+// Parent hash of two nodes; sorted mode orders the pair by byte value
+export function hashPair(
+  left: Uint8Array,
+  right: Uint8Array,
+  options: MerkleTreeOptions | string = DEFAULT_ALGORITHM
+): Uint8Array {
+  const { hash: hashFunction, sortPairs } = toOptions(options);
+  let first = Buffer.from(left);
+  let second = Buffer.from(right);
+
+  if (sortPairs && Buffer.compare(first, second) > 0) {
+    [first, second] = [second, first];
+  }
+
+  return hash(Buffer.concat([first, second]), hashFunction);
+}
+
+// Recompute the root from a leaf and its proof. In index-ordered mode this
+// mirrors verify_merkle_proof in lib.rs: the index parity decides whether the
+// running hash goes left or right. Sorted mode ignores the index.
+export function computeRootFromProof(
+  leaf: Uint8Array,
+  proof: Array<Uint8Array | number[]>,
+  leafIndex: number,
+  options: MerkleTreeOptions | string = DEFAULT_ALGORITHM
+): Uint8Array {
+  const treeOptions = toOptions(options);
+  let computedHash: Uint8Array = new Uint8Array(leaf);
+  let index = leafIndex;
+
+  for (const proofElement of proof) {
+    const sibling = new Uint8Array(proofElement);
+    computedHash =
+      index % 2 === 0
+        ? hashPair(computedHash, sibling, treeOptions)
+        : hashPair(sibling, computedHash, treeOptions);
+    index = Math.floor(index / 2);
+  }
+
+  return computedHash;
+}
+
+// Check a proof against an expected root (bytes or 0x-prefixed hex)
+export function verifyProof(
+  leaf: Uint8Array,
+  proof: Array<Uint8Array | number[]>,
+  leafIndex: number,
+  root: Uint8Array | string,
+  options: MerkleTreeOptions | string = DEFAULT_ALGORITHM
+): boolean {
+  const expectedRoot =
+    typeof root === "string"
+      ? Buffer.from(root.replace("0x", ""), "hex")
+      : Buffer.from(root);
+  const computedRoot = Buffer.from(
+    computeRootFromProof(leaf, proof, leafIndex, options)
+  );
+
+  return expectedRoot.length === 32 && computedRoot.equals(expectedRoot);
+}
+
+// Recompute the root from several leaves and their multiproof. Mirrors
+// verify_merkle_multiproof in lib.rs: known nodes are processed level by level
+// in index order, and each parent is placed by the child's index parity.
+export function computeRootFromMultiProof(
+  leaves: Uint8Array[],
+  leafIndices: number[],
+  proof: Array<Uint8Array | number[]>,
+  proofFlags: boolean[],
+  options: MerkleTreeOptions | string = DEFAULT_ALGORITHM
+): Uint8Array {
+  const treeOptions = toOptions(options);
+
+  if (leaves.length === 0 || leaves.length !== leafIndices.length) {
+    throw new Error("Multiproof needs one leaf index per leaf");
+  }
+  for (let i = 1; i < leafIndices.length; i++) {
+    if (leafIndices[i] <= leafIndices[i - 1]) {
+      throw new Error("Multiproof leaf indices must be strictly ascending");
+    }
+  }
+
+  let current: { index: number; hash: Uint8Array }[] = leaves.map(
+    (leaf, i) => ({ index: leafIndices[i], hash: new Uint8Array(leaf) })
+  );
+  let next: { index: number; hash: Uint8Array }[] = [];
+  let proofPosition = 0;
+
+  for (const flag of proofFlags) {
+    if (current.length === 0) {
+      current = next;
+      next = [];
+    }
+
+    const node = current.shift();
+    let parent: Uint8Array;
+
+    if (flag) {
+      const sibling = current.shift();
+      if (
+        !sibling ||
+        node.index % 2 !== 0 ||
+        sibling.index !== node.index + 1
+      ) {
+        throw new Error("Multiproof flags do not match the leaf indices");
+      }
+      parent = hashPair(node.hash, sibling.hash, treeOptions);
+    } else {
+      if (proofPosition >= proof.length) {
+        throw new Error("Multiproof ran out of proof nodes");
+      }
+      const sibling = new Uint8Array(proof[proofPosition++]);
+      parent =
+        node.index % 2 === 0
+          ? hashPair(node.hash, sibling, treeOptions)
+          : hashPair(sibling, node.hash, treeOptions);
+    }
+
+    next.push({ index: Math.floor(node.index / 2), hash: parent });
+  }
+
+  const remaining = current.concat(next);
+  if (remaining.length !== 1 || proofPosition !== proof.length) {
+    throw new Error("Multiproof does not reduce to a single root");
+  }
+
+  return remaining[0].hash;
+}
+
+// Check a multiproof against an expected root (bytes or 0x-prefixed hex)
+export function verifyMultiProof(
+  leaves: Uint8Array[],
+  leafIndices: number[],
+  proof: Array<Uint8Array | number[]>,
+  proofFlags: boolean[],
+  root: Uint8Array | string,
+  options: MerkleTreeOptions | string = DEFAULT_ALGORITHM
+): boolean {
+  const expectedRoot =
+    typeof root === "string"
+      ? Buffer.from(root.replace("0x", ""), "hex")
+      : Buffer.from(root);
+
+  let computedRoot: Buffer;
+  try {
+    computedRoot = Buffer.from(
+      computeRootFromMultiProof(leaves, leafIndices, proof, proofFlags, options)
+    );
+  } catch (error) {
+    return false;
+  }
+
+  return expectedRoot.length === 32 && computedRoot.equals(expectedRoot);
+}
+
+export class SimpleMerkleTree {
+  public root: Uint8Array;
+  public readonly options: MerkleTreeOptions;
+  private leaves: Uint8Array[];
+  private tree: Uint8Array[][];
+
+  constructor(
+    recipients: Recipient[],
+    options: MerkleTreeOptions | string = DEFAULT_ALGORITHM
+  ) {
+    this.options = toOptions(options);
+
+    // Create leaves
+    this.leaves = recipients.map((r) =>
+      createLeaf(r.recipient, r.amount, this.options)
+    );
+
+    // Build tree
+    this.tree = [this.leaves];
+    let currentLevel = this.leaves;
+
+    while (currentLevel.length > 1) {
+      const nextLevel: Uint8Array[] = [];
+
+      for (let i = 0; i < currentLevel.length; i += 2) {
+        const left = currentLevel[i];
+        const right = i + 1 < currentLevel.length ? currentLevel[i + 1] : left;
+        const parent = hashPair(left, right, this.options);
+        nextLevel.push(parent);
+      }
+
+      this.tree.push(nextLevel);
+      currentLevel = nextLevel;
+    }
+
+    this.root = currentLevel[0];
+  }
+
+  public getProof(leafIndex: number): Uint8Array[] {
+    const proof: Uint8Array[] = [];
+    let index = leafIndex;
+
+    for (let level = 0; level < this.tree.length - 1; level++) {
+      const currentLevel = this.tree[level];
+      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+
+      if (siblingIndex < currentLevel.length) {
+        proof.push(currentLevel[siblingIndex]);
+      } else {
+        // Odd node was hashed with itself, so it is its own sibling
+        proof.push(currentLevel[index]);
+      }
+
+      index = Math.floor(index / 2);
+    }
+
+    return proof;
+  }
+
+  // Minimal set of sibling nodes needed to prove several leaves together;
+  // siblings that can be computed from the other leaves are left out
+  public getMultiProof(leafIndices: number[]): MultiProof {
+    const sorted = Array.from(new Set(leafIndices)).sort((a, b) => a - b);
+    if (sorted.length === 0) {
+      throw new Error("Multiproof needs at least one leaf index");
+    }
+    for (const index of sorted) {
+      if (
+        !Number.isInteger(index) ||
+        index < 0 ||
+        index >= this.leaves.length
+      ) {
+        throw new Error(`Leaf index ${index} out of range`);
+      }
+    }
+
+    const proof: Uint8Array[] = [];
+    const proofFlags: boolean[] = [];
+    let known = sorted;
+
+    for (let level = 0; level < this.tree.length - 1; level++) {
+      const currentLevel = this.tree[level];
+      const parents: number[] = [];
+
+      for (let i = 0; i < known.length; i++) {
+        const index = known[i];
+
+        if (index % 2 === 0 && known[i + 1] === index + 1) {
+          // Both children are known, so the sibling costs nothing
+          proofFlags.push(true);
+          i++;
+        } else {
+          const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+          // Odd node was hashed with itself, so it is its own sibling
+          proof.push(
+            currentLevel[
+              siblingIndex < currentLevel.length ? siblingIndex : index
+            ]
+          );
+          proofFlags.push(false);
+        }
+
+        parents.push(Math.floor(index / 2));
+      }
+
+      known = parents;
+    }
+
+    return { leafIndices: sorted, proof, proofFlags };
+  }
+
+  public getRootHex(): string {
+    return "0x" + Buffer.from(this.root).toString("hex");
+  }
+
+  public getLeafCount(): number {
+    return this.leaves.length;
+  }
+
+  // All levels, leaves first and root last
+  public getLevels(): Uint8Array[][] {
+    return this.tree;
+  }
+
+  public getAlgorithm(): string {
+    return formatAlgorithm(this.options);
+  }
+}
@@ -0,0 +1,225 @@
+import * as fs from "fs";
+import { PublicKey } from "@solana/web3.js";
+import { Recipient, RecipientsFile, loadRecipients } from "./load-recipients";
+import { parseLamports, sumLamports } from "./amounts";
+
+export interface MergedRecipient {
+  publicKey: string;
+  // Number of entries that were folded into one
+  count: number;
+  amounts: string[];
+  amount: string;
+}
+
+export interface NormalizeReport {
+  originalCount: number;
+  normalizedCount: number;
+  merged: MergedRecipient[];
+  // Recipients whose index differs from the one in the input file
+  reindexed: number;
+  oldTotal: string;
+  newTotal: string;
+  changed: boolean;
+}
+
+// Canonical form of a recipients file: one entry per public key (amounts
+// summed), sorted by public key bytes, indices equal to array positions and
+// totalAmount equal to the sum of amounts. The claim PDA is derived from the
+// signer alone, so a duplicated key could only ever claim one of its entries.
+export function normalizeRecipients(data: RecipientsFile): {
+  data: RecipientsFile;
+  report: NormalizeReport;
+} {
+  const byKey = new Map<
+    string,
+    { key: Buffer; entries: Recipient[]; amount: bigint }
+  >();
+
+  data.recipients.forEach((recipient, i) => {
+    let key: Buffer;
+    try {
+      key = new PublicKey(recipient.publicKey).toBuffer();
+    } catch {
+      throw new Error(
+        `Invalid public key at position ${i}: ${recipient.publicKey}`
+      );
+    }
+    let amount: bigint;
+    try {
+      amount = parseLamports(recipient.amount);
+    } catch (error) {
+      throw new Error(`Invalid amount at position ${i}: ${error.message}`);
+    }
+
+    const publicKey = new PublicKey(key).toString();
+    const group = byKey.get(publicKey) || {
+      key,
+      entries: [],
+      amount: BigInt(0),
+    };
+    group.entries.push(recipient);
+    group.amount = parseLamports(
+      group.amount + amount,
+      `Merged amount for ${publicKey}`
+    );
+    byKey.set(publicKey, group);
+  });
+
+  const groups = [...byKey.entries()].sort(([, a], [, b]) =>
+    Buffer.compare(a.key, b.key)
+  );
+
+  const merged: MergedRecipient[] = [];
+  let reindexed = 0;
+
+  const recipients: Recipient[] = groups.map(([publicKey, group], index) => {
+    if (group.entries.length > 1) {
+      merged.push({
+        publicKey,
+        count: group.entries.length,
+        amounts: group.entries.map((r) => String(r.amount)),
+        amount: group.amount.toString(),
+      });
+    }
+    if (group.entries.length > 1 || group.entries[0].index !== index) {
+      reindexed++;
+    }
+
+    const descriptions = Array.from(
+      new Set(group.entries.map((r) => r.description).filter(Boolean))
+    );
+    const recipient: Recipient = {
+      publicKey,
+      amount: group.amount.toString(),
+      index,
+    };
+    if (descriptions.length > 0) {
+      recipient.description = descriptions.join("; ");
+    }
+    if (group.entries.some((r) => r.earlyAccess)) {
+      recipient.earlyAccess = true;
+    }
+    return recipient;
+  });
+
+  const newTotal = sumLamports(recipients.map((r) => r.amount)).toString();
+
+  const normalized: RecipientsFile = {
+    ...data,
+    totalAmount: newTotal,
+    recipients,
+  };
+
+  const changed =
+    JSON.stringify(normalized.recipients) !== JSON.stringify(data.recipients) ||
+    newTotal !== String(data.totalAmount);
+
+  return {
+    data: normalized,
+    report: {
+      originalCount: data.recipients.length,
+      normalizedCount: recipients.length,
+      merged,
+      reindexed,
+      oldTotal: String(data.totalAmount),
+      newTotal,
+      changed,
+    },
+  };
+}
+
+export function printNormalizeReport(report: NormalizeReport) {
+  console.log("📊 Normalization report:");
+  console.log(
+    `   Recipients: ${report.originalCount} → ${report.normalizedCount}`
+  );
+  console.log(`   Duplicate keys merged: ${report.merged.length}`);
+  report.merged.forEach((m) =>
+    console.log(
+      `     ${m.publicKey} x${m.count}: ${m.amounts.join(" + ")} = ${
+        m.amount
+      } lamports`
+    )
+  );
+  console.log(`   Entries moved or reindexed: ${report.reindexed}`);
+  console.log(
+    `   Total amount: ${report.oldTotal} → ${report.newTotal} lamports${
+      report.oldTotal !== report.newTotal ? " ⚠️  changed" : ""
+    }`
+  );
+  if (!report.changed) {
+    console.log("   File is already normalized");
+  }
+}
+
+// Normalize a recipients file on disk (in place unless outputFile is given)
+export function normalizeRecipientsFile(
+  recipientsFile: string = "recipients.json",
+  options: { outputFile?: string; dryRun?: boolean } = {}
+): NormalizeReport {
+  try {
+    console.log(`🧹 Normalizing ${recipientsFile}...`);
+
+    const { data, report } = normalizeRecipients(
+      loadRecipients(recipientsFile)
+    );
+    printNormalizeReport(report);
+
+    if (options.dryRun) {
+      console.log("🔎 Dry run, nothing written");
+      return report;
+    }
+
+    const outputFile = options.outputFile || recipientsFile;
+    if (report.changed || outputFile !== recipientsFile) {
+      fs.writeFileSync(outputFile, JSON.stringify(data, null, 2));
+      console.log(`💾 Normalized recipients written to ${outputFile}`);
+    }
+    if (report.changed) {
+      console.log(
+        "⚠️  merkleRoot is now stale; run generate-merkle-tree.ts before use"
+      );
+    }
+
+    return report;
+  } catch (error) {
+    console.error("❌ Error normalizing recipients:", error);
+    throw error;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const outFlag = args.indexOf("--out");
+
+  if (args.includes("--help")) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/normalize-recipients.ts [recipients.json] [--out <file>] [--dry-run]"
+    );
+    console.log("");
+    console.log("📝 Examples:");
+    console.log("  ts-node scripts/normalize-recipients.ts --dry-run");
+    console.log(
+      "  ts-node scripts/normalize-recipients.ts raw.json --out recipients.json"
+    );
+    process.exit(0);
+  }
+
+  const positional = args.filter(
+    (arg, i) => !arg.startsWith("--") && args[i - 1] !== "--out"
+  );
+
+  try {
+    normalizeRecipientsFile(positional[0], {
+      outputFile: outFlag !== -1 ? args[outFlag + 1] : undefined,
+      dryRun: args.includes("--dry-run"),
+    });
+    console.log("🎉 Normalization completed!");
+    process.exit(0);
+  } catch (error) {
+    console.error("💥 Failed:", error);
+    process.exit(1);
+  }
+}
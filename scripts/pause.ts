@@ -0,0 +1,155 @@
+import * as fs from "fs";
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import { SolanaDistributor } from "../target/types/solana_distributor";
+import { loadRecipients } from "./load-recipients";
+import { campaignFlag } from "./campaigns";
+import { DistributorClient } from "./distributor-client";
+
+export interface PauseResult {
+  before: boolean;
+  // Read back after sending; equal to before when nothing was sent
+  after: boolean;
+  // Unsigned transaction (base64) when written for another authority
+  transaction: string | null;
+  signature: string | null;
+}
+
+const formatPaused = (paused: boolean) =>
+  paused ? "⏸️  paused" : "▶️  open (not paused)";
+
+// Pause or resume every claim of an airdrop, showing the state before and
+// after. With outFile the unsigned transaction is written for the on-chain
+// authority to sign instead of being sent with ANCHOR_WALLET.
+export async function setClaimsPaused(
+  recipientsFile: string = "recipients.json",
+  paused: boolean,
+  options: { outFile?: string } = {}
+): Promise<PauseResult> {
+  try {
+    console.log(`${paused ? "⏸️  Pausing" : "▶️  Unpausing"} claims...`);
+    const recipientsData = loadRecipients(recipientsFile);
+
+    // Set up Anchor
+    const provider = anchor.AnchorProvider.env();
+    anchor.setProvider(provider);
+
+    const program = anchor.workspace
+      .SolanaDistributor as Program<SolanaDistributor>;
+
+    const client = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      recipientsData.airdropId,
+      provider.opts
+    );
+    const airdropState = await client.getAirdropState();
+    if (!airdropState) {
+      throw new Error("Airdrop is not initialized");
+    }
+
+    console.log(
+      `🏛️  Airdrop ${
+        recipientsData.airdropId
+      }: ${client.airdropStatePda.toString()}`
+    );
+    console.log(`👤 Authority: ${airdropState.authority.toString()}`);
+    console.log(`   Before: ${formatPaused(airdropState.paused)}`);
+
+    const result: PauseResult = {
+      before: airdropState.paused,
+      after: airdropState.paused,
+      transaction: null,
+      signature: null,
+    };
+    if (airdropState.paused === paused) {
+      console.log(`ℹ️  Claims are already ${paused ? "paused" : "open"}`);
+      return result;
+    }
+
+    if (options.outFile) {
+      // Unsigned transaction for the authority to review, sign and send
+      const tx = await client.buildSetPausedTx(paused, airdropState.authority);
+      result.transaction = tx
+        .serialize({ requireAllSignatures: false, verifySignatures: false })
+        .toString("base64");
+      fs.writeFileSync(options.outFile, result.transaction);
+      console.log(`💾 Unsigned transaction written to ${options.outFile}`);
+      return result;
+    }
+
+    if (!airdropState.authority.equals(provider.wallet.publicKey)) {
+      throw new Error(
+        `Wallet ${provider.wallet.publicKey.toString()} is not the airdrop authority; pass --out to write the transaction for the authority to sign`
+      );
+    }
+
+    console.log("📤 Sending transaction...");
+    result.signature = await client.setPaused(paused);
+    console.log(`📋 Transaction signature: ${result.signature}`);
+
+    result.after = (await client.getAirdropState()).paused;
+    console.log(`   After: ${formatPaused(result.after)}`);
+
+    return result;
+  } catch (error) {
+    console.error(
+      `❌ Error ${paused ? "pausing" : "unpausing"} claims:`,
+      error
+    );
+    throw error;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const valueFlags = ["--campaign", "--out"];
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const [command, ...rest] = args;
+
+  if (command !== "pause" && command !== "unpause") {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/pause.ts <pause | unpause> [recipients.json | --campaign <airdropId>] [--out <file>]"
+    );
+    console.log("");
+    console.log("📝 Examples:");
+    console.log("  ts-node scripts/pause.ts pause recipients.json");
+    console.log(
+      "  ts-node scripts/pause.ts unpause --campaign spring-2025 --out unpause.tx"
+    );
+    process.exit(1);
+  }
+
+  const recipientsFile =
+    campaignFlag(args)?.recipients ||
+    rest.find(
+      (arg, i) => !arg.startsWith("--") && !valueFlags.includes(rest[i - 1])
+    ) ||
+    "recipients.json";
+
+  // Set environment variables if not already set
+  if (!process.env.ANCHOR_PROVIDER_URL) {
+    process.env.ANCHOR_PROVIDER_URL = "https://api.devnet.solana.com";
+  }
+  if (!process.env.ANCHOR_WALLET) {
+    process.env.ANCHOR_WALLET = "test-wallet-1.json";
+  }
+
+  setClaimsPaused(recipientsFile, command === "pause", {
+    outFile: flag("--out"),
+  })
+    .then(() => {
+      console.log(`🎉 ${command === "pause" ? "Pause" : "Unpause"} completed!`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,49 @@
+// PDA derivation shared by the client, the scripts and the tests. Kept free
+// of the IDL and of Node-only imports so offline tools and dApps can use it.
+import { PublicKey } from "@solana/web3.js";
+import { keccak_256 } from "js-sha3";
+
+// An airdrop is identified by the airdropId of its recipients file, or
+// directly by the 32-byte seed derived from it
+export type AirdropIdInput = string | number[] | Uint8Array;
+
+export const AIRDROP_STATE_SEED = "merkle_tree";
+export const CLAIM_STATUS_SEED = "claim";
+
+const seed = (value: string) => new TextEncoder().encode(value);
+
+// The state PDA is seeded by keccak256(airdropId) so ids of any length fit
+// in a seed and every airdropId gets its own state account
+export function airdropIdSeed(airdropId: AirdropIdInput): number[] {
+  if (typeof airdropId !== "string") {
+    if (airdropId.length !== 32) {
+      throw new Error("Airdrop id seed must be 32 bytes");
+    }
+    return Array.from(airdropId);
+  }
+  if (airdropId.length === 0) {
+    throw new Error("airdropId must not be empty");
+  }
+  return keccak_256.array(airdropId);
+}
+
+export function findAirdropStatePda(
+  programId: PublicKey,
+  airdropId: AirdropIdInput
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [seed(AIRDROP_STATE_SEED), Uint8Array.from(airdropIdSeed(airdropId))],
+    programId
+  )[0];
+}
+
+export function findClaimStatusPda(
+  programId: PublicKey,
+  airdropState: PublicKey,
+  claimant: PublicKey
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [seed(CLAIM_STATUS_SEED), airdropState.toBytes(), claimant.toBytes()],
+    programId
+  )[0];
+}
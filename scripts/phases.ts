@@ -0,0 +1,140 @@
+// Claim phases mirrored from the program, so scripts and dApps can tell
+// which phase an airdrop is in and when it changes. Kept free of the IDL,
+// like pda.ts.
+import { formatDuration, formatTimestamp, nowSeconds } from "./time";
+
+// The program's ClaimPhases: claims open at startTime (0 for immediately);
+// with an earlyRoot only the early tier can claim until publicStartTime
+export interface ClaimPhases {
+  startTime: number;
+  // Root of the early tier's tree as 0x hex; unset for no early phase
+  earlyRoot?: string;
+  publicStartTime: number;
+}
+
+export const NO_PHASES: ClaimPhases = { startTime: 0, publicStartTime: 0 };
+
+export type PhaseName = "not-started" | "early" | "public" | "closed";
+
+export interface CurrentPhase {
+  name: PhaseName;
+  // When the next phase begins; 0 if this one never ends
+  changesAt: number;
+}
+
+// ClaimPhases as decoded from AirdropState, with i64 fields as BN and the
+// root as bytes
+export function phasesFromState(phases: {
+  startTime: { toString(): string };
+  earlyRoot: number[];
+  publicStartTime: { toString(): string };
+}): ClaimPhases {
+  const earlyRoot = phases.earlyRoot.some((byte) => byte !== 0)
+    ? "0x" +
+      phases.earlyRoot
+        .map((byte) => byte.toString(16).padStart(2, "0"))
+        .join("")
+    : undefined;
+  return {
+    startTime: Number(phases.startTime.toString()),
+    earlyRoot,
+    publicStartTime: Number(phases.publicStartTime.toString()),
+  };
+}
+
+// The same checks as require_valid_phases, so a bad schedule fails before
+// anything is sent
+export function assertValidPhases(
+  phases: ClaimPhases,
+  claimEndTime: number = 0,
+  now: number = nowSeconds()
+) {
+  const { startTime, earlyRoot, publicStartTime } = phases;
+  if (startTime < 0) {
+    throw new Error("Claim start time must not be negative");
+  }
+
+  let lastStart = startTime;
+  if (!earlyRoot) {
+    if (publicStartTime !== 0) {
+      throw new Error("A public start time needs an early access tier");
+    }
+  } else {
+    if (publicStartTime <= startTime) {
+      throw new Error(
+        `Public claims (${formatTimestamp(
+          publicStartTime
+        )}) must start after the early access phase (${formatTimestamp(
+          startTime
+        )})`
+      );
+    }
+    if (publicStartTime <= now) {
+      throw new Error(
+        `Public start time ${formatTimestamp(publicStartTime)} is in the past`
+      );
+    }
+    lastStart = publicStartTime;
+  }
+
+  if (claimEndTime !== 0 && claimEndTime <= lastStart) {
+    throw new Error(
+      `Claims close at ${formatTimestamp(
+        claimEndTime
+      )}, before the last phase starts at ${formatTimestamp(lastStart)}`
+    );
+  }
+}
+
+export function currentPhase(
+  phases: ClaimPhases,
+  claimEndTime: number,
+  now: number
+): CurrentPhase {
+  if (claimEndTime !== 0 && now > claimEndTime) {
+    return { name: "closed", changesAt: 0 };
+  }
+  if (now < phases.startTime) {
+    return { name: "not-started", changesAt: phases.startTime };
+  }
+  if (phases.earlyRoot && now < phases.publicStartTime) {
+    return { name: "early", changesAt: phases.publicStartTime };
+  }
+  return { name: "public", changesAt: claimEndTime };
+}
+
+export function formatPhases(phases: ClaimPhases): string {
+  const start =
+    phases.startTime === 0
+      ? "immediately"
+      : `from ${formatTimestamp(phases.startTime)}`;
+  return phases.earlyRoot
+    ? `early access tier ${start}, everyone from ${formatTimestamp(
+        phases.publicStartTime
+      )}`
+    : `everyone ${start}`;
+}
+
+// e.g. "early access, public claims open in 2d 4h (2025-01-01T00:00:00.000Z)"
+export function formatPhase(
+  phases: ClaimPhases,
+  current: CurrentPhase,
+  now: number
+): string {
+  const until = `in ${formatDuration(
+    current.changesAt - now
+  )} (${formatTimestamp(current.changesAt)})`;
+
+  switch (current.name) {
+    case "not-started":
+      return `not started, ${
+        phases.earlyRoot ? "early access" : "claims"
+      } open ${until}`;
+    case "early":
+      return `early access, public claims open ${until}`;
+    case "public":
+      return current.changesAt ? `public, claims close ${until}` : "public";
+    case "closed":
+      return "closed";
+  }
+}
@@ -0,0 +1,114 @@
+// Recipients diff and vault solvency math behind update_merkle_root, so a
+// root update can be planned and checked offline. Kept free of the IDL, like
+// pda.ts; diff-recipients.ts reads the on-chain state and passes it in.
+import { Recipient, RecipientsFile } from "./load-recipients";
+import { parseLamports, sumLamports } from "./amounts";
+
+export interface AmountChange {
+  publicKey: string;
+  oldAmount: string;
+  newAmount: string;
+}
+
+export interface RecipientsDiff {
+  added: Recipient[];
+  removed: Recipient[];
+  changed: AmountChange[];
+  unchanged: number;
+  oldTotal: bigint;
+  newTotal: bigint;
+}
+
+// What the solvency check needs from the chain
+export interface SolvencyState {
+  // What the vault can still pay out: the token account balance, or the
+  // state account's lamports above its rent-exempt minimum
+  remainingFunds: bigint;
+  // What each claimant already withdrew; missing means nothing
+  withdrawn: Map<string, bigint>;
+}
+
+export interface SolvencyPlan {
+  // Still owed to recipients of the new list: their amount minus what they
+  // already withdrew
+  unclaimedObligations: bigint;
+  owedRecipients: number;
+  additionalAmount: bigint;
+  // Recipients whose new amount is below what they already withdrew
+  claimedChanges: AmountChange[];
+}
+
+// Compare two recipients files by public key
+export function diffRecipients(
+  oldData: RecipientsFile,
+  newData: RecipientsFile
+): RecipientsDiff {
+  const oldByKey = new Map(oldData.recipients.map((r) => [r.publicKey, r]));
+  const newByKey = new Map(newData.recipients.map((r) => [r.publicKey, r]));
+
+  const diff: RecipientsDiff = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+    oldTotal: sumLamports(oldData.recipients.map((r) => r.amount)),
+    newTotal: sumLamports(newData.recipients.map((r) => r.amount)),
+  };
+
+  for (const recipient of newData.recipients) {
+    const previous = oldByKey.get(recipient.publicKey);
+    if (!previous) {
+      diff.added.push(recipient);
+    } else if (
+      parseLamports(previous.amount) !== parseLamports(recipient.amount)
+    ) {
+      diff.changed.push({
+        publicKey: recipient.publicKey,
+        oldAmount: previous.amount,
+        newAmount: recipient.amount,
+      });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const recipient of oldData.recipients) {
+    if (!newByKey.has(recipient.publicKey)) {
+      diff.removed.push(recipient);
+    }
+  }
+
+  return diff;
+}
+
+// How much the vault must be topped up so every recipient of the new list
+// can still claim. Claims pay up to the current amount minus what was
+// already withdrawn, so that difference is what each recipient is owed.
+export function planSolvency(
+  recipients: Recipient[],
+  diff: RecipientsDiff,
+  state: SolvencyState
+): SolvencyPlan {
+  const withdrawnBy = (publicKey: string) =>
+    state.withdrawn.get(publicKey) || BigInt(0);
+
+  const owed = recipients
+    .map((r) => parseLamports(r.amount) - withdrawnBy(r.publicKey))
+    .filter((amount) => amount > BigInt(0));
+  const unclaimedObligations = owed.reduce(
+    (sum, amount) => sum + amount,
+    BigInt(0)
+  );
+
+  return {
+    unclaimedObligations,
+    owedRecipients: owed.length,
+    additionalAmount:
+      unclaimedObligations > state.remainingFunds
+        ? unclaimedObligations - state.remainingFunds
+        : BigInt(0),
+    claimedChanges: diff.changed.filter(
+      (c) => withdrawnBy(c.publicKey) > parseLamports(c.newAmount)
+    ),
+  };
+}
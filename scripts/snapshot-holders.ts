@@ -0,0 +1,241 @@
+import * as fs from "fs";
+import {
+  Connection,
+  GetProgramAccountsFilter,
+  PublicKey,
+} from "@solana/web3.js";
+import {
+  ACCOUNT_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  unpackAccount,
+  unpackMint,
+} from "@solana/spl-token";
+import { WeightsFile } from "./allocate";
+
+export interface SnapshotOptions {
+  // Keep holders whose balance is 0 (skipped by default)
+  includeZero?: boolean;
+  // Keep token accounts owned by PDAs, e.g. pools and vaults (skipped by default)
+  includePdaOwners?: boolean;
+  // Owners or token accounts to leave out, e.g. treasury or exchange wallets
+  exclude?: string[];
+}
+
+export interface SnapshotReport {
+  tokenAccounts: number;
+  holders: number;
+  skippedZero: number;
+  skippedPdaOwners: number;
+  skippedExcluded: number;
+  totalBalance: string;
+}
+
+// Collect the balance of every holder of a mint, summed per owner, as a
+// weights file for allocate.ts. Works for both Token and Token-2022 mints;
+// the token program is taken from the mint account's owner.
+export async function snapshotHolders(
+  connection: Connection,
+  mint: PublicKey,
+  options: SnapshotOptions = {}
+): Promise<{ data: WeightsFile; report: SnapshotReport }> {
+  const mintAccount = await connection.getAccountInfo(mint, "confirmed");
+  if (!mintAccount) {
+    throw new Error(`Mint ${mint.toString()} does not exist`);
+  }
+  const programId = mintAccount.owner;
+  if (
+    !programId.equals(TOKEN_PROGRAM_ID) &&
+    !programId.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    throw new Error(`${mint.toString()} is not owned by a token program`);
+  }
+  const { decimals } = unpackMint(mint, mintAccount, programId);
+
+  // Token-2022 accounts with extensions are larger than the base layout, so
+  // only the classic program can be filtered by size
+  const filters: GetProgramAccountsFilter[] = [
+    { memcmp: { offset: 0, bytes: mint.toBase58() } },
+  ];
+  if (programId.equals(TOKEN_PROGRAM_ID)) {
+    filters.push({ dataSize: ACCOUNT_SIZE });
+  }
+  const { context, value: accounts } = await connection.getProgramAccounts(
+    programId,
+    { commitment: "confirmed", filters, withContext: true }
+  );
+
+  const exclude = new Set(options.exclude || []);
+  const balances = new Map<string, { owner: PublicKey; amount: bigint }>();
+  let tokenAccounts = 0;
+  let skippedExcluded = 0;
+
+  for (const { pubkey, account } of accounts) {
+    let tokenAccount: ReturnType<typeof unpackAccount>;
+    try {
+      tokenAccount = unpackAccount(pubkey, account, programId);
+    } catch {
+      // Not a token account, e.g. a mint whose first bytes match
+      continue;
+    }
+    if (!tokenAccount.mint.equals(mint)) {
+      continue;
+    }
+    tokenAccounts++;
+
+    const owner = tokenAccount.owner.toString();
+    if (exclude.has(owner) || exclude.has(pubkey.toString())) {
+      skippedExcluded++;
+      continue;
+    }
+    const holder = balances.get(owner) || {
+      owner: tokenAccount.owner,
+      amount: BigInt(0),
+    };
+    holder.amount += tokenAccount.amount;
+    balances.set(owner, holder);
+  }
+
+  let skippedZero = 0;
+  let skippedPdaOwners = 0;
+  const holders = [...balances.values()].filter((holder) => {
+    if (holder.amount === BigInt(0) && !options.includeZero) {
+      skippedZero++;
+      return false;
+    }
+    if (
+      !options.includePdaOwners &&
+      !PublicKey.isOnCurve(holder.owner.toBytes())
+    ) {
+      skippedPdaOwners++;
+      return false;
+    }
+    return true;
+  });
+  holders.sort((a, b) =>
+    Buffer.compare(a.owner.toBuffer(), b.owner.toBuffer())
+  );
+
+  const data: WeightsFile = {
+    createdAt: new Date().toISOString(),
+    source: `Holders of ${mint.toString()} at slot ${context.slot}`,
+    mint: mint.toString(),
+    decimals,
+    slot: context.slot,
+    weights: holders.map((holder) => ({
+      publicKey: holder.owner.toString(),
+      weight: holder.amount.toString(),
+    })),
+  };
+
+  return {
+    data,
+    report: {
+      tokenAccounts,
+      holders: holders.length,
+      skippedZero,
+      skippedPdaOwners,
+      skippedExcluded,
+      totalBalance: holders
+        .reduce((sum, holder) => sum + holder.amount, BigInt(0))
+        .toString(),
+    },
+  };
+}
+
+// Snapshot a mint's holders and write the weights file
+export async function snapshotHoldersToFile(
+  connection: Connection,
+  mint: PublicKey,
+  outputFile: string = "holders.json",
+  options: SnapshotOptions = {}
+) {
+  try {
+    console.log(`📸 Snapshotting holders of ${mint.toString()}...`);
+
+    const result = await snapshotHolders(connection, mint, options);
+    const { report } = result;
+    console.log(`   Slot: ${result.data.slot}`);
+    console.log(`   Token accounts: ${report.tokenAccounts}`);
+    console.log(`   Holders: ${report.holders}`);
+    console.log(`   Skipped (zero balance): ${report.skippedZero}`);
+    console.log(`   Skipped (PDA owners): ${report.skippedPdaOwners}`);
+    console.log(`   Skipped (excluded): ${report.skippedExcluded}`);
+    console.log(
+      `   Total balance: ${report.totalBalance} (${result.data.decimals} decimals)`
+    );
+
+    fs.writeFileSync(outputFile, JSON.stringify(result.data, null, 2));
+    console.log(`✅ Wrote weights to ${outputFile}`);
+
+    return result;
+  } catch (error) {
+    console.error("❌ Error taking snapshot:", error);
+    throw error;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const valueFlags = ["--out", "--exclude", "--exclude-file"];
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const positional = args.filter(
+    (arg, i) => !arg.startsWith("--") && !valueFlags.includes(args[i - 1])
+  );
+
+  if (positional.length === 0) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/snapshot-holders.ts <mint> [--out holders.json] [--include-zero] [--include-pda-owners] [--exclude <address>]... [--exclude-file <file>]"
+    );
+    console.log("");
+    console.log("📝 Example:");
+    console.log(
+      "  ANCHOR_PROVIDER_URL=http://127.0.0.1:8899 ts-node scripts/snapshot-holders.ts <mint> --out holders.json"
+    );
+    console.log(
+      "  ts-node scripts/allocate.ts holders.json --budget 100 --unit sol --generate"
+    );
+    process.exit(1);
+  }
+
+  const exclude = args.flatMap((arg, i) =>
+    args[i - 1] === "--exclude" ? [arg] : []
+  );
+  // One address per line; blank lines and # comments are ignored
+  if (flag("--exclude-file")) {
+    fs.readFileSync(flag("--exclude-file"), "utf8")
+      .split(/\r?\n/)
+      .map((line) => line.replace(/#.*/, "").trim())
+      .filter(Boolean)
+      .forEach((address) => exclude.push(address));
+  }
+
+  const connection = new Connection(
+    process.env.ANCHOR_PROVIDER_URL || "https://api.devnet.solana.com",
+    "confirmed"
+  );
+
+  snapshotHoldersToFile(
+    connection,
+    new PublicKey(positional[0]),
+    flag("--out"),
+    {
+      includeZero: args.includes("--include-zero"),
+      includePdaOwners: args.includes("--include-pda-owners"),
+      exclude,
+    }
+  )
+    .then(() => {
+      console.log("🎉 Snapshot completed!");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,461 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+import { Worker, isMainThread, parentPort, workerData } from "worker_threads";
+import { PublicKey } from "@solana/web3.js";
+import {
+  DEFAULT_ALGORITHM,
+  LEAF_FORMAT,
+  createLeaf,
+  hashPair,
+  parseAlgorithm,
+} from "./merkle-tree";
+import { U64_MAX, parseLamports } from "./amounts";
+import { parseDelimited } from "./import-recipients";
+
+const HASH_SIZE = 32;
+
+// Manifest written next to the level files
+export interface StreamTreeManifest {
+  root: string;
+  leafCount: number;
+  totalAmount: string;
+  algorithm: string;
+  leafFormat: string;
+  levels: { file: string; count: number }[];
+  createdAt: string;
+}
+
+export interface StreamTreeOptions {
+  outputDir?: string;
+  algorithm?: string;
+  workers?: number;
+  batchSize?: number;
+  onProgress?: (stage: string, done: number, total?: number) => void;
+}
+
+// One recipient row: [publicKey, amount]
+type Row = [string, string];
+
+// Parse one input line; returns null for blank lines and CSV headers
+function parseLine(line: string, format: "jsonl" | "csv"): Row | null {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  if (format === "jsonl") {
+    const entry = JSON.parse(trimmed);
+    return [String(entry.publicKey), String(entry.amount)];
+  }
+
+  // Same quoting rules as import-recipients.ts
+  const [publicKey = "", amount = ""] = parseDelimited(trimmed)[0]?.cells || [];
+  if (/^(public_?key|address|recipient)$/i.test(publicKey)) {
+    return null;
+  }
+  return [publicKey, amount];
+}
+
+// Validate an amount and return it as a u64 bigint
+function parseAmount(amount: string, lineNumber: number): bigint {
+  if (!/^\d+$/.test(amount)) {
+    throw new Error(`Invalid amount on line ${lineNumber}: ${amount}`);
+  }
+  const value = BigInt(amount);
+  if (value <= BigInt(0) || value > U64_MAX) {
+    throw new Error(`Amount out of range on line ${lineNumber}: ${amount}`);
+  }
+  return value;
+}
+
+// Pool of leaf-hashing workers; results come back in submission order
+class LeafHasherPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: Array<() => void> = [];
+
+  constructor(size: number, algorithm: string) {
+    for (let i = 0; i < size; i++) {
+      const worker = createWorker({ algorithm });
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  public async hash(rows: Row[]): Promise<Buffer> {
+    const worker = await this.acquire();
+
+    try {
+      return await new Promise<Buffer>((resolve, reject) => {
+        const onMessage = (message: {
+          leaves?: Uint8Array;
+          error?: string;
+        }) => {
+          cleanup();
+          if (message.error) {
+            reject(new Error(message.error));
+          } else {
+            resolve(Buffer.from(message.leaves));
+          }
+        };
+        const onError = (error: Error) => {
+          cleanup();
+          reject(error);
+        };
+        const cleanup = () => {
+          worker.off("message", onMessage);
+          worker.off("error", onError);
+        };
+
+        worker.on("message", onMessage);
+        worker.on("error", onError);
+        worker.postMessage(rows);
+      });
+    } finally {
+      this.release(worker);
+    }
+  }
+
+  public async close(): Promise<void> {
+    await Promise.all(this.workers.map((worker) => worker.terminate()));
+  }
+
+  private acquire(): Promise<Worker> {
+    const worker = this.idle.pop();
+    if (worker) {
+      return Promise.resolve(worker);
+    }
+    return new Promise((resolve) => {
+      this.queue.push(() => resolve(this.idle.pop()));
+    });
+  }
+
+  private release(worker: Worker) {
+    this.idle.push(worker);
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    }
+  }
+}
+
+// Spawn this file as a worker, registering ts-node when running from source
+function createWorker(data: { algorithm: string }): Worker {
+  if (__filename.endsWith(".ts")) {
+    return new Worker(
+      `require("ts-node").register({ transpileOnly: true }); require(${JSON.stringify(
+        __filename
+      )});`,
+      { eval: true, workerData: data }
+    );
+  }
+  return new Worker(__filename, { workerData: data });
+}
+
+// Worker side: hash a batch of rows into a packed buffer of 32-byte leaves
+function runWorker() {
+  const { algorithm } = workerData as { algorithm: string };
+  const options = parseAlgorithm(algorithm);
+
+  parentPort.on("message", (rows: Row[]) => {
+    try {
+      const leaves = new Uint8Array(rows.length * HASH_SIZE);
+      rows.forEach(([publicKey, amount], i) => {
+        leaves.set(
+          createLeaf(new PublicKey(publicKey), amount, options),
+          i * HASH_SIZE
+        );
+      });
+      parentPort.postMessage({ leaves }, [leaves.buffer]);
+    } catch (error) {
+      parentPort.postMessage({ error: error.message });
+    }
+  });
+}
+
+// Hash one level file into the next, duplicating the last node when odd
+function buildNextLevel(
+  inputFile: string,
+  outputFile: string,
+  count: number,
+  algorithm: string,
+  onProgress?: (done: number) => void
+): number {
+  const options = parseAlgorithm(algorithm);
+  const chunkNodes = 65536; // even, so pairs never straddle chunks
+  const input = fs.openSync(inputFile, "r");
+  const output = fs.openSync(outputFile, "w");
+  const buffer = Buffer.alloc(chunkNodes * HASH_SIZE);
+  let parents = 0;
+
+  try {
+    for (let start = 0; start < count; start += chunkNodes) {
+      const nodes = Math.min(chunkNodes, count - start);
+      fs.readSync(input, buffer, 0, nodes * HASH_SIZE, start * HASH_SIZE);
+
+      const out = Buffer.alloc(Math.ceil(nodes / 2) * HASH_SIZE);
+      for (let i = 0; i < nodes; i += 2) {
+        const left = buffer.subarray(i * HASH_SIZE, (i + 1) * HASH_SIZE);
+        const right =
+          i + 1 < nodes
+            ? buffer.subarray((i + 1) * HASH_SIZE, (i + 2) * HASH_SIZE)
+            : left;
+        out.set(hashPair(left, right, options), (i / 2) * HASH_SIZE);
+      }
+
+      fs.writeSync(output, out);
+      parents += out.length / HASH_SIZE;
+      if (onProgress) {
+        onProgress(start + nodes);
+      }
+    }
+  } finally {
+    fs.closeSync(input);
+    fs.closeSync(output);
+  }
+
+  return parents;
+}
+
+function defaultProgress(stage: string, done: number, total?: number) {
+  const percent = total ? ` (${((done / total) * 100).toFixed(1)}%)` : "";
+  console.log(`   ${stage}: ${done.toLocaleString()}${percent}`);
+}
+
+// Build a merkle tree from a JSON lines or CSV recipients file without
+// loading it into memory. Levels are written to outputDir as level-<n>.bin
+export async function buildStreamingMerkleTree(
+  inputFile: string,
+  options: StreamTreeOptions = {}
+): Promise<StreamTreeManifest> {
+  const algorithm = options.algorithm || DEFAULT_ALGORITHM;
+  const outputDir = options.outputDir || "merkle-tree";
+  const batchSize = options.batchSize || 10000;
+  const workerCount =
+    options.workers || Math.max(1, (os.cpus()?.length || 2) - 1);
+  const onProgress = options.onProgress || defaultProgress;
+  const format = inputFile.endsWith(".csv") ? "csv" : "jsonl";
+
+  parseAlgorithm(algorithm);
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  console.log(`🌊 Streaming ${inputFile} (${format})...`);
+  console.log(`   Workers: ${workerCount}, batch size: ${batchSize}`);
+
+  const pool = new LeafHasherPool(workerCount, algorithm);
+  const levelFile = (level: number) =>
+    path.join(outputDir, `level-${level}.bin`);
+  const leavesFd = fs.openSync(levelFile(0), "w");
+
+  let leafCount = 0;
+  let totalAmount = BigInt(0);
+
+  // Keep a bounded window of batches in flight and write them in order
+  const pending: Promise<Buffer>[] = [];
+  try {
+    const flush = async () => {
+      const leaves = await pending.shift();
+      fs.writeSync(leavesFd, leaves);
+      leafCount += leaves.length / HASH_SIZE;
+      onProgress("Leaves hashed", leafCount);
+    };
+    // Batches are awaited in order by flush; mark each one handled right
+    // away so a later failure cannot crash the process first
+    const submit = (rows: Row[]) => {
+      const leaves = pool.hash(rows);
+      leaves.catch(() => {});
+      pending.push(leaves);
+    };
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(inputFile),
+      crlfDelay: Infinity,
+    });
+
+    // Only one claim PDA exists per signer, so a repeated key could never
+    // claim its second leaf
+    const seen = new Set<string>();
+    let batch: Row[] = [];
+    let lineNumber = 0;
+    // A quoted CSV cell may span lines; collect until the quotes balance
+    let record = "";
+    let recordLine = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (format === "csv") {
+        record = record ? `${record}\n${line}` : line;
+        recordLine = recordLine || lineNumber;
+        if ((record.match(/"/g) || []).length % 2 !== 0) {
+          continue;
+        }
+      } else {
+        record = line;
+        recordLine = lineNumber;
+      }
+      const row = parseLine(record, format);
+      const rowLine = recordLine;
+      record = "";
+      recordLine = 0;
+      if (!row) {
+        continue;
+      }
+
+      totalAmount += parseAmount(row[1], rowLine);
+      if (seen.has(row[0])) {
+        throw new Error(
+          `Duplicate recipient ${row[0]} on line ${rowLine} (run normalize-recipients.ts to merge)`
+        );
+      }
+      seen.add(row[0]);
+      batch.push(row);
+
+      if (batch.length === batchSize) {
+        submit(batch);
+        batch = [];
+        if (pending.length >= workerCount * 2) {
+          await flush();
+        }
+      }
+    }
+
+    if (record) {
+      throw new Error(`Unterminated quoted field on line ${recordLine}`);
+    }
+    if (batch.length > 0) {
+      submit(batch);
+    }
+    while (pending.length > 0) {
+      await flush();
+    }
+  } finally {
+    // A batch can fail while an earlier one is still being awaited; settle
+    // them all so none is left as an unhandled rejection
+    await Promise.allSettled(pending);
+    fs.closeSync(leavesFd);
+    await pool.close();
+  }
+
+  if (leafCount === 0) {
+    throw new Error(`No recipients found in ${inputFile}`);
+  }
+  // The vault is funded with a single u64, so the total must fit as well
+  parseLamports(totalAmount, "Total amount");
+
+  // Hash level by level until a single root remains
+  const levels = [{ file: path.basename(levelFile(0)), count: leafCount }];
+  let count = leafCount;
+  while (count > 1) {
+    const level = levels.length;
+    const levelCount = count;
+    count = buildNextLevel(
+      levelFile(level - 1),
+      levelFile(level),
+      levelCount,
+      algorithm,
+      (done) => onProgress(`Level ${level}`, done, levelCount)
+    );
+    levels.push({ file: path.basename(levelFile(level)), count });
+  }
+
+  const root = Buffer.alloc(HASH_SIZE);
+  const rootFd = fs.openSync(levelFile(levels.length - 1), "r");
+  fs.readSync(rootFd, root, 0, HASH_SIZE, 0);
+  fs.closeSync(rootFd);
+
+  const manifest: StreamTreeManifest = {
+    root: "0x" + root.toString("hex"),
+    leafCount,
+    totalAmount: totalAmount.toString(),
+    algorithm,
+    leafFormat: LEAF_FORMAT,
+    levels,
+    createdAt: new Date().toISOString(),
+  };
+
+  fs.writeFileSync(
+    path.join(outputDir, "manifest.json"),
+    JSON.stringify(manifest, null, 2)
+  );
+
+  console.log(`✅ Merkle tree generated!`);
+  console.log(`   Leaves: ${leafCount}`);
+  console.log(`   Root: ${manifest.root}`);
+  console.log(`   Levels written to ${outputDir}/`);
+
+  return manifest;
+}
+
+// Read the proof for a leaf straight from the level files on disk
+export function getProofFromLevels(
+  outputDir: string,
+  leafIndex: number
+): Uint8Array[] {
+  const manifest: StreamTreeManifest = JSON.parse(
+    fs.readFileSync(path.join(outputDir, "manifest.json"), "utf8")
+  );
+  if (leafIndex < 0 || leafIndex >= manifest.leafCount) {
+    throw new Error(`Leaf index ${leafIndex} out of range`);
+  }
+
+  const proof: Uint8Array[] = [];
+  let index = leafIndex;
+
+  for (let level = 0; level < manifest.levels.length - 1; level++) {
+    const { file, count } = manifest.levels[level];
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    // Odd node was hashed with itself, so it is its own sibling
+    const nodeIndex = siblingIndex < count ? siblingIndex : index;
+
+    const node = Buffer.alloc(HASH_SIZE);
+    const fd = fs.openSync(path.join(outputDir, file), "r");
+    fs.readSync(fd, node, 0, HASH_SIZE, nodeIndex * HASH_SIZE);
+    fs.closeSync(fd);
+    proof.push(new Uint8Array(node));
+
+    index = Math.floor(index / 2);
+  }
+
+  return proof;
+}
+
+if (!isMainThread) {
+  runWorker();
+} else if (require.main === module) {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const inputFile = args.find(
+    (arg, i) => !arg.startsWith("--") && !args[i - 1]?.startsWith("--")
+  );
+
+  if (!inputFile) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/stream-merkle-tree.ts <recipients.jsonl | recipients.csv> [--out <dir>] [--algorithm <name>] [--workers <n>] [--batch <n>]"
+    );
+    console.log("");
+    console.log("📝 Input formats:");
+    console.log('  JSON lines: {"publicKey": "...", "amount": "75000000"}');
+    console.log("  CSV:        publicKey,amount");
+    process.exit(1);
+  }
+
+  buildStreamingMerkleTree(inputFile, {
+    outputDir: flag("--out"),
+    algorithm: flag("--algorithm"),
+    workers: flag("--workers") ? parseInt(flag("--workers")) : undefined,
+    batchSize: flag("--batch") ? parseInt(flag("--batch")) : undefined,
+  })
+    .then(() => {
+      console.log("🎉 Streaming merkle tree generation completed!");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,68 @@
+// On-chain times are i64 unix timestamps in seconds, read from the Clock
+// sysvar. 0 stands for "not set" wherever a time is optional.
+
+// Parse a unix timestamp in seconds or an ISO 8601 date
+export function parseTimestamp(value: string, label: string = "Time"): number {
+  const trimmed = value.trim();
+  const seconds = /^\d+$/.test(trimmed)
+    ? Number(trimmed)
+    : /^\d{4}-\d{2}-\d{2}/.test(trimmed)
+    ? Math.floor(Date.parse(trimmed) / 1000)
+    : NaN;
+
+  if (!Number.isSafeInteger(seconds)) {
+    throw new Error(
+      `${label} "${value}" is not a unix timestamp or an ISO 8601 date`
+    );
+  }
+  return seconds;
+}
+
+// Parse a duration in seconds, or with a d/h/m/s suffix, e.g. "30d"
+export function parseDuration(
+  value: string,
+  label: string = "Duration"
+): number {
+  const match = /^(\d+)\s*([dhms]?)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(
+      `${label} "${value}" is not a number of seconds or a d/h/m/s duration`
+    );
+  }
+
+  const unitSeconds = { d: 86400, h: 3600, m: 60, s: 1, "": 1 };
+  return Number(match[1]) * unitSeconds[match[2] as keyof typeof unitSeconds];
+}
+
+export function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+// ISO 8601 in UTC, or "none" for an unset time
+export function formatTimestamp(seconds: number): string {
+  return seconds === 0 ? "none" : new Date(seconds * 1000).toISOString();
+}
+
+// Largest two units of a duration, e.g. 93784 → "1d 2h"
+export function formatDuration(seconds: number): string {
+  const units: [string, number][] = [
+    ["d", 86400],
+    ["h", 3600],
+    ["m", 60],
+    ["s", 1],
+  ];
+  let remaining = Math.max(0, Math.floor(seconds));
+  const parts: string[] = [];
+
+  for (const [unit, size] of units) {
+    if (remaining >= size || (unit === "s" && parts.length === 0)) {
+      parts.push(`${Math.floor(remaining / size)}${unit}`);
+      remaining %= size;
+    }
+    if (parts.length === 2) {
+      break;
+    }
+  }
+
+  return parts.join(" ");
+}
@@ -0,0 +1,277 @@
+import * as fs from "fs";
+import { PublicKey } from "@solana/web3.js";
+import { RecipientsFile, loadRecipients } from "./load-recipients";
+import { LEAF_FORMAT, SimpleMerkleTree, createLeaf } from "./merkle-tree";
+import { ProofData } from "./generate-proof";
+import { parseLamports } from "./amounts";
+
+// Snapshot layout (all integers little endian):
+//   magic "SMTS" | version u8 | algorithm len u8 + utf8 | leaf format len u16 + utf8
+//   root [32] | leaf count u32 | level count u8 | node count u32 per level
+//   levels: packed 32-byte nodes, leaves first
+//   index table: leaf count x (pubkey [32] + leaf index u32 + amount u64), sorted by pubkey
+const MAGIC = "SMTS";
+const VERSION = 1;
+const HASH_SIZE = 32;
+const INDEX_ENTRY_SIZE = 32 + 4 + 8;
+
+export interface SnapshotHeader {
+  version: number;
+  algorithm: string;
+  leafFormat: string;
+  root: string;
+  leafCount: number;
+  levelCounts: number[];
+}
+
+// Serialize a built tree plus its pubkey→index table
+export function writeTreeSnapshot(
+  snapshotFile: string,
+  merkleTree: SimpleMerkleTree,
+  recipientsData: RecipientsFile
+) {
+  const algorithm = Buffer.from(merkleTree.getAlgorithm(), "utf8");
+  const leafFormat = Buffer.from(LEAF_FORMAT, "utf8");
+  const levels = merkleTree.getLevels();
+
+  // magic + version + algorithm len + leaf format len + root + leaf count + level count
+  const fixedSize = 4 + 1 + 1 + 2 + HASH_SIZE + 4 + 1;
+  const header = Buffer.alloc(
+    fixedSize + algorithm.length + leafFormat.length + levels.length * 4
+  );
+  let offset = header.write(MAGIC, 0, "ascii");
+  offset = header.writeUInt8(VERSION, offset);
+  offset = header.writeUInt8(algorithm.length, offset);
+  offset += algorithm.copy(header, offset);
+  offset = header.writeUInt16LE(leafFormat.length, offset);
+  offset += leafFormat.copy(header, offset);
+  offset += Buffer.from(merkleTree.root).copy(header, offset);
+  offset = header.writeUInt32LE(merkleTree.getLeafCount(), offset);
+  offset = header.writeUInt8(levels.length, offset);
+  for (const level of levels) {
+    offset = header.writeUInt32LE(level.length, offset);
+  }
+
+  const nodes = Buffer.concat(levels.flat().map((node) => Buffer.from(node)));
+
+  const entries = recipientsData.recipients
+    .map((r) => ({ key: new PublicKey(r.publicKey).toBuffer(), r }))
+    .sort((a, b) => Buffer.compare(a.key, b.key));
+  const index = Buffer.alloc(entries.length * INDEX_ENTRY_SIZE);
+  entries.forEach(({ key, r }, i) => {
+    const entryOffset = i * INDEX_ENTRY_SIZE;
+    key.copy(index, entryOffset);
+    index.writeUInt32LE(r.index, entryOffset + 32);
+    index.writeBigUInt64LE(parseLamports(r.amount), entryOffset + 36);
+  });
+
+  fs.writeFileSync(snapshotFile, Buffer.concat([header, nodes, index]));
+}
+
+// Read-only view over a snapshot file; proofs are sliced out of the stored
+// levels and public keys are found by binary search, so the tree is never
+// rebuilt
+export class TreeSnapshot {
+  public readonly header: SnapshotHeader;
+  private data: Buffer;
+  private levelOffsets: number[] = [];
+  private indexOffset: number;
+
+  private constructor(data: Buffer) {
+    this.data = data;
+
+    if (data.toString("ascii", 0, 4) !== MAGIC) {
+      throw new Error("Not a merkle tree snapshot (bad magic)");
+    }
+
+    // Every header read is bounds checked, so a short file gets the same
+    // error as one whose sizes don't add up
+    let offset = 4;
+    const read = <T>(size: number, readValue: () => T): T => {
+      if (offset + size > data.length) {
+        throw new Error("Snapshot file is truncated or corrupt");
+      }
+      const value = readValue();
+      offset += size;
+      return value;
+    };
+
+    const version = read(1, () => data.readUInt8(offset));
+    if (version !== VERSION) {
+      throw new Error(`Unsupported snapshot version ${version}`);
+    }
+
+    const algorithmLength = read(1, () => data.readUInt8(offset));
+    const algorithm = read(algorithmLength, () =>
+      data.toString("utf8", offset, offset + algorithmLength)
+    );
+
+    const leafFormatLength = read(2, () => data.readUInt16LE(offset));
+    const leafFormat = read(leafFormatLength, () =>
+      data.toString("utf8", offset, offset + leafFormatLength)
+    );
+
+    const root = read(
+      HASH_SIZE,
+      () => "0x" + data.toString("hex", offset, offset + HASH_SIZE)
+    );
+
+    const leafCount = read(4, () => data.readUInt32LE(offset));
+    const levelCount = read(1, () => data.readUInt8(offset));
+    const levelCounts: number[] = [];
+    for (let i = 0; i < levelCount; i++) {
+      levelCounts.push(read(4, () => data.readUInt32LE(offset)));
+    }
+
+    for (const count of levelCounts) {
+      this.levelOffsets.push(offset);
+      offset += count * HASH_SIZE;
+    }
+    this.indexOffset = offset;
+
+    if (
+      levelCounts[0] !== leafCount ||
+      data.length !== offset + leafCount * INDEX_ENTRY_SIZE
+    ) {
+      throw new Error("Snapshot file is truncated or corrupt");
+    }
+
+    this.header = {
+      version,
+      algorithm,
+      leafFormat,
+      root,
+      leafCount,
+      levelCounts,
+    };
+  }
+
+  public static load(snapshotFile: string): TreeSnapshot {
+    return new TreeSnapshot(fs.readFileSync(snapshotFile));
+  }
+
+  public getRootHex(): string {
+    return this.header.root;
+  }
+
+  // Refuse to serve proofs for a recipients file the snapshot wasn't built
+  // from. The stored root is lowercase hex; the file's may be either case.
+  // The root field alone is not enough: a recipient edited without
+  // regenerating keeps the old root, so every leaf is hashed again and
+  // compared with the stored one.
+  public assertMatches(recipientsData: RecipientsFile) {
+    if (this.header.root !== recipientsData.merkleRoot.toLowerCase()) {
+      throw new Error(
+        `Snapshot root ${this.header.root} does not match merkleRoot ${recipientsData.merkleRoot}; regenerate the snapshot`
+      );
+    }
+    if (this.header.leafCount !== recipientsData.recipients.length) {
+      throw new Error(
+        `Snapshot has ${this.header.leafCount} leaves but the recipients file lists ${recipientsData.recipients.length}; regenerate the snapshot`
+      );
+    }
+    if (this.header.algorithm !== recipientsData.metadata?.algorithm) {
+      throw new Error(
+        `Snapshot algorithm ${this.header.algorithm} does not match ${recipientsData.metadata?.algorithm}`
+      );
+    }
+    for (const r of recipientsData.recipients) {
+      const leaf = createLeaf(
+        new PublicKey(r.publicKey),
+        r.amount,
+        this.header.algorithm
+      );
+      if (
+        r.index < 0 ||
+        r.index >= this.header.leafCount ||
+        !this.getNode(0, r.index).equals(leaf)
+      ) {
+        throw new Error(
+          `Recipient ${r.publicKey} (index ${r.index}, amount ${r.amount}) does not match the snapshot; regenerate the snapshot`
+        );
+      }
+    }
+  }
+
+  private getNode(level: number, index: number): Buffer {
+    const nodeOffset = this.levelOffsets[level] + index * HASH_SIZE;
+    return this.data.subarray(nodeOffset, nodeOffset + HASH_SIZE);
+  }
+
+  // Binary search the sorted index table
+  public findRecipient(
+    publicKey: string
+  ): { leafIndex: number; amount: string } | null {
+    const key = new PublicKey(publicKey).toBuffer();
+    let low = 0;
+    let high = this.header.leafCount - 1;
+
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      const entryOffset = this.indexOffset + mid * INDEX_ENTRY_SIZE;
+      const comparison = Buffer.compare(
+        this.data.subarray(entryOffset, entryOffset + 32),
+        key
+      );
+
+      if (comparison === 0) {
+        return {
+          leafIndex: this.data.readUInt32LE(entryOffset + 32),
+          amount: this.data.readBigUInt64LE(entryOffset + 36).toString(),
+        };
+      }
+      if (comparison < 0) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return null;
+  }
+
+  public getProof(leafIndex: number): Uint8Array[] {
+    if (leafIndex < 0 || leafIndex >= this.header.leafCount) {
+      throw new Error(`Leaf index ${leafIndex} out of range`);
+    }
+
+    const proof: Uint8Array[] = [];
+    let index = leafIndex;
+
+    for (let level = 0; level < this.header.levelCounts.length - 1; level++) {
+      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+      // Odd node was hashed with itself, so it is its own sibling
+      const nodeIndex =
+        siblingIndex < this.header.levelCounts[level] ? siblingIndex : index;
+      proof.push(new Uint8Array(this.getNode(level, nodeIndex)));
+
+      index = Math.floor(index / 2);
+    }
+
+    return proof;
+  }
+
+  public getProofData(publicKey: string): ProofData | null {
+    const entry = this.findRecipient(publicKey);
+    if (!entry) {
+      return null;
+    }
+
+    return {
+      proof: this.getProof(entry.leafIndex).map((p) => Array.from(p)),
+      leafIndex: entry.leafIndex,
+      amount: entry.amount,
+      recipient: publicKey,
+    };
+  }
+}
+
+// Load a snapshot and check it against the recipients file before use
+export function loadTreeSnapshot(
+  snapshotFile: string,
+  recipientsFile: string = "recipients.json"
+): TreeSnapshot {
+  const snapshot = TreeSnapshot.load(snapshotFile);
+  snapshot.assertMatches(loadRecipients(recipientsFile));
+  return snapshot;
+}
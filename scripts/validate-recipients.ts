@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AddressPolicy,
+  checkRecipientAddresses,
+  parseAddressPolicy,
+} from "./address-safety";
+import {
+  RecipientsFile,
+  ValidationError,
+  ValidationResult,
+  formatValidationResult,
+  validateRecipientsData,
+} from "./load-recipients";
+
+// Validate a recipients file on disk; JSON parse errors are reported as a
+// schema error at the root instead of being thrown. With an address policy,
+// unclaimable recipients are errors (block) or warnings (warn).
+export function validateRecipientsFileAt(
+  recipientsFile: string = "recipients.json",
+  options: { strict?: boolean; addressPolicy?: AddressPolicy } = {}
+): ValidationResult & { warnings: ValidationError[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(path.resolve(recipientsFile), "utf8"));
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [{ path: "$", message: `Cannot read JSON: ${error.message}` }],
+      warnings: [],
+    };
+  }
+
+  const result = validateRecipientsData(data, options);
+  if (!result.valid || !options.addressPolicy) {
+    return { ...result, warnings: [] };
+  }
+
+  const issues = checkRecipientAddresses(data as RecipientsFile).map(
+    (issue) => ({
+      path: `$.recipients[${issue.index}].publicKey`,
+      message: `Cannot claim (${issue.kind}): ${issue.message}`,
+    })
+  );
+  return options.addressPolicy === "block"
+    ? { valid: issues.length === 0, errors: issues, warnings: [] }
+    : { valid: true, errors: [], warnings: issues };
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--help")) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/validate-recipients.ts [recipients.json] [--strict] [--address-policy <block|warn>] [--json]"
+    );
+    console.log("");
+    console.log("🔧 Options:");
+    console.log(
+      "  --strict   Also rebuild the merkle tree and check it matches merkleRoot"
+    );
+    console.log(
+      "  --address-policy  Also flag recipients that can never sign a claim (programs, sysvars, placeholders, PDAs)"
+    );
+    console.log(
+      "  --json     Print the result as JSON ({ valid, errors, warnings })"
+    );
+    process.exit(0);
+  }
+
+  const policyIndex = args.indexOf("--address-policy");
+  const recipientsFile =
+    args.find(
+      (arg, i) =>
+        !arg.startsWith("--") && (policyIndex === -1 || i !== policyIndex + 1)
+    ) || "recipients.json";
+  const result = validateRecipientsFileAt(recipientsFile, {
+    strict: args.includes("--strict"),
+    addressPolicy:
+      policyIndex !== -1
+        ? parseAddressPolicy(args[policyIndex + 1])
+        : undefined,
+  });
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    result.warnings.forEach((warning) =>
+      console.log(`⚠️  ${warning.path}: ${warning.message}`)
+    );
+    console.log(formatValidationResult(result, recipientsFile));
+  }
+  process.exit(result.valid ? 0 : 1);
+}
@@ -0,0 +1,193 @@
+import * as fs from "fs";
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import { SolanaDistributor } from "../target/types/solana_distributor";
+import { PublicKey } from "@solana/web3.js";
+import { assertValidRecipients, loadRecipients } from "./load-recipients";
+import { ProofData, generateProofForRecipient } from "./generate-proof";
+import {
+  DEFAULT_ALGORITHM,
+  computeRootFromProof,
+  createLeaf,
+  verifyProof,
+} from "./merkle-tree";
+import { findAirdropStatePda } from "./pda";
+import { currentPhase, phasesFromState } from "./phases";
+import { nowSeconds } from "./time";
+
+// Verify a proof JSON (as returned by generateProofForRecipient)
+export function verifyProofData(
+  proofData: ProofData,
+  root: Uint8Array | string,
+  algorithm: string = DEFAULT_ALGORITHM
+): boolean {
+  const leaf = createLeaf(
+    new PublicKey(proofData.recipient),
+    proofData.amount,
+    algorithm
+  );
+  return verifyProof(
+    leaf,
+    proofData.proof,
+    proofData.leafIndex,
+    root,
+    algorithm
+  );
+}
+
+// Fetch the root claims are checked against right now in the AirdropState
+// of airdropId: the early tier's root during the early access phase, the
+// merkle root otherwise
+export async function fetchOnChainMerkleRoot(
+  airdropId: string
+): Promise<{ root: string; earlyAccess: boolean }> {
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace
+    .SolanaDistributor as Program<SolanaDistributor>;
+
+  const airdropStatePda = findAirdropStatePda(program.programId, airdropId);
+
+  const airdropState = await program.account.airdropState.fetch(
+    airdropStatePda
+  );
+  const phases = phasesFromState(airdropState.phases);
+  const current = currentPhase(
+    phases,
+    airdropState.claimEndTime.toNumber(),
+    nowSeconds()
+  );
+  if (current.name === "early") {
+    return { root: phases.earlyRoot, earlyAccess: true };
+  }
+  return {
+    root: "0x" + Buffer.from(airdropState.merkleRoot).toString("hex"),
+    earlyAccess: false,
+  };
+}
+
+// Verify the proof for a recipient (public key) or a saved proof JSON file
+export async function verifyRecipientProof(
+  target: string,
+  options: { recipientsFile?: string; onChain?: boolean } = {}
+): Promise<boolean> {
+  const recipientsFile = options.recipientsFile || "recipients.json";
+
+  try {
+    const recipientsData = loadRecipients(recipientsFile);
+    assertValidRecipients(recipientsData, { source: recipientsFile });
+    const algorithm = recipientsData.metadata?.algorithm || DEFAULT_ALGORITHM;
+
+    // During the early access phase the program checks claims against the
+    // early tier's tree, so the proof has to come from that tree too
+    let root: string;
+    let earlyAccess = false;
+    if (options.onChain) {
+      ({ root, earlyAccess } = await fetchOnChainMerkleRoot(
+        recipientsData.airdropId
+      ));
+      console.log(
+        `⛓️  On-chain ${earlyAccess ? "early access " : ""}root: ${root}`
+      );
+    } else {
+      root = recipientsData.merkleRoot;
+      console.log(`📋 File root: ${root}`);
+    }
+
+    let proofData: ProofData | null;
+    if (target.endsWith(".json") && fs.existsSync(target)) {
+      console.log(`📄 Reading proof from ${target}`);
+      proofData = JSON.parse(fs.readFileSync(target, "utf8")) as ProofData;
+    } else {
+      proofData = generateProofForRecipient(target, recipientsFile, {
+        earlyAccess,
+      });
+    }
+
+    if (!proofData) {
+      throw new Error(
+        `No ${earlyAccess ? "early access " : ""}proof available for ${target}`
+      );
+    }
+
+    const leaf = createLeaf(
+      new PublicKey(proofData.recipient),
+      proofData.amount,
+      algorithm
+    );
+    const computedRoot = computeRootFromProof(
+      leaf,
+      proofData.proof,
+      proofData.leafIndex,
+      algorithm
+    );
+    const valid = verifyProof(
+      leaf,
+      proofData.proof,
+      proofData.leafIndex,
+      root,
+      algorithm
+    );
+
+    console.log(`🔍 Verifying proof for ${proofData.recipient}`);
+    console.log(`   Algorithm: ${algorithm}`);
+    console.log(`   Leaf Index: ${proofData.leafIndex}`);
+    console.log(`   Amount: ${proofData.amount} lamports`);
+    console.log(`   Leaf: 0x${Buffer.from(leaf).toString("hex")}`);
+    console.log(
+      `   Computed root: 0x${Buffer.from(computedRoot).toString("hex")}`
+    );
+
+    if (valid) {
+      console.log("✅ Proof is valid");
+    } else {
+      console.log("❌ Proof does NOT match the expected root");
+    }
+
+    return valid;
+  } catch (error) {
+    console.error("❌ Error verifying proof:", error);
+    return false;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const onChain = args.includes("--onchain");
+  const recipientsFlag = args.indexOf("--recipients");
+  const recipientsFile =
+    recipientsFlag !== -1 ? args[recipientsFlag + 1] : "recipients.json";
+  const positional = args.filter(
+    (arg, i) => !arg.startsWith("--") && args[i - 1] !== "--recipients"
+  );
+
+  if (positional.length === 0) {
+    console.log("📋 Usage:");
+    console.log(
+      "  ts-node scripts/verify-proof.ts <public_key | proof.json> [--onchain] [--recipients <file>]"
+    );
+    console.log("");
+    console.log("📝 Examples:");
+    console.log(
+      "  ts-node scripts/verify-proof.ts HcCcKydEcuGMbBso7jciQrFpBw1XQrKHKFckGSAxXXQG"
+    );
+    console.log("  ts-node scripts/verify-proof.ts proof.json --onchain");
+    process.exit(1);
+  }
+
+  if (onChain && !process.env.ANCHOR_PROVIDER_URL) {
+    process.env.ANCHOR_PROVIDER_URL = "https://api.devnet.solana.com";
+  }
+  if (onChain && !process.env.ANCHOR_WALLET) {
+    process.env.ANCHOR_WALLET = "test-wallet-1.json";
+  }
+
+  verifyRecipientProof(positional[0], { recipientsFile, onChain })
+    .then((valid) => process.exit(valid ? 0 : 1))
+    .catch((error) => {
+      console.error("💥 Failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,145 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import { SolanaDistributor } from "../target/types/solana_distributor";
+import { formatAmount, loadRecipients } from "./load-recipients";
+import { campaignFlag } from "./campaigns";
+import {
+  DistributorClient,
+  formatPhase,
+  getClaimPhase,
+} from "./distributor-client";
+import { nowSeconds } from "./time";
+import {
+  VestingStatus,
+  formatVesting,
+  vestingFromState,
+  vestingStatus,
+} from "./vesting";
+
+export interface RecipientVestingStatus extends VestingStatus {
+  publicKey: string;
+}
+
+// Vested, claimed and remaining amounts of every recipient (or only the
+// given ones), from the on-chain schedule and claim status accounts
+export async function getVestingStatuses(
+  recipientsFile: string = "recipients.json",
+  only: string[] = []
+): Promise<RecipientVestingStatus[]> {
+  try {
+    const recipientsData = loadRecipients(recipientsFile);
+    const recipients = only.length
+      ? only.map((publicKey) => {
+          const recipient = recipientsData.recipients.find(
+            (r) => r.publicKey === publicKey
+          );
+          if (!recipient) {
+            throw new Error(
+              `Recipient ${publicKey} not found in ${recipientsFile}`
+            );
+          }
+          return recipient;
+        })
+      : recipientsData.recipients;
+
+    // Set up Anchor
+    const provider = anchor.AnchorProvider.env();
+    anchor.setProvider(provider);
+
+    const program = anchor.workspace
+      .SolanaDistributor as Program<SolanaDistributor>;
+
+    const client = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      recipientsData.airdropId,
+      provider.opts
+    );
+    const airdropState = await client.getAirdropState();
+    if (!airdropState) {
+      throw new Error("Airdrop is not initialized");
+    }
+
+    const now = nowSeconds();
+    const { phases, current } = getClaimPhase(airdropState, now);
+    console.log(`🚦 Phase: ${formatPhase(phases, current, now)}`);
+    if (airdropState.clawedBack) {
+      console.log("🔒 Unclaimed funds were clawed back; the airdrop is closed");
+    } else if (airdropState.paused) {
+      console.log("⏸️  Claims are paused by the authority");
+    }
+
+    const schedule = vestingFromState(airdropState.vesting);
+    console.log(`📅 Vesting: ${formatVesting(schedule)}`);
+
+    const claimStatuses = await client.getClaimStatuses(
+      recipients.map((r) => r.publicKey)
+    );
+    const statuses = recipients.map((r, i) => ({
+      publicKey: r.publicKey,
+      ...vestingStatus(
+        schedule,
+        BigInt(r.amount),
+        claimStatuses[i].withdrawn,
+        now
+      ),
+    }));
+
+    const format = (amount: bigint) => formatAmount(recipientsData, amount);
+    for (const status of statuses) {
+      console.log(
+        `   ${status.publicKey}: vested ${format(status.vested)} of ${format(
+          status.total
+        )}, claimed ${format(status.claimed)}, remaining ${format(
+          status.remaining
+        )}`
+      );
+    }
+
+    const sum = (field: keyof VestingStatus) =>
+      statuses.reduce((total, status) => total + status[field], BigInt(0));
+    console.log(
+      `📊 ${statuses.length} recipients: vested ${format(
+        sum("vested")
+      )}, claimed ${format(sum("claimed"))}, claimable now ${format(
+        sum("claimable")
+      )}, remaining ${format(sum("remaining"))}`
+    );
+
+    return statuses;
+  } catch (error) {
+    console.error("❌ Error reading vesting status:", error);
+    throw error;
+  }
+}
+
+// Command line interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const valueFlags = ["--campaign", "--recipient"];
+  const only = args.flatMap((arg, i) =>
+    args[i - 1] === "--recipient" ? [arg] : []
+  );
+  const recipientsFile =
+    campaignFlag(args)?.recipients ||
+    args.find(
+      (arg, i) => !arg.startsWith("--") && !valueFlags.includes(args[i - 1])
+    ) ||
+    "recipients.json";
+
+  // Set environment variables if not already set
+  if (!process.env.ANCHOR_PROVIDER_URL) {
+    process.env.ANCHOR_PROVIDER_URL = "https://api.devnet.solana.com";
+  }
+  if (!process.env.ANCHOR_WALLET) {
+    process.env.ANCHOR_WALLET = "test-wallet-1.json";
+  }
+
+  getVestingStatuses(recipientsFile, only)
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("💥 Failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,125 @@
+// Vesting math mirrored from the program, so scripts and dApps can show what a
+// claim pays before sending it. Kept free of the IDL, like pda.ts.
+import { formatDuration, formatTimestamp } from "./time";
+
+// The program's Vesting: nothing until startTime + cliffSeconds, then linear
+// until startTime + durationSeconds. All zero means no vesting.
+export interface VestingSchedule {
+  startTime: number;
+  cliffSeconds: number;
+  durationSeconds: number;
+}
+
+export const NO_VESTING: VestingSchedule = {
+  startTime: 0,
+  cliffSeconds: 0,
+  durationSeconds: 0,
+};
+
+export interface VestingStatus {
+  // The recipient's leaf amount
+  total: bigint;
+  vested: bigint;
+  // Withdrawn so far, from the claim status account
+  claimed: bigint;
+  // Vested but not withdrawn: what a claim pays right now
+  claimable: bigint;
+  // Not withdrawn yet, vested or not
+  remaining: bigint;
+}
+
+// Vesting as decoded from AirdropState, with i64 fields as BN
+export function vestingFromState(vesting: {
+  startTime: { toString(): string };
+  cliffSeconds: { toString(): string };
+  durationSeconds: { toString(): string };
+}): VestingSchedule {
+  return {
+    startTime: Number(vesting.startTime.toString()),
+    cliffSeconds: Number(vesting.cliffSeconds.toString()),
+    durationSeconds: Number(vesting.durationSeconds.toString()),
+  };
+}
+
+// The same checks as require_valid_vesting, so a bad schedule fails before
+// anything is sent
+export function assertValidVesting(
+  schedule: VestingSchedule,
+  claimEndTime: number = 0
+) {
+  const { startTime, cliffSeconds, durationSeconds } = schedule;
+  if (durationSeconds === 0) {
+    if (startTime !== 0 || cliffSeconds !== 0) {
+      throw new Error("Vesting start and cliff need a vesting duration");
+    }
+    return;
+  }
+
+  if (durationSeconds < 0 || cliffSeconds < 0) {
+    throw new Error("Vesting cliff and duration must not be negative");
+  }
+  if (cliffSeconds > durationSeconds) {
+    throw new Error(
+      `Vesting cliff (${formatDuration(
+        cliffSeconds
+      )}) is longer than the duration (${formatDuration(durationSeconds)})`
+    );
+  }
+  if (claimEndTime !== 0 && startTime + durationSeconds > claimEndTime) {
+    throw new Error(
+      `Vesting ends at ${formatTimestamp(
+        startTime + durationSeconds
+      )}, after claims close at ${formatTimestamp(claimEndTime)}`
+    );
+  }
+}
+
+export function vestedAmount(
+  schedule: VestingSchedule,
+  amount: bigint,
+  now: number
+): bigint {
+  if (schedule.durationSeconds === 0) {
+    return amount;
+  }
+
+  const elapsed = now - schedule.startTime;
+  if (elapsed <= 0 || elapsed < schedule.cliffSeconds) {
+    return BigInt(0);
+  }
+  if (elapsed >= schedule.durationSeconds) {
+    return amount;
+  }
+
+  return (amount * BigInt(elapsed)) / BigInt(schedule.durationSeconds);
+}
+
+export function vestingStatus(
+  schedule: VestingSchedule,
+  amount: bigint,
+  withdrawn: bigint,
+  now: number
+): VestingStatus {
+  const vested = vestedAmount(schedule, amount, now);
+  return {
+    total: amount,
+    vested,
+    claimed: withdrawn,
+    claimable: vested > withdrawn ? vested - withdrawn : BigInt(0),
+    remaining: amount > withdrawn ? amount - withdrawn : BigInt(0),
+  };
+}
+
+export function formatVesting(schedule: VestingSchedule): string {
+  if (schedule.durationSeconds === 0) {
+    return "none (everything claimable at once)";
+  }
+
+  const cliff =
+    schedule.cliffSeconds > 0
+      ? `, cliff ${formatDuration(schedule.cliffSeconds)}`
+      : "";
+  return `linear from ${formatTimestamp(
+    schedule.startTime
+  )} over ${formatDuration(schedule.durationSeconds)}${cliff}`;
+}
@@ -0,0 +1,78 @@
+import { Keypair, PublicKey, SYSVAR_RENT_PUBKEY } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  checkAddress,
+  checkRecipientAddresses,
+  enforceAddressSafety,
+  parseAddressPolicy,
+} from "../scripts/address-safety";
+import { RecipientsFile } from "../scripts/load-recipients";
+import { LEAF_FORMAT } from "../scripts/merkle-tree";
+
+describe("address-safety", () => {
+  const wallet = Keypair.generate().publicKey.toString();
+  const programId = Keypair.generate().publicKey;
+  const [pda] = PublicKey.findProgramAddressSync(
+    [Buffer.from("vault")],
+    programId
+  );
+
+  const fileWith = (publicKeys: string[]): RecipientsFile => ({
+    airdropId: "test-airdrop",
+    description: "",
+    merkleRoot: "0x" + "00".repeat(32),
+    totalAmount: `${publicKeys.length * 100}`,
+    network: "localnet",
+    programId: programId.toString(),
+    recipients: publicKeys.map((publicKey, index) => ({
+      publicKey,
+      amount: "100",
+      index,
+    })),
+    metadata: {
+      createdAt: "2025-01-01T00:00:00Z",
+      version: "1.0.0",
+      algorithm: "keccak256",
+      leafFormat: LEAF_FORMAT,
+    },
+  });
+
+  it("Classifies programs, sysvars, placeholders and PDAs", () => {
+    expect(checkAddress("11111111111111111111111111111111").kind).to.equal(
+      "program"
+    );
+    expect(checkAddress(SYSVAR_RENT_PUBKEY.toString()).kind).to.equal("sysvar");
+    expect(checkAddress("11111111111111111111111111111112").kind).to.equal(
+      "placeholder"
+    );
+    expect(checkAddress(pda.toString()).kind).to.equal("off-curve");
+    expect(checkAddress(wallet)).to.be.null;
+  });
+
+  it("Flags the distributor program and skips allowed addresses", () => {
+    const data = fileWith([wallet, programId.toString(), pda.toString()]);
+
+    expect(
+      checkRecipientAddresses(data).map((issue) => [issue.index, issue.kind])
+    ).to.deep.equal([
+      [1, "program"],
+      [2, "off-curve"],
+    ]);
+    expect(
+      checkRecipientAddresses(data, { allow: [pda.toString()] })
+    ).to.have.length(1);
+  });
+
+  it("Blocks by default and only reports under the warn policy", () => {
+    const data = fileWith([wallet, pda.toString()]);
+
+    expect(() => enforceAddressSafety(data)).to.throw(
+      "1 unclaimable recipient addresses"
+    );
+    expect(enforceAddressSafety(data, { policy: "warn" })).to.have.length(1);
+    expect(enforceAddressSafety(fileWith([wallet]))).to.deep.equal([]);
+    expect(() => parseAddressPolicy("ignore")).to.throw(
+      'Unknown address policy "ignore"'
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import { allocate, parseTiers } from "../scripts/allocate";
+
+describe("allocate", () => {
+  // Sorted by key bytes, which is also the order of the output file
+  const [a, b, c, d] = Array.from({ length: 4 }, () =>
+    Keypair.generate().publicKey.toBuffer()
+  )
+    .sort(Buffer.compare)
+    .map((key) => new PublicKey(key).toString());
+
+  const amounts = (result: ReturnType<typeof allocate>) =>
+    result.data.recipients.map((r) => [r.publicKey, r.amount]);
+
+  it("Splits pro-rata and gives the dust to the largest remainders", () => {
+    const result = allocate(
+      [
+        { publicKey: c, weight: "1" },
+        { publicKey: a, weight: "1" },
+        { publicKey: b, weight: "1" },
+      ],
+      { strategy: "pro-rata", budget: BigInt(100) }
+    );
+
+    // Equal remainders, so the single dust lamport goes to the lowest key
+    expect(amounts(result)).to.deep.equal([
+      [a, "34"],
+      [b, "33"],
+      [c, "33"],
+    ]);
+    expect(result.data.totalAmount).to.equal("100");
+    expect(result.data.recipients.map((r) => r.index)).to.deep.equal([0, 1, 2]);
+    expect(result.report.dust).to.equal("1");
+  });
+
+  it("Handles decimal weights, duplicates and zero weights", () => {
+    const result = allocate(
+      [
+        { publicKey: a, weight: "0.5" },
+        { publicKey: b, weight: "1" },
+        { publicKey: a, weight: "1" },
+        { publicKey: c, weight: "0" },
+      ],
+      { strategy: "pro-rata", budget: BigInt(1000) }
+    );
+
+    expect(amounts(result)).to.deep.equal([
+      [a, "600"],
+      [b, "400"],
+    ]);
+    expect(result.report.excluded).to.deep.equal([c]);
+  });
+
+  it("Applies min and max caps and still spends the exact budget", () => {
+    const result = allocate(
+      [
+        { publicKey: a, weight: "1000" },
+        { publicKey: b, weight: "100" },
+        { publicKey: c, weight: "10" },
+        { publicKey: d, weight: "1" },
+      ],
+      {
+        strategy: "pro-rata",
+        budget: BigInt(1000),
+        minAmount: BigInt(50),
+        maxAmount: BigInt(500),
+      }
+    );
+
+    expect(amounts(result)).to.deep.equal([
+      [a, "500"],
+      [b, "400"],
+      [c, "50"],
+      [d, "50"],
+    ]);
+    expect(result.report.cappedAtMax).to.equal(1);
+    expect(result.report.raisedToMin).to.equal(2);
+    expect(result.data.totalAmount).to.equal("1000");
+  });
+
+  it("Gives tiered and equal shares", () => {
+    const weights = [
+      { publicKey: a, weight: "5000" },
+      { publicKey: b, weight: "150" },
+      { publicKey: c, weight: "20" },
+      { publicKey: d, weight: "5" },
+    ];
+
+    expect(
+      amounts(
+        allocate(weights, {
+          strategy: "tiered",
+          budget: BigInt(600),
+          tiers: parseTiers("1000:3,100:2,10:1"),
+        })
+      )
+    ).to.deep.equal([
+      [a, "300"],
+      [b, "200"],
+      [c, "100"],
+    ]);
+    expect(
+      amounts(allocate(weights, { strategy: "equal", budget: BigInt(400) }))
+    ).to.deep.equal([
+      [a, "100"],
+      [b, "100"],
+      [c, "100"],
+      [d, "100"],
+    ]);
+  });
+
+  it("Rejects caps the budget cannot satisfy", () => {
+    const weights = [
+      { publicKey: a, weight: "1" },
+      { publicKey: b, weight: "1" },
+    ];
+
+    expect(() =>
+      allocate(weights, {
+        strategy: "equal",
+        budget: BigInt(100),
+        minAmount: BigInt(60),
+      })
+    ).to.throw("too small");
+    expect(() =>
+      allocate(weights, {
+        strategy: "equal",
+        budget: BigInt(100),
+        maxAmount: BigInt(40),
+      })
+    ).to.throw("cannot be spent");
+    expect(() => parseTiers("1000")).to.throw("Invalid tier");
+  });
+});
@@ -0,0 +1,72 @@
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import { keccak_256 } from "js-sha3";
+import {
+  U64_MAX,
+  formatSol,
+  formatUnits,
+  parseLamports,
+  solToLamports,
+  sumLamports,
+} from "../scripts/amounts";
+import { createLeaf } from "../scripts/merkle-tree";
+
+describe("amounts", () => {
+  it("Parses lamports up to u64 and rejects anything else", () => {
+    expect(parseLamports("75000000")).to.equal(BigInt(75_000_000));
+    expect(parseLamports(" 18446744073709551615 ")).to.equal(U64_MAX);
+    expect(parseLamports(42)).to.equal(BigInt(42));
+
+    expect(() => parseLamports("18446744073709551616")).to.throw(
+      "exceeds the u64 maximum"
+    );
+    expect(() => parseLamports(U64_MAX + BigInt(1))).to.throw("u64");
+    expect(() => parseLamports(BigInt(-1))).to.throw("negative");
+    expect(() => parseLamports("1.5")).to.throw("whole number");
+    expect(() => parseLamports("-5")).to.throw("whole number");
+    expect(() => parseLamports(2 ** 53)).to.throw("whole number");
+  });
+
+  it("Fails when a total overflows u64", () => {
+    expect(sumLamports(["1", BigInt(2), 3])).to.equal(BigInt(6));
+    expect(() => sumLamports([U64_MAX, "1"])).to.throw(
+      "Total amount 18446744073709551616 exceeds"
+    );
+  });
+
+  it("Converts between SOL and lamports exactly", () => {
+    expect(solToLamports("0.1")).to.equal(BigInt(100_000_000));
+    expect(solToLamports("1.000000001")).to.equal(BigInt(1_000_000_001));
+    expect(solToLamports("18446744073.709551615")).to.equal(U64_MAX);
+    // 0.1 + 0.2 style float error would give 300000000.00000006
+    expect(solToLamports("0.3")).to.equal(BigInt(300_000_000));
+    expect(() => solToLamports("0.0000000001")).to.throw("decimal places");
+    expect(() => solToLamports("1e9")).to.throw("not a decimal");
+
+    expect(formatSol(BigInt(1_500_000_000))).to.equal("1.5");
+    expect(formatSol("75000000")).to.equal("0.075");
+    expect(formatSol(U64_MAX)).to.equal("18446744073.709551615");
+    expect(formatSol(BigInt(0))).to.equal("0");
+
+    // Token amounts use the mint's decimals
+    expect(formatUnits("1500", 3)).to.equal("1.5");
+    expect(formatUnits("1500", 0)).to.equal("1500");
+    expect(formatUnits(BigInt(7), 6)).to.equal("0.000007");
+  });
+
+  it("Encodes amounts above 2^53 exactly in the leaf", () => {
+    const recipient = Keypair.generate().publicKey;
+    const amount = BigInt("9007199254740993"); // 2^53 + 1
+
+    const data = Buffer.alloc(41);
+    recipient.toBuffer().copy(data, 0);
+    data.writeBigUInt64LE(amount, 32);
+    const expected = Buffer.from(keccak_256.arrayBuffer(data));
+
+    expect(Buffer.from(createLeaf(recipient, amount))).to.deep.equal(expected);
+    expect(Buffer.from(createLeaf(recipient, amount.toString()))).to.deep.equal(
+      expected
+    );
+    expect(() => createLeaf(recipient, U64_MAX + BigInt(1))).to.throw("u64");
+  });
+});
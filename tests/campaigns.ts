@@ -0,0 +1,114 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  campaignPaths,
+  campaignStatus,
+  createCampaign,
+  listCampaigns,
+  recordDeployment,
+} from "../scripts/campaigns";
+import { RecipientsFile } from "../scripts/load-recipients";
+import { LEAF_FORMAT } from "../scripts/merkle-tree";
+
+describe("campaigns", () => {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "campaigns-"));
+  const root = path.join(workDir, "campaigns");
+  const sourceFile = path.join(workDir, "recipients.json");
+
+  before(() => {
+    const data: RecipientsFile = {
+      airdropId: "template",
+      description: "",
+      merkleRoot: "0x" + "00".repeat(32),
+      totalAmount: "1000",
+      network: "localnet",
+      programId: "WILL_BE_UPDATED_AFTER_DEPLOYMENT",
+      recipients: [
+        {
+          publicKey: Keypair.generate().publicKey.toString(),
+          amount: "1000",
+          index: 0,
+        },
+      ],
+      metadata: {
+        createdAt: "2025-01-01T00:00:00Z",
+        version: "1.0.0",
+        algorithm: "keccak256",
+        leafFormat: LEAF_FORMAT,
+      },
+    };
+    fs.writeFileSync(sourceFile, JSON.stringify(data));
+  });
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("Creates one directory per airdropId and rejects unsafe ids", () => {
+    const paths = createCampaign("spring-2025", sourceFile, root);
+
+    expect(paths.recipients).to.equal(
+      path.join(root, "spring-2025", "recipients.json")
+    );
+    expect(
+      JSON.parse(fs.readFileSync(paths.recipients, "utf8")).airdropId
+    ).to.equal("spring-2025");
+    expect(() => createCampaign("spring-2025", sourceFile, root)).to.throw(
+      "already exists"
+    );
+    expect(() => campaignPaths("../escape")).to.throw("may only contain");
+  });
+
+  it("Drops the signature and root copied from a different airdropId", () => {
+    const signedFile = path.join(workDir, "signed.json");
+    const signed = JSON.parse(fs.readFileSync(sourceFile, "utf8"));
+    signed.merkleRoot = "0x" + "ab".repeat(32);
+    signed.metadata.signature = {
+      scheme: "ed25519",
+      signer: Keypair.generate().publicKey.toString(),
+      manifestHash: "ab".repeat(32),
+      signature: "sig",
+      signedAt: "2025-01-01T00:00:00Z",
+    };
+    fs.writeFileSync(signedFile, JSON.stringify(signed));
+
+    const paths = createCampaign("a-copied", signedFile, root);
+    const data = JSON.parse(fs.readFileSync(paths.recipients, "utf8"));
+    expect(data.metadata.signature).to.be.undefined;
+    expect(data.merkleRoot).to.equal("0x" + "00".repeat(32));
+    expect(campaignStatus("a-copied", root).stage).to.equal("draft");
+  });
+
+  it("Lists campaigns with their lifecycle stage", () => {
+    const generated = createCampaign("b-generated", sourceFile, root);
+    const data = JSON.parse(fs.readFileSync(generated.recipients, "utf8"));
+    data.merkleRoot = "0x" + "ab".repeat(32);
+    fs.writeFileSync(generated.recipients, JSON.stringify(data));
+
+    const initialized = createCampaign("c-initialized", sourceFile, root);
+    recordDeployment(initialized.deployment, {
+      airdropId: "c-initialized",
+      network: "localnet",
+      programId: Keypair.generate().publicKey.toString(),
+      airdropStatePda: Keypair.generate().publicKey.toString(),
+      authority: Keypair.generate().publicKey.toString(),
+      merkleRoot: data.merkleRoot,
+      totalAmount: "1000",
+      signature: "sig",
+      initializedAt: "2025-01-02T00:00:00Z",
+    });
+
+    expect(
+      listCampaigns(root).map((c) => [c.airdropId, c.stage])
+    ).to.deep.equal([
+      ["a-copied", "draft"],
+      ["b-generated", "generated"],
+      ["c-initialized", "initialized"],
+      ["spring-2025", "draft"],
+    ]);
+    expect(listCampaigns(path.join(workDir, "missing"))).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,203 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  EARLY_ACCESS_DIR,
+  exportProofBundle,
+  getProofPath,
+  getShardPrefix,
+} from "../scripts/export-proofs";
+import {
+  buildEarlyAccessTree,
+  buildMerkleTree,
+} from "../scripts/generate-proof";
+import { RecipientsFile } from "../scripts/load-recipients";
+import { LEAF_FORMAT } from "../scripts/merkle-tree";
+import { verifyProofData } from "../scripts/verify-proof";
+
+describe("export-proofs", () => {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "export-proofs-"));
+  const recipientsFile = path.join(workDir, "recipients.json");
+
+  const writeRecipients = (
+    count: number,
+    algorithm = "keccak256",
+    earlyAccess: number[] = []
+  ) => {
+    const recipients = Array.from({ length: count }, (_, index) => ({
+      publicKey: Keypair.generate().publicKey.toString(),
+      amount: `${(index + 1) * 1000}`,
+      index,
+      ...(earlyAccess.includes(index) ? { earlyAccess: true } : {}),
+    }));
+    const data: RecipientsFile = {
+      airdropId: "export-test",
+      description: "",
+      merkleRoot: "",
+      totalAmount: recipients
+        .reduce((sum, r) => sum + BigInt(r.amount), 0n)
+        .toString(),
+      network: "localnet",
+      programId: Keypair.generate().publicKey.toString(),
+      recipients,
+      metadata: {
+        createdAt: "2025-01-01T00:00:00Z",
+        version: "1.0.0",
+        algorithm,
+        leafFormat: LEAF_FORMAT,
+      },
+    };
+    data.merkleRoot = buildMerkleTree(data).getRootHex();
+    data.earlyAccessRoot = buildEarlyAccessTree(data)?.getRootHex();
+    fs.writeFileSync(recipientsFile, JSON.stringify(data, null, 2));
+    return data;
+  };
+
+  const readJson = (file: string) => JSON.parse(fs.readFileSync(file, "utf8"));
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("Shards proofs by public key prefix", () => {
+    const key = "HcCcKydEcuGMbBso7jciQrFpBw1XQrKHKFckGSAxXXQG";
+    expect(getShardPrefix(key)).to.equal("Hc");
+    expect(getProofPath(key, 3)).to.equal(`HcC/${key}.json`);
+
+    const data = writeRecipients(40);
+    const outputDir = path.join(workDir, "sharded");
+    const manifest = exportProofBundle(recipientsFile, outputDir, 1);
+
+    const prefixes = new Set(data.recipients.map((r) => r.publicKey[0]));
+    expect(
+      fs
+        .readdirSync(outputDir)
+        .filter((entry) => entry !== "manifest.json")
+        .sort()
+    ).to.deep.equal([...prefixes].sort());
+    for (const prefix of prefixes) {
+      expect(fs.readdirSync(path.join(outputDir, prefix)).sort()).to.deep.equal(
+        data.recipients
+          .filter((r) => r.publicKey[0] === prefix)
+          .map((r) => `${r.publicKey}.json`)
+          .sort()
+      );
+    }
+    expect(manifest.shardCount).to.equal(prefixes.size);
+  });
+
+  it("Writes one verifiable proof per recipient and a manifest", () => {
+    for (const algorithm of ["keccak256", "sha256-sorted"]) {
+      const data = writeRecipients(7, algorithm);
+      const outputDir = path.join(workDir, `bundle-${algorithm}`);
+      const manifest = exportProofBundle(recipientsFile, outputDir);
+
+      for (const recipient of data.recipients) {
+        const proofData = readJson(
+          path.join(outputDir, getProofPath(recipient.publicKey))
+        );
+        expect(proofData).to.include({
+          leafIndex: recipient.index,
+          amount: recipient.amount,
+          recipient: recipient.publicKey,
+        });
+        expect(verifyProofData(proofData, data.merkleRoot, algorithm)).to.be
+          .true;
+      }
+
+      expect(manifest).to.deep.include({
+        airdropId: "export-test",
+        merkleRoot: data.merkleRoot,
+        algorithm,
+        recipientCount: 7,
+        shardCount: new Set(
+          data.recipients.map((r) => getShardPrefix(r.publicKey))
+        ).size,
+        prefixLength: 2,
+        pathTemplate: "{prefix}/{publicKey}.json",
+      });
+      expect(readJson(path.join(outputDir, "manifest.json"))).to.deep.equal(
+        manifest
+      );
+      expect(manifest.earlyAccess).to.be.undefined;
+      expect(fs.existsSync(path.join(outputDir, EARLY_ACCESS_DIR))).to.be.false;
+    }
+  });
+
+  it("Exports the early access tier's proofs next to the main ones", () => {
+    const data = writeRecipients(6, "keccak256", [1, 4, 5]);
+    const outputDir = path.join(workDir, "early-access");
+    const manifest = exportProofBundle(recipientsFile, outputDir);
+
+    const tier = [1, 4, 5].map((i) => data.recipients[i]);
+    tier.forEach((recipient, tierIndex) => {
+      const proofData = readJson(
+        path.join(
+          outputDir,
+          EARLY_ACCESS_DIR,
+          getProofPath(recipient.publicKey)
+        )
+      );
+      // Leaf indices are positions within the tier
+      expect(proofData.leafIndex).to.equal(tierIndex);
+      expect(verifyProofData(proofData, data.earlyAccessRoot)).to.be.true;
+      expect(verifyProofData(proofData, data.merkleRoot)).to.be.false;
+    });
+    for (const recipient of data.recipients) {
+      expect(
+        verifyProofData(
+          readJson(path.join(outputDir, getProofPath(recipient.publicKey))),
+          data.merkleRoot
+        )
+      ).to.be.true;
+    }
+
+    expect(manifest.recipientCount).to.equal(6);
+    expect(manifest.earlyAccess).to.deep.equal({
+      merkleRoot: data.earlyAccessRoot,
+      recipientCount: 3,
+      shardCount: new Set(tier.map((r) => getShardPrefix(r.publicKey))).size,
+      pathTemplate: "early/{prefix}/{publicKey}.json",
+    });
+
+    // A tier edited without regenerating
+    data.recipients[2].earlyAccess = true;
+    fs.writeFileSync(recipientsFile, JSON.stringify(data));
+    expect(() => exportProofBundle(recipientsFile, outputDir)).to.throw(
+      "does not match earlyAccessRoot"
+    );
+  });
+
+  it("Refuses a stale root or a bad prefix length", () => {
+    const data = writeRecipients(3);
+    const outputDir = path.join(workDir, "refused");
+
+    // Hex case is not significant, and the manifest root is lowercase
+    fs.writeFileSync(
+      recipientsFile,
+      JSON.stringify({
+        ...data,
+        merkleRoot: "0x" + data.merkleRoot.slice(2).toUpperCase(),
+      })
+    );
+    expect(exportProofBundle(recipientsFile, outputDir).merkleRoot).to.equal(
+      data.merkleRoot
+    );
+
+    // An amount edited without regenerating the tree
+    data.recipients[1].amount = "2001";
+    data.totalAmount = "6001";
+    fs.writeFileSync(recipientsFile, JSON.stringify(data));
+    expect(() => exportProofBundle(recipientsFile, outputDir)).to.throw(
+      "does not match merkleRoot"
+    );
+
+    for (const prefixLength of [NaN, 0, -1, 1.5]) {
+      expect(() =>
+        exportProofBundle(recipientsFile, outputDir, prefixLength)
+      ).to.throw("Prefix length must be a positive integer");
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  filterOutputFiles,
+  filterRecipients,
+  filterRecipientsFile,
+  loadFilterList,
+} from "../scripts/filter-recipients";
+import { RecipientsFile } from "../scripts/load-recipients";
+import { LEAF_FORMAT } from "../scripts/merkle-tree";
+
+describe("filter-recipients", () => {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "filter-recipients-"));
+  const [a, b, c, d] = Array.from({ length: 4 }, () =>
+    Keypair.generate().publicKey.toString()
+  );
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const file = (): RecipientsFile => ({
+    airdropId: "test-airdrop",
+    description: "",
+    merkleRoot: "0x" + "00".repeat(32),
+    totalAmount: "1000",
+    network: "localnet",
+    programId: "WILL_BE_UPDATED_AFTER_DEPLOYMENT",
+    recipients: [
+      { publicKey: a, amount: "100", index: 0 },
+      { publicKey: b, amount: "200", index: 1 },
+      { publicKey: c, amount: "300", index: 2 },
+      { publicKey: d, amount: "400", index: 3 },
+    ],
+    metadata: {
+      createdAt: "2025-01-01T00:00:00Z",
+      version: "1.0.0",
+      algorithm: "keccak256",
+      leafFormat: LEAF_FORMAT,
+    },
+  });
+
+  it("Reads plain lists with comments and CSV lists with reasons", () => {
+    const plain = path.join(workDir, "team.txt");
+    fs.writeFileSync(plain, `# team wallets\n${a} # founder\n\n${b}\n`);
+    const csv = path.join(workDir, "sanctioned.csv");
+    fs.writeFileSync(csv, `address,reason\n${c},"OFAC, 2025-01"\n`);
+
+    expect(loadFilterList(plain).entries).to.deep.equal([
+      { publicKey: a, reason: "founder" },
+      { publicKey: b, reason: undefined },
+    ]);
+    expect(loadFilterList(csv).entries).to.deep.equal([
+      { publicKey: c, reason: "OFAC, 2025-01" },
+    ]);
+
+    fs.writeFileSync(plain, `${a}\nnot-a-key\n`);
+    expect(() => loadFilterList(plain)).to.throw(`team.txt:2`);
+  });
+
+  it("Removes denied recipients and recalculates the total", () => {
+    const { data, audit } = filterRecipients(file(), {
+      deny: [
+        {
+          source: "team.txt",
+          entries: [{ publicKey: b }, { publicKey: d, reason: "exchange" }],
+        },
+      ],
+    });
+
+    expect(data.recipients).to.deep.equal([
+      { publicKey: a, amount: "100", index: 0 },
+      { publicKey: c, amount: "300", index: 1 },
+    ]);
+    expect(data.totalAmount).to.equal("400");
+    expect(audit.removedAmount).to.equal("600");
+    expect(audit.removed.map((r) => [r.publicKey, r.reason])).to.deep.equal([
+      [b, "Listed in denylist team.txt"],
+      [d, "exchange"],
+    ]);
+  });
+
+  it("Keeps only allowlisted recipients and can redistribute", () => {
+    const { data, audit } = filterRecipients(file(), {
+      allow: [
+        { source: "kyc.csv", entries: [{ publicKey: a }, { publicKey: c }] },
+      ],
+      policy: "redistribute",
+    });
+
+    expect(data.recipients.map((r) => [r.publicKey, r.amount])).to.deep.equal([
+      [a, "250"],
+      [c, "750"],
+    ]);
+    expect(data.totalAmount).to.equal("1000");
+    expect(audit.removed.every((r) => r.list === "allow")).to.be.true;
+  });
+
+  it("Refuses to remove every recipient", () => {
+    expect(() =>
+      filterRecipients(file(), {
+        allow: [{ source: "empty.txt", entries: [] }],
+      })
+    ).to.throw("every recipient");
+  });
+
+  it("Leaves the source file alone unless asked to filter in place", () => {
+    const source = path.join(workDir, "recipients.json");
+    const original = JSON.stringify(file(), null, 2);
+    fs.writeFileSync(source, original);
+    const deny = [{ source: "team.txt", entries: [{ publicKey: b }] }];
+
+    const audit = filterRecipientsFile(source, { deny });
+    expect(audit.removed.map((r) => r.publicKey)).to.deep.equal([b]);
+    expect(fs.readFileSync(source, "utf8")).to.equal(original);
+    const filtered = JSON.parse(
+      fs.readFileSync(path.join(workDir, "recipients.filtered.json"), "utf8")
+    );
+    expect(filtered.totalAmount).to.equal("800");
+    expect(fs.existsSync(path.join(workDir, "recipients.filter-audit.json"))).to
+      .be.true;
+
+    filterRecipientsFile(source, { deny, inPlace: true });
+    expect(JSON.parse(fs.readFileSync(source, "utf8")).totalAmount).to.equal(
+      "800"
+    );
+
+    expect(
+      filterOutputFiles("campaigns/spring/recipients.json", {
+        outputFile: "out.json",
+      })
+    ).to.deep.equal({
+      outputFile: "out.json",
+      auditFile: path.join("campaigns/spring", "recipients.filter-audit.json"),
+    });
+    expect(() =>
+      filterOutputFiles(source, { outputFile: "out.json", inPlace: true })
+    ).to.throw("not both");
+  });
+});
@@ -0,0 +1,95 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  importRecipients,
+  importRecipientsFile,
+  parseDelimited,
+} from "../scripts/import-recipients";
+
+describe("import-recipients", () => {
+  const [a, b, c] = Array.from({ length: 3 }, () =>
+    Keypair.generate().publicKey.toString()
+  );
+
+  it("Parses quoted cells, CRLF line endings and tabs", () => {
+    expect(
+      parseDelimited('address,amount,description\r\nx,1,"a, ""b"""\r\n\r\n')
+    ).to.deep.equal([
+      { line: 1, cells: ["address", "amount", "description"] },
+      { line: 2, cells: ["x", "1", 'a, "b"'] },
+    ]);
+    expect(parseDelimited("x\t1\ny\t2", "\t")).to.deep.equal([
+      { line: 1, cells: ["x", "1"] },
+      { line: 2, cells: ["y", "2"] },
+    ]);
+  });
+
+  it("Imports CSV with a header in SOL units", () => {
+    const { data, errors, rowCount } = importRecipients(
+      `Description,Address,Amount\nAlice,${a},1.5\nBob,${b},0.25\n`,
+      { unit: "sol", airdropId: "finance-q3" }
+    );
+
+    expect(errors).to.deep.equal([]);
+    expect(rowCount).to.equal(2);
+    expect(data.airdropId).to.equal("finance-q3");
+    expect(data.totalAmount).to.equal("1750000000");
+    expect(data.recipients).to.deep.equal([
+      { publicKey: a, amount: "1500000000", index: 0, description: "Alice" },
+      { publicKey: b, amount: "250000000", index: 1, description: "Bob" },
+    ]);
+  });
+
+  it("Reports every bad row with its line number", () => {
+    const { data, errors } = importRecipients(
+      `${a}\t100\nnot-a-key\t5\n${b}\t1.5\n${c}\t0\n${a}\t7\n`,
+      { unit: "lamports", delimiter: "\t" }
+    );
+
+    expect(data).to.be.null;
+    expect(errors.map((e) => [e.row, e.column])).to.deep.equal([
+      [2, "address"],
+      [3, "amount"],
+      [4, "amount"],
+      [5, "address"],
+    ]);
+    expect(errors[3].message).to.include("Duplicate of row 1");
+  });
+
+  it("Merges duplicates when asked", () => {
+    const { data, errors } = importRecipients(`${a},10\n${b},20\n${a},5\n`, {
+      unit: "lamports",
+      mergeDuplicates: true,
+    });
+
+    expect(errors).to.deep.equal([]);
+    expect(data.recipients).to.have.length(2);
+    expect(data.recipients.find((r) => r.publicKey === a).amount).to.equal(
+      "15"
+    );
+    expect(data.totalAmount).to.equal("35");
+  });
+
+  it("Writes next to the input unless an output file is named", async () => {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "import-"));
+    try {
+      const inputFile = path.join(workDir, "finance.csv");
+      fs.writeFileSync(inputFile, `${a},10\n${b},20\n`);
+
+      await importRecipientsFile(inputFile, undefined, { unit: "lamports" });
+      const written = JSON.parse(
+        fs.readFileSync(path.join(workDir, "finance.json"), "utf8")
+      );
+      expect(written.totalAmount).to.equal("30");
+
+      const outputFile = path.join(workDir, "campaign", "recipients.json");
+      await importRecipientsFile(inputFile, outputFile, { unit: "lamports" });
+      expect(fs.existsSync(outputFile)).to.be.true;
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  });
+});
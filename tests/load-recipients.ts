@@ -0,0 +1,158 @@
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  RecipientsFile,
+  formatValidationResult,
+  validateRecipientsData,
+} from "../scripts/load-recipients";
+import { LEAF_FORMAT, SimpleMerkleTree } from "../scripts/merkle-tree";
+
+describe("load-recipients", () => {
+  const keys = Array.from({ length: 3 }, () => Keypair.generate().publicKey);
+
+  const validFile = (): RecipientsFile => {
+    const recipients = keys.map((key, index) => ({
+      publicKey: key.toString(),
+      amount: `${(index + 1) * 1000}`,
+      index,
+    }));
+    const merkleTree = new SimpleMerkleTree(
+      keys.map((recipient, i) => ({
+        recipient,
+        amount: BigInt((i + 1) * 1000),
+      }))
+    );
+
+    return {
+      airdropId: "test-airdrop",
+      description: "",
+      merkleRoot: merkleTree.getRootHex(),
+      totalAmount: "6000",
+      network: "localnet",
+      programId: Keypair.generate().publicKey.toString(),
+      recipients,
+      metadata: {
+        createdAt: "2025-01-01T00:00:00Z",
+        version: "1.0.0",
+        algorithm: "keccak256",
+        leafFormat: LEAF_FORMAT,
+      },
+    };
+  };
+
+  it("Accepts a valid file, including in strict mode", () => {
+    expect(validateRecipientsData(validFile())).to.deep.equal({
+      valid: true,
+      errors: [],
+    });
+    expect(validateRecipientsData(validFile(), { strict: true }).valid).to.be
+      .true;
+  });
+
+  it("Collects every error with its JSON path", () => {
+    const data: RecipientsFile = validFile();
+    data.merkleRoot = "0x1234";
+    data.network = "mainnet";
+    data.programId = "not-a-key";
+    data.metadata.algorithm = "md5";
+    delete (data.metadata as { createdAt?: string }).createdAt;
+    data.recipients[0].publicKey = "bad";
+    data.recipients[1].amount = "18446744073709551616";
+    data.recipients[2].index = 7;
+    data.recipients.push({ ...data.recipients[2], index: 3 });
+
+    const result = validateRecipientsData(data);
+
+    expect(result.valid).to.be.false;
+    expect(result.errors.map((e) => e.path)).to.deep.equal([
+      "$.merkleRoot",
+      "$.network",
+      "$.programId",
+      "$.metadata.createdAt",
+      "$.metadata.algorithm",
+      "$.recipients[0].publicKey",
+      "$.recipients[1].amount",
+      "$.recipients[2].index",
+      "$.recipients[3].publicKey",
+    ]);
+    expect(result.errors[6].message).to.include("u64");
+    expect(formatValidationResult(result, "bad.json")).to.include(
+      "bad.json has 9 problems"
+    );
+  });
+
+  it("Checks the total and, in strict mode, the merkle root", () => {
+    const wrongTotal = validFile();
+    wrongTotal.totalAmount = "6001";
+    expect(validateRecipientsData(wrongTotal).errors).to.deep.equal([
+      {
+        path: "$.totalAmount",
+        message: "Does not match the sum of recipient amounts (6000)",
+      },
+    ]);
+
+    const staleRoot = validFile();
+    staleRoot.recipients[0].amount = "2000";
+    staleRoot.totalAmount = "7000";
+    expect(validateRecipientsData(staleRoot).valid).to.be.true;
+
+    const strict = validateRecipientsData(staleRoot, { strict: true });
+    expect(strict.errors).to.have.length(1);
+    expect(strict.errors[0].path).to.equal("$.merkleRoot");
+    expect(strict.errors[0].message).to.include("does not match");
+
+    // Hex case is not significant
+    const upperCase = validFile();
+    upperCase.merkleRoot = "0x" + upperCase.merkleRoot.slice(2).toUpperCase();
+    expect(validateRecipientsData(upperCase, { strict: true }).valid).to.be
+      .true;
+  });
+
+  it("Checks the early tier root in strict mode", () => {
+    const tiered = validFile();
+    tiered.recipients[2].earlyAccess = true;
+    const strictErrors = () =>
+      validateRecipientsData(tiered, { strict: true }).errors;
+    expect(strictErrors()[0].message).to.include("early tier root");
+
+    // A tier of one recipient is a tree of a single leaf at index 0
+    tiered.earlyAccessRoot = new SimpleMerkleTree([
+      { recipient: keys[2], amount: BigInt(3000) },
+    ]).getRootHex();
+    expect(strictErrors()).to.deep.equal([]);
+
+    delete tiered.recipients[2].earlyAccess;
+    expect(strictErrors()[0].message).to.include("No recipient");
+  });
+
+  it("Requires decimals together with a token mint", () => {
+    const token = { ...validFile(), mint: keys[0].toString(), decimals: 6 };
+    expect(validateRecipientsData(token).valid).to.be.true;
+
+    expect(
+      validateRecipientsData({ ...token, decimals: undefined }).errors
+    ).to.deep.equal([
+      {
+        path: "$.decimals",
+        message: "Expected the mint's decimals (0-255) with a mint",
+      },
+    ]);
+    expect(
+      validateRecipientsData({ ...validFile(), decimals: 6 }).errors
+    ).to.deep.equal([
+      { path: "$.decimals", message: "Only allowed together with a mint" },
+    ]);
+    expect(
+      validateRecipientsData({ ...token, mint: "not-a-mint" }).errors[0].path
+    ).to.equal("$.mint");
+  });
+
+  it("Rejects values that are not objects", () => {
+    expect(validateRecipientsData([]).errors).to.deep.equal([
+      { path: "$", message: "Recipients file must be a JSON object" },
+    ]);
+    expect(
+      validateRecipientsData({ ...validFile(), recipients: "none" }).errors
+    ).to.deep.equal([{ path: "$.recipients", message: "Expected an array" }]);
+  });
+});
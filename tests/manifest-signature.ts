@@ -0,0 +1,181 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  signManifest,
+  verifyManifestAgainstState,
+  verifyManifestSignature,
+} from "../scripts/manifest-signature";
+import {
+  RecipientsFile,
+  validateRecipientsData,
+} from "../scripts/load-recipients";
+import { LEAF_FORMAT, SimpleMerkleTree } from "../scripts/merkle-tree";
+
+describe("manifest-signature", () => {
+  const authority = Keypair.generate();
+  const recipient = Keypair.generate().publicKey;
+  const root = new SimpleMerkleTree([{ recipient, amount: BigInt(1000) }]).root;
+
+  const file = (): RecipientsFile => ({
+    airdropId: "test-airdrop",
+    description: "",
+    merkleRoot: "0x" + Buffer.from(root).toString("hex"),
+    totalAmount: "1000",
+    network: "localnet",
+    programId: Keypair.generate().publicKey.toString(),
+    recipients: [{ publicKey: recipient.toString(), amount: "1000", index: 0 }],
+    metadata: {
+      createdAt: "2025-01-01T00:00:00Z",
+      version: "1.0.0",
+      algorithm: "keccak256",
+      leafFormat: LEAF_FORMAT,
+    },
+  });
+
+  it("Signs a file that verifies against the authority and passes validation", () => {
+    const signed = signManifest(file(), authority);
+
+    expect(signed.metadata.signature.signer).to.equal(
+      authority.publicKey.toString()
+    );
+    expect(verifyManifestSignature(signed, authority.publicKey)).to.deep.equal({
+      valid: true,
+      signer: authority.publicKey.toString(),
+    });
+    expect(validateRecipientsData(signed, { strict: true }).valid).to.be.true;
+  });
+
+  it("Rejects edited files, other signers and forged signatures", () => {
+    const signed = signManifest(file(), authority);
+
+    const edited = { ...signed, totalAmount: "2000" };
+    expect(verifyManifestSignature(edited).reason).to.include(
+      "Manifest hash does not match"
+    );
+
+    const other = Keypair.generate().publicKey;
+    expect(verifyManifestSignature(signed, other).reason).to.include(
+      "not the authority"
+    );
+
+    const forged = signManifest(file(), Keypair.generate());
+    forged.metadata.signature.signer = authority.publicKey.toString();
+    expect(verifyManifestSignature(forged).reason).to.equal(
+      "Signature is not valid for the signer"
+    );
+
+    expect(verifyManifestSignature(file()).reason).to.equal(
+      "File is not signed"
+    );
+  });
+
+  it("Checks the signer and root against the on-chain state", () => {
+    const signed = signManifest(file(), authority);
+
+    expect(
+      verifyManifestAgainstState(signed, {
+        authority: authority.publicKey,
+        merkleRoot: Array.from(root),
+      }).valid
+    ).to.be.true;
+    expect(
+      verifyManifestAgainstState(signed, {
+        authority: authority.publicKey,
+        merkleRoot: new Array(32).fill(0),
+      }).reason
+    ).to.include("on-chain root");
+  });
+
+  it("Covers the mint of token airdrops", () => {
+    const mint = Keypair.generate().publicKey;
+    const signed = signManifest(
+      { ...file(), mint: mint.toString(), decimals: 6 },
+      authority
+    );
+
+    const otherMint = {
+      ...signed,
+      mint: Keypair.generate().publicKey.toString(),
+    };
+    expect(verifyManifestSignature(otherMint).reason).to.include(
+      "Manifest hash does not match"
+    );
+
+    const state = {
+      authority: authority.publicKey,
+      merkleRoot: Array.from(root),
+    };
+    expect(verifyManifestAgainstState(signed, { ...state, mint }).valid).to.be
+      .true;
+    expect(
+      verifyManifestAgainstState(signed, { ...state, mint: PublicKey.default })
+        .reason
+    ).to.include("does not match the on-chain mint");
+  });
+
+  it("Covers the early access root", () => {
+    const earlyRoot = new Array(32).fill(0xab);
+    const earlyAccessRoot = "0x" + "ab".repeat(32);
+    const signed = signManifest({ ...file(), earlyAccessRoot }, authority);
+
+    // Dropping or changing the early root breaks the signature, and a SOL
+    // airdrop's early root can't pass for a token airdrop's mint
+    const withoutEarlyRoot = { ...signed };
+    delete withoutEarlyRoot.earlyAccessRoot;
+    expect(verifyManifestSignature(withoutEarlyRoot).reason).to.include(
+      "Manifest hash does not match"
+    );
+    expect(
+      verifyManifestSignature({
+        ...signed,
+        earlyAccessRoot: "0x" + "cd".repeat(32),
+      }).reason
+    ).to.include("Manifest hash does not match");
+    expect(
+      verifyManifestSignature({
+        ...withoutEarlyRoot,
+        mint: new PublicKey(Buffer.from(earlyRoot)).toString(),
+      }).reason
+    ).to.include("Manifest hash does not match");
+
+    const state = {
+      authority: authority.publicKey,
+      merkleRoot: Array.from(root),
+    };
+    expect(
+      verifyManifestAgainstState(signed, {
+        ...state,
+        phases: { earlyRoot },
+      }).valid
+    ).to.be.true;
+    // Deployed without an early phase, the file's early tier is unused
+    expect(
+      verifyManifestAgainstState(signed, {
+        ...state,
+        phases: { earlyRoot: new Array(32).fill(0) },
+      }).valid
+    ).to.be.true;
+    expect(
+      verifyManifestAgainstState(signed, {
+        ...state,
+        phases: { earlyRoot: new Array(32).fill(0xcd) },
+      }).reason
+    ).to.include("does not match the on-chain early root");
+    expect(
+      verifyManifestAgainstState(signManifest(file(), authority), {
+        ...state,
+        phases: { earlyRoot },
+      }).reason
+    ).to.include("Signed early access root (none)");
+  });
+
+  it("Refuses to sign before the program is deployed", () => {
+    const undeployed = {
+      ...file(),
+      programId: "WILL_BE_UPDATED_AFTER_DEPLOYMENT",
+    };
+    expect(() => signManifest(undeployed, authority)).to.throw(
+      "sign after deployment"
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import { keccak_256 } from "js-sha3";
+import {
+  SUPPORTED_ALGORITHMS,
+  SimpleMerkleTree,
+  assertOnChainAlgorithm,
+  createLeaf,
+  parseAlgorithm,
+  verifyMultiProof,
+  verifyProof,
+} from "../scripts/merkle-tree";
+
+describe("merkle-tree", () => {
+  const recipients = Array.from({ length: 7 }, (_, i) => ({
+    recipient: Keypair.generate().publicKey,
+    amount: BigInt(1_000_000 * (i + 1)),
+  }));
+
+  it("Matches the on-chain leaf and node hashing for two leaves", () => {
+    const [first, second] = recipients;
+    const leafBytes = (recipient: PublicKey, amount: bigint) => {
+      const data = Buffer.alloc(41);
+      recipient.toBuffer().copy(data, 0);
+      data.writeBigUInt64LE(amount, 32);
+      return Buffer.from(keccak_256.arrayBuffer(data));
+    };
+
+    const expectedRoot = Buffer.from(
+      keccak_256.arrayBuffer(
+        Buffer.concat([
+          leafBytes(first.recipient, first.amount),
+          leafBytes(second.recipient, second.amount),
+        ])
+      )
+    );
+
+    const merkleTree = new SimpleMerkleTree([first, second]);
+    expect(merkleTree.getRootHex()).to.equal(
+      "0x" + expectedRoot.toString("hex")
+    );
+    expect(merkleTree.getAlgorithm()).to.equal("keccak256");
+  });
+
+  for (const algorithm of SUPPORTED_ALGORITHMS) {
+    it(`Produces verifiable proofs for every leaf (${algorithm})`, () => {
+      for (let count = 1; count <= recipients.length; count++) {
+        const subset = recipients.slice(0, count);
+        const merkleTree = new SimpleMerkleTree(subset, algorithm);
+
+        subset.forEach((r, index) => {
+          const leaf = createLeaf(r.recipient, r.amount, algorithm);
+          const proof = merkleTree.getProof(index);
+          expect(
+            verifyProof(leaf, proof, index, merkleTree.root, algorithm),
+            `leaf ${index} of ${count}`
+          ).to.be.true;
+        });
+      }
+    });
+  }
+
+  it("Rejects a proof checked with the wrong algorithm or amount", () => {
+    const merkleTree = new SimpleMerkleTree(recipients, "sha256");
+    const { recipient, amount } = recipients[3];
+    const proof = merkleTree.getProof(3);
+
+    const leaf = createLeaf(recipient, amount, "sha256");
+    expect(verifyProof(leaf, proof, 3, merkleTree.root, "keccak256")).to.be
+      .false;
+
+    const wrongLeaf = createLeaf(recipient, amount + BigInt(1), "sha256");
+    expect(verifyProof(wrongLeaf, proof, 3, merkleTree.root, "sha256")).to.be
+      .false;
+  });
+
+  it("Ignores the leaf index in sorted-pair mode", () => {
+    const merkleTree = new SimpleMerkleTree(recipients, "keccak256-sorted");
+    const { recipient, amount } = recipients[2];
+    const leaf = createLeaf(recipient, amount, "keccak256-sorted");
+
+    expect(
+      verifyProof(
+        leaf,
+        merkleTree.getProof(2),
+        0,
+        merkleTree.root,
+        "keccak256-sorted"
+      )
+    ).to.be.true;
+  });
+
+  for (const algorithm of ["keccak256", "sha256-sorted"]) {
+    it(`Produces verifiable multiproofs for every leaf subset (${algorithm})`, () => {
+      for (let count = 1; count <= recipients.length; count++) {
+        const subset = recipients.slice(0, count);
+        const merkleTree = new SimpleMerkleTree(subset, algorithm);
+        const leaves = subset.map((r) =>
+          createLeaf(r.recipient, r.amount, algorithm)
+        );
+
+        for (let mask = 1; mask < 1 << count; mask++) {
+          const indices = subset
+            .map((_, i) => i)
+            .filter((i) => mask & (1 << i));
+          const { leafIndices, proof, proofFlags } =
+            merkleTree.getMultiProof(indices);
+
+          expect(leafIndices).to.deep.equal(indices);
+          expect(
+            verifyMultiProof(
+              leafIndices.map((i) => leaves[i]),
+              leafIndices,
+              proof,
+              proofFlags,
+              merkleTree.root,
+              algorithm
+            ),
+            `leaves ${indices} of ${count}`
+          ).to.be.true;
+        }
+      }
+    });
+  }
+
+  it("Shares sibling nodes between leaves in a multiproof", () => {
+    const merkleTree = new SimpleMerkleTree(recipients.slice(0, 4));
+
+    // Leaves 0-3 form the whole tree, so no proof nodes are needed
+    const full = merkleTree.getMultiProof([3, 1, 2, 0]);
+    expect(full.leafIndices).to.deep.equal([0, 1, 2, 3]);
+    expect(full.proof).to.have.length(0);
+    expect(full.proofFlags).to.deep.equal([true, true, true]);
+
+    // Leaves 0 and 2 need their two siblings instead of two full paths
+    const split = merkleTree.getMultiProof([0, 2]);
+    expect(split.proof.map((p) => Buffer.from(p))).to.deep.equal(
+      [merkleTree.getLevels()[0][1], merkleTree.getLevels()[0][3]].map((p) =>
+        Buffer.from(p)
+      )
+    );
+    expect(split.proofFlags).to.deep.equal([false, false, true]);
+  });
+
+  it("Rejects tampered multiproofs", () => {
+    const merkleTree = new SimpleMerkleTree(recipients);
+    const indices = [1, 4, 5];
+    const leaves = indices.map((i) =>
+      createLeaf(recipients[i].recipient, recipients[i].amount)
+    );
+    const { leafIndices, proof, proofFlags } =
+      merkleTree.getMultiProof(indices);
+    const check = (
+      l: Uint8Array[],
+      idx: number[],
+      p: Uint8Array[],
+      f: boolean[]
+    ) => verifyMultiProof(l, idx, p, f, merkleTree.root);
+
+    expect(check(leaves, leafIndices, proof, proofFlags)).to.be.true;
+
+    const wrongAmount = createLeaf(
+      recipients[4].recipient,
+      recipients[4].amount + BigInt(1)
+    );
+    expect(
+      check([leaves[0], wrongAmount, leaves[2]], leafIndices, proof, proofFlags)
+    ).to.be.false;
+    expect(check(leaves, [0, 4, 5], proof, proofFlags)).to.be.false;
+    expect(check(leaves, leafIndices, proof.slice(1), proofFlags)).to.be.false;
+    expect(
+      check(
+        leaves,
+        leafIndices,
+        proof,
+        proofFlags.map((f) => !f)
+      )
+    ).to.be.false;
+    expect(
+      check([leaves[1], leaves[0], leaves[2]], [4, 1, 5], proof, proofFlags)
+    ).to.be.false;
+    expect(() => merkleTree.getMultiProof([recipients.length])).to.throw(
+      "out of range"
+    );
+  });
+
+  it("Parses algorithm names and guards on-chain compatibility", () => {
+    expect(parseAlgorithm("sha256-sorted")).to.deep.equal({
+      hash: "sha256",
+      sortPairs: true,
+    });
+    expect(() => parseAlgorithm("blake3")).to.throw("Unsupported");
+    expect(() => assertOnChainAlgorithm("keccak256")).to.not.throw();
+    expect(() => assertOnChainAlgorithm("keccak256-sorted")).to.throw(
+      "cannot be verified"
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import { RecipientsFile } from "../scripts/load-recipients";
+import { normalizeRecipients } from "../scripts/normalize-recipients";
+
+describe("normalize-recipients", () => {
+  const keys = Array.from({ length: 3 }, () =>
+    Keypair.generate().publicKey.toString()
+  );
+
+  const file = (
+    recipients: { publicKey: string; amount: string; description?: string }[],
+    totalAmount: string
+  ): RecipientsFile => ({
+    airdropId: "test",
+    description: "",
+    merkleRoot: "0x00",
+    totalAmount,
+    network: "localnet",
+    programId: "",
+    recipients: recipients.map((r, i) => ({ ...r, index: i })),
+    metadata: {
+      createdAt: "",
+      version: "1.0.0",
+      algorithm: "keccak256",
+      leafFormat: "",
+    },
+  });
+
+  it("Merges duplicates, sorts by key bytes and reassigns indices", () => {
+    const { data, report } = normalizeRecipients(
+      file(
+        [
+          { publicKey: keys[0], amount: "10", description: "a" },
+          { publicKey: keys[1], amount: "20" },
+          { publicKey: keys[0], amount: "5", description: "b" },
+          { publicKey: keys[2], amount: "30" },
+        ],
+        "60"
+      )
+    );
+
+    expect(data.recipients).to.have.length(3);
+    expect(data.recipients.map((r) => r.index)).to.deep.equal([0, 1, 2]);
+    const ordered = data.recipients.map((r) => r.publicKey);
+    expect(ordered).to.have.members(keys);
+    for (let i = 1; i < ordered.length; i++) {
+      expect(
+        Buffer.compare(
+          new PublicKey(ordered[i - 1]).toBuffer(),
+          new PublicKey(ordered[i]).toBuffer()
+        )
+      ).to.equal(-1);
+    }
+
+    const merged = data.recipients.find((r) => r.publicKey === keys[0]);
+    expect(merged.amount).to.equal("15");
+    expect(merged.description).to.equal("a; b");
+    expect(data.totalAmount).to.equal("65");
+
+    expect(report.merged).to.deep.equal([
+      { publicKey: keys[0], count: 2, amounts: ["10", "5"], amount: "15" },
+    ]);
+    expect(report.originalCount).to.equal(4);
+    expect(report.normalizedCount).to.equal(3);
+    expect(report.oldTotal).to.equal("60");
+    expect(report.newTotal).to.equal("65");
+    expect(report.changed).to.be.true;
+  });
+
+  it("Is idempotent", () => {
+    const { data } = normalizeRecipients(
+      file(
+        keys.map((publicKey, i) => ({ publicKey, amount: `${i + 1}` })),
+        "6"
+      )
+    );
+    const again = normalizeRecipients(data);
+
+    expect(again.data).to.deep.equal(data);
+    expect(again.report.changed).to.be.false;
+    expect(again.report.reindexed).to.equal(0);
+  });
+
+  it("Rejects invalid keys and amounts", () => {
+    expect(() =>
+      normalizeRecipients(file([{ publicKey: "nope", amount: "1" }], "1"))
+    ).to.throw("Invalid public key at position 0");
+    expect(() =>
+      normalizeRecipients(file([{ publicKey: keys[0], amount: "1.5" }], "1"))
+    ).to.throw("Invalid amount at position 0");
+  });
+});
@@ -0,0 +1,50 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import { keccak_256 } from "js-sha3";
+import {
+  airdropIdSeed,
+  findAirdropStatePda,
+  findClaimStatusPda,
+} from "../scripts/pda";
+
+describe("pda", () => {
+  const programId = Keypair.generate().publicKey;
+
+  it("Seeds the state PDA with keccak256(airdropId)", () => {
+    const seed = airdropIdSeed("spring-2025");
+
+    expect(seed).to.deep.equal(keccak_256.array("spring-2025"));
+    expect(
+      findAirdropStatePda(programId, "spring-2025").equals(
+        PublicKey.findProgramAddressSync(
+          [Buffer.from("merkle_tree"), Buffer.from(seed)],
+          programId
+        )[0]
+      )
+    ).to.be.true;
+    // The raw 32-byte seed selects the same airdrop as its airdropId
+    expect(
+      findAirdropStatePda(programId, Uint8Array.from(seed)).equals(
+        findAirdropStatePda(programId, "spring-2025")
+      )
+    ).to.be.true;
+  });
+
+  it("Gives every airdrop its own state and claim accounts", () => {
+    const claimant = Keypair.generate().publicKey;
+    const spring = findAirdropStatePda(programId, "spring-2025");
+    const autumn = findAirdropStatePda(programId, "autumn-2025");
+
+    expect(spring.equals(autumn)).to.be.false;
+    expect(
+      findClaimStatusPda(programId, spring, claimant).equals(
+        findClaimStatusPda(programId, autumn, claimant)
+      )
+    ).to.be.false;
+  });
+
+  it("Rejects empty ids and seeds that are not 32 bytes", () => {
+    expect(() => airdropIdSeed("")).to.throw("must not be empty");
+    expect(() => airdropIdSeed([1, 2, 3])).to.throw("32 bytes");
+  });
+});
@@ -0,0 +1,93 @@
+import { expect } from "chai";
+import {
+  ClaimPhases,
+  NO_PHASES,
+  assertValidPhases,
+  currentPhase,
+  formatPhase,
+  formatPhases,
+  phasesFromState,
+} from "../scripts/phases";
+
+describe("phases", () => {
+  const earlyRoot = "0x" + "ab".repeat(32);
+  const phases: ClaimPhases = {
+    startTime: 1_000_000,
+    earlyRoot,
+    publicStartTime: 1_086_400,
+  };
+
+  it("Moves from not started to early access, public and closed", () => {
+    const end = 2_000_000;
+    expect(currentPhase(phases, end, 999_999)).to.deep.equal({
+      name: "not-started",
+      changesAt: 1_000_000,
+    });
+    expect(currentPhase(phases, end, 1_000_000).name).to.equal("early");
+    expect(currentPhase(phases, end, 1_086_399).changesAt).to.equal(1_086_400);
+    expect(currentPhase(phases, end, 1_086_400)).to.deep.equal({
+      name: "public",
+      changesAt: end,
+    });
+    // The program still accepts claims at the end time itself
+    expect(currentPhase(phases, end, end).name).to.equal("public");
+    expect(currentPhase(phases, end, end + 1).name).to.equal("closed");
+
+    expect(currentPhase(NO_PHASES, 0, 0)).to.deep.equal({
+      name: "public",
+      changesAt: 0,
+    });
+  });
+
+  it("Says how long until the phase changes", () => {
+    const at = (now: number) =>
+      formatPhase(phases, currentPhase(phases, 0, now), now);
+    expect(at(1_000_000 - 7200)).to.equal(
+      "not started, early access open in 2h (1970-01-12T13:46:40.000Z)"
+    );
+    expect(at(1_000_000)).to.equal(
+      "early access, public claims open in 1d (1970-01-13T13:46:40.000Z)"
+    );
+    expect(at(1_086_400)).to.equal("public");
+
+    expect(formatPhases(NO_PHASES)).to.equal("everyone immediately");
+    expect(formatPhases(phases)).to.equal(
+      "early access tier from 1970-01-12T13:46:40.000Z, everyone from 1970-01-13T13:46:40.000Z"
+    );
+  });
+
+  it("Decodes the on-chain phases", () => {
+    const decoded = phasesFromState({
+      startTime: 1_000_000,
+      earlyRoot: new Array(32).fill(0xab),
+      publicStartTime: 1_086_400,
+    });
+    expect(decoded).to.deep.equal(phases);
+
+    expect(
+      phasesFromState({
+        startTime: 0,
+        earlyRoot: new Array(32).fill(0),
+        publicStartTime: 0,
+      })
+    ).to.deep.equal({ ...NO_PHASES, earlyRoot: undefined });
+  });
+
+  it("Rejects phases the program would refuse", () => {
+    expect(() => assertValidPhases(NO_PHASES)).not.to.throw();
+    expect(() => assertValidPhases(phases, 2_000_000, 500_000)).not.to.throw();
+
+    expect(() =>
+      assertValidPhases({ ...NO_PHASES, publicStartTime: 1_086_400 })
+    ).to.throw("needs an early access tier");
+    expect(() =>
+      assertValidPhases({ ...phases, publicStartTime: 1_000_000 }, 0, 0)
+    ).to.throw("must start after the early access phase");
+    expect(() => assertValidPhases(phases, 0, 1_100_000)).to.throw(
+      "is in the past"
+    );
+    expect(() => assertValidPhases(phases, 1_050_000, 500_000)).to.throw(
+      "before the last phase starts"
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import { Recipient, RecipientsFile } from "../scripts/load-recipients";
+import { diffRecipients, planSolvency } from "../scripts/root-update";
+
+describe("root-update", () => {
+  const [a, b, c, d] = Array.from({ length: 4 }, () =>
+    Keypair.generate().publicKey.toString()
+  );
+
+  const file = (amounts: [string, string][]): RecipientsFile => ({
+    airdropId: "root-update",
+    description: "",
+    merkleRoot: "0x" + "00".repeat(32),
+    totalAmount: "0",
+    network: "localnet",
+    programId: Keypair.generate().publicKey.toString(),
+    recipients: amounts.map(
+      ([publicKey, amount], index): Recipient => ({ publicKey, amount, index })
+    ),
+    metadata: {
+      createdAt: "2025-01-01T00:00:00Z",
+      version: "1.0.0",
+      algorithm: "keccak256",
+      leafFormat: "",
+    },
+  });
+
+  const oldData = file([
+    [a, "1000"],
+    [b, "2000"],
+    [c, "3000"],
+  ]);
+  // a unchanged, b lowered, c removed, d added; b and a swap places
+  const newData = file([
+    [b, "500"],
+    [a, "1000"],
+    [d, "4000"],
+  ]);
+
+  it("Diffs recipients by public key", () => {
+    const diff = diffRecipients(oldData, newData);
+
+    expect(diff.added.map((r) => r.publicKey)).to.deep.equal([d]);
+    expect(diff.removed.map((r) => r.publicKey)).to.deep.equal([c]);
+    expect(diff.changed).to.deep.equal([
+      { publicKey: b, oldAmount: "2000", newAmount: "500" },
+    ]);
+    expect(diff.unchanged).to.equal(1);
+    expect(diff.oldTotal).to.equal(BigInt(6000));
+    expect(diff.newTotal).to.equal(BigInt(5500));
+
+    // Amounts compare as numbers, not strings
+    const padded = file([[a, "01000"]]);
+    expect(diffRecipients(file([[a, "1000"]]), padded).unchanged).to.equal(1);
+  });
+
+  it("Tops up only what the vault cannot cover", () => {
+    const diff = diffRecipients(oldData, newData);
+    const plan = (remainingFunds: number, withdrawn: [string, number][]) =>
+      planSolvency(newData.recipients, diff, {
+        remainingFunds: BigInt(remainingFunds),
+        withdrawn: new Map(
+          withdrawn.map(([key, amount]) => [key, BigInt(amount)])
+        ),
+      });
+
+    // Nothing withdrawn yet: every new amount is owed
+    expect(plan(0, [])).to.deep.equal({
+      unclaimedObligations: BigInt(5500),
+      owedRecipients: 3,
+      additionalAmount: BigInt(5500),
+      claimedChanges: [],
+    });
+    expect(plan(5500, []).additionalAmount).to.equal(BigInt(0));
+    expect(plan(9000, []).additionalAmount).to.equal(BigInt(0));
+
+    // a withdrew 400 of 1000 and c (removed) withdrew everything: only the
+    // new list counts, less what its recipients already took
+    expect(
+      plan(1000, [
+        [a, 400],
+        [c, 3000],
+      ])
+    ).to.deep.include({
+      unclaimedObligations: BigInt(600 + 500 + 4000),
+      owedRecipients: 3,
+      additionalAmount: BigInt(4100),
+    });
+
+    // b already withdrew 1500, more than its new 500: owed nothing, and
+    // flagged because the difference cannot be taken back
+    const overdrawn = plan(0, [
+      [a, 1000],
+      [b, 1500],
+    ]);
+    expect(overdrawn).to.deep.include({
+      unclaimedObligations: BigInt(4000),
+      owedRecipients: 1,
+      additionalAmount: BigInt(4000),
+    });
+    expect(overdrawn.claimedChanges).to.deep.equal([
+      { publicKey: b, oldAmount: "2000", newAmount: "500" },
+    ]);
+  });
+});
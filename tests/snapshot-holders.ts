@@ -0,0 +1,99 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import {
+  createAccount,
+  createAssociatedTokenAccount,
+  createAssociatedTokenAccountIdempotent,
+  createMint,
+  mintTo,
+} from "@solana/spl-token";
+import { expect } from "chai";
+import { snapshotHolders } from "../scripts/snapshot-holders";
+
+// Needs a local validator (anchor test)
+describe("snapshot-holders", () => {
+  const provider = anchor.AnchorProvider.env();
+  const payer = (provider.wallet as anchor.Wallet).payer;
+  const connection = provider.connection;
+
+  const alice = Keypair.generate().publicKey;
+  const bob = Keypair.generate().publicKey;
+  const empty = Keypair.generate().publicKey;
+  const treasury = Keypair.generate().publicKey;
+  const [vault] = PublicKey.findProgramAddressSync(
+    [Buffer.from("vault")],
+    Keypair.generate().publicKey
+  );
+  let mint: PublicKey;
+
+  before(async () => {
+    mint = await createMint(connection, payer, payer.publicKey, null, 6);
+
+    const mintToOwner = async (owner: PublicKey, amount: number) => {
+      const account = await createAssociatedTokenAccountIdempotent(
+        connection,
+        payer,
+        mint,
+        owner,
+        {},
+        undefined,
+        undefined,
+        true
+      );
+      await mintTo(connection, payer, mint, account, payer, amount);
+    };
+
+    await mintToOwner(alice, 1_000_000);
+    await mintToOwner(bob, 250);
+    await mintToOwner(treasury, 5_000_000);
+    await mintToOwner(vault, 9_000_000);
+    await createAssociatedTokenAccount(connection, payer, mint, empty);
+
+    // A second, non-associated account for alice is summed into her balance
+    const extra = await createAccount(
+      connection,
+      payer,
+      mint,
+      alice,
+      Keypair.generate()
+    );
+    await mintTo(connection, payer, mint, extra, payer, 500);
+  });
+
+  it("Sums balances per owner and skips zero, PDA and excluded holders", async () => {
+    const { data, report } = await snapshotHolders(connection, mint, {
+      exclude: [treasury.toString()],
+    });
+
+    expect(data.mint).to.equal(mint.toString());
+    expect(data.decimals).to.equal(6);
+    expect(
+      data.weights.map((w) => [w.publicKey, w.weight]).sort()
+    ).to.deep.equal(
+      [
+        [alice.toString(), "1000500"],
+        [bob.toString(), "250"],
+      ].sort()
+    );
+    expect(report).to.include({
+      tokenAccounts: 6,
+      holders: 2,
+      skippedZero: 1,
+      skippedPdaOwners: 1,
+      skippedExcluded: 1,
+      totalBalance: "1000750",
+    });
+  });
+
+  it("Keeps zero balances and PDA owners when asked", async () => {
+    const { data } = await snapshotHolders(connection, mint, {
+      includeZero: true,
+      includePdaOwners: true,
+    });
+
+    const weights = new Map(data.weights.map((w) => [w.publicKey, w.weight]));
+    expect(weights.get(empty.toString())).to.equal("0");
+    expect(weights.get(vault.toString())).to.equal("9000000");
+    expect(weights.get(treasury.toString())).to.equal("5000000");
+  });
+});
@@ -7,9 +7,33 @@ import {
   SystemProgram,
   LAMPORTS_PER_SOL,
   Transaction,
+  sendAndConfirmTransaction,
 } from "@solana/web3.js";
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  createInitializeMintInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  createMint,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  getMintLen,
+  getOrCreateAssociatedTokenAccount,
+  mintTo,
+} from "@solana/spl-token";
 import { expect } from "chai";
-import { keccak_256 } from "js-sha3";
+import {
+  Recipient,
+  SimpleMerkleTree,
+  createLeaf,
+  verifyMultiProof,
+} from "../scripts/merkle-tree";
+import {
+  DistributorClient,
+  airdropIdSeed,
+  findAirdropStatePda,
+  phasesFromState,
+} from "../scripts/distributor-client";
 
 describe("solana-distributor", () => {
   // Configure the client to use the devnet cluster.
@@ -20,6 +44,7 @@ describe("solana-distributor", () => {
 
   let authority: Keypair;
   let airdropStateKey: PublicKey;
+  const airdropId = "test-airdrop";
 
   // Test recipients
   let recipient1: Keypair;
@@ -61,10 +86,7 @@ describe("solana-distributor", () => {
     await provider.connection.confirmTransaction(transferTx2);
 
     // Derive airdrop state PDA
-    [airdropStateKey] = PublicKey.findProgramAddressSync(
-      [Buffer.from("merkle_tree")],
-      program.programId
-    );
+    airdropStateKey = findAirdropStatePda(program.programId, airdropId);
 
     console.log("Authority:", authority.publicKey.toString());
     console.log("Airdrop State PDA:", airdropStateKey.toString());
@@ -86,7 +108,22 @@ describe("solana-distributor", () => {
     console.log("Authority balance before:", authorityBalanceBefore / LAMPORTS_PER_SOL, "SOL");
 
     const tx = await program.methods
-      .initializeAirdrop(Array.from(merkleTree.root), new anchor.BN(totalAmount))
+      .initializeAirdrop(
+        airdropIdSeed(airdropId),
+        Array.from(merkleTree.root),
+        new anchor.BN(totalAmount),
+        new anchor.BN(0),
+        {
+          startTime: new anchor.BN(0),
+          cliffSeconds: new anchor.BN(0),
+          durationSeconds: new anchor.BN(0),
+        },
+        {
+          startTime: new anchor.BN(0),
+          earlyRoot: new Array(32).fill(0),
+          publicStartTime: new anchor.BN(0),
+        }
+      )
       .accounts({
         airdropState: airdropStateKey,
         authority: authority.publicKey,
@@ -103,6 +140,7 @@ describe("solana-distributor", () => {
     expect(airdropState.authority.toString()).to.equal(authority.publicKey.toString());
     expect(airdropState.airdropAmount.toNumber()).to.equal(totalAmount);
     expect(airdropState.amountClaimed.toNumber()).to.equal(0);
+    expect(airdropState.airdropId).to.deep.equal(airdropIdSeed(airdropId));
 
     // Verify the airdrop_state account has the SOL
     const vaultBalance = await provider.connection.getBalance(airdropStateKey);
@@ -262,80 +300,933 @@ describe("solana-distributor", () => {
       expect.fail("Should have failed to claim twice");
     } catch (error) {
       console.log("Expected error for double claim:", error.message);
+      expect(error.message).to.include("AlreadyClaimed");
+    }
+  });
+
+  it("Batch claim with a multiproof", async () => {
+    // Move the airdrop to a list with three new recipients appended
+    const batchRecipients = [
+      Keypair.generate(),
+      Keypair.generate(),
+      Keypair.generate(),
+    ];
+    const batchAmount = 0.05 * LAMPORTS_PER_SOL;
+    const merkleTree = generateMerkleTree([
+      { recipient: recipient1.publicKey, amount: recipient1Amount },
+      { recipient: recipient2.publicKey, amount: recipient2Amount },
+      ...batchRecipients.map((r) => ({
+        recipient: r.publicKey,
+        amount: batchAmount,
+      })),
+    ]);
+
+    await program.methods
+      .updateMerkleRoot(
+        Array.from(merkleTree.root),
+        new anchor.BN(batchAmount * 3)
+      )
+      .accounts({
+        airdropState: airdropStateKey,
+        authority: authority.publicKey,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([authority])
+      .rpc();
+
+    const { leafIndices, proof, proofFlags } = merkleTree.getMultiProof([
+      2, 3, 4,
+    ]);
+    const leaves = batchRecipients.map((r) =>
+      createLeaf(r.publicKey, batchAmount)
+    );
+    expect(
+      verifyMultiProof(leaves, leafIndices, proof, proofFlags, merkleTree.root)
+    ).to.be.true;
+    console.log(
+      "Multiproof length:",
+      proof.length,
+      "hashes for",
+      leafIndices.length,
+      "claims"
+    );
+
+    const claimStatusKeys = batchRecipients.map(
+      (r) =>
+        PublicKey.findProgramAddressSync(
+          [
+            Buffer.from("claim"),
+            airdropStateKey.toBuffer(),
+            r.publicKey.toBuffer(),
+          ],
+          program.programId
+        )[0]
+    );
+
+    // Lamports sent to an unused claim address must not block the claim
+    await sendAndConfirmTransaction(
+      provider.connection,
+      new Transaction().add(
+        SystemProgram.transfer({
+          fromPubkey: authority.publicKey,
+          toPubkey: claimStatusKeys[0],
+          lamports: 1000,
+        })
+      ),
+      [authority]
+    );
+
+    // The authority pays rent for the claim accounts; recipients only sign
+    const tx = await program.methods
+      .claimAirdropBatch(
+        leafIndices.map(() => new anchor.BN(batchAmount)),
+        leafIndices.map((i) => new anchor.BN(i)),
+        proof.map((p) => Array.from(p)),
+        proofFlags
+      )
+      .accounts({
+        airdropState: airdropStateKey,
+        payer: authority.publicKey,
+        systemProgram: SystemProgram.programId,
+      })
+      .remainingAccounts(
+        batchRecipients.flatMap((r, i) => [
+          { pubkey: r.publicKey, isSigner: true, isWritable: true },
+          { pubkey: claimStatusKeys[i], isSigner: false, isWritable: true },
+        ])
+      )
+      .signers([authority, ...batchRecipients])
+      .rpc();
+
+    console.log("Batch claim transaction signature:", tx);
+
+    for (let i = 0; i < batchRecipients.length; i++) {
+      expect(
+        await provider.connection.getBalance(batchRecipients[i].publicKey)
+      ).to.equal(batchAmount);
+      const claimAccount = await program.account.claimStatus.fetch(
+        claimStatusKeys[i]
+      );
+      expect(claimAccount).to.not.be.null;
+    }
+
+    const airdropState = await program.account.airdropState.fetch(
+      airdropStateKey
+    );
+    expect(airdropState.amountClaimed.toNumber()).to.equal(
+      totalAmount + batchAmount * 3
+    );
+
+    // The same batch cannot be claimed again
+    try {
+      await program.methods
+        .claimAirdropBatch(
+          leafIndices.map(() => new anchor.BN(batchAmount)),
+          leafIndices.map((i) => new anchor.BN(i)),
+          proof.map((p) => Array.from(p)),
+          proofFlags
+        )
+        .accounts({
+          airdropState: airdropStateKey,
+          payer: authority.publicKey,
+          systemProgram: SystemProgram.programId,
+        })
+        .remainingAccounts(
+          batchRecipients.flatMap((r, i) => [
+            { pubkey: r.publicKey, isSigner: true, isWritable: true },
+            { pubkey: claimStatusKeys[i], isSigner: false, isWritable: true },
+          ])
+        )
+        .signers([authority, ...batchRecipients])
+        .rpc();
+
+      expect.fail("Should have failed to claim the batch twice");
+    } catch (error) {
+      expect(error.message).to.include("AlreadyClaimed");
+    }
+  });
+
+  it("DistributorClient reads the same state as the workspace program", async () => {
+    const client = new DistributorClient(
+      provider.connection,
+      new anchor.Wallet(recipient1),
+      program.programId,
+      airdropId
+    );
+    expect(client.airdropStatePda.toString()).to.equal(
+      airdropStateKey.toString()
+    );
+
+    const clientState = await client.getAirdropState();
+    const programState = await program.account.airdropState.fetch(
+      airdropStateKey
+    );
+    expect(clientState.merkleRoot).to.deep.equal(programState.merkleRoot);
+    expect(clientState.amountClaimed.toString()).to.equal(
+      programState.amountClaimed.toString()
+    );
+
+    // Recipient 1 claimed above; a fresh key has not
+    const [claimed, unclaimed] = await client.getClaimStatuses([
+      recipient1.publicKey,
+      Keypair.generate().publicKey,
+    ]);
+    expect(claimed.claimed).to.be.true;
+    expect(unclaimed.claimed).to.be.false;
+    expect(
+      (
+        await client.getClaimStatus(recipient1.publicKey)
+      ).claimStatusPda.toString()
+    ).to.equal(claimed.claimStatusPda.toString());
+
+    // Claim transactions are only built for the connected wallet
+    try {
+      await client.buildClaimTx({
+        proof: [],
+        leafIndex: 1,
+        amount: recipient2Amount.toString(),
+        recipient: recipient2.publicKey.toString(),
+      });
+      expect.fail("Should have refused a proof for another wallet");
+    } catch (error) {
+      expect(error.message).to.include("but the wallet is");
+    }
+
+    const tx = await client.buildClaimTx({
+      proof: [],
+      leafIndex: 0,
+      amount: recipient1Amount.toString(),
+      recipient: recipient1.publicKey.toString(),
+    });
+    expect(tx.feePayer.toString()).to.equal(recipient1.publicKey.toString());
+    expect(tx.recentBlockhash).to.be.a("string");
+  });
+
+  it("Runs a second airdrop alongside the first", async () => {
+    // Recipient 1 already claimed from the first airdrop and can claim again here
+    const secondAmount = 0.03 * LAMPORTS_PER_SOL;
+    const merkleTree = generateMerkleTree([
+      { recipient: recipient1.publicKey, amount: secondAmount },
+    ]);
+
+    const authorityClient = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      "second-airdrop"
+    );
+    expect(authorityClient.airdropStatePda.toString()).to.not.equal(
+      airdropStateKey.toString()
+    );
+    await authorityClient.initialize(merkleTree.root, secondAmount);
+
+    const firstStateBefore = await program.account.airdropState.fetch(
+      airdropStateKey
+    );
+
+    const claimantClient = new DistributorClient(
+      provider.connection,
+      new anchor.Wallet(recipient1),
+      program.programId,
+      "second-airdrop"
+    );
+    expect((await claimantClient.getClaimStatus(recipient1.publicKey)).claimed)
+      .to.be.false;
+    await claimantClient.claim({
+      proof: [],
+      leafIndex: 0,
+      amount: secondAmount.toString(),
+      recipient: recipient1.publicKey.toString(),
+    });
+    expect((await claimantClient.getClaimStatus(recipient1.publicKey)).claimed)
+      .to.be.true;
+
+    const secondState = await claimantClient.getAirdropState();
+    expect(secondState.amountClaimed.toNumber()).to.equal(secondAmount);
+
+    // The first airdrop is untouched
+    const firstStateAfter = await program.account.airdropState.fetch(
+      airdropStateKey
+    );
+    expect(firstStateAfter.amountClaimed.toString()).to.equal(
+      firstStateBefore.amountClaimed.toString()
+    );
+
+    // Each airdropId can only be initialized once
+    try {
+      await authorityClient.initialize(merkleTree.root, secondAmount);
+      expect.fail("Should have failed to initialize the same airdrop twice");
+    } catch (error) {
       expect(error.message).to.include("already in use");
     }
   });
-});
 
-// Simple Merkle tree implementation for testing
-interface Recipient {
-  recipient: PublicKey;
-  amount: number;
-}
+  it("Pays vested amounts over several claims", async () => {
+    const vestingAmount = 0.04 * LAMPORTS_PER_SOL;
+    const merkleTree = generateMerkleTree([
+      { recipient: recipient1.publicKey, amount: vestingAmount },
+    ]);
+    const proofData = {
+      proof: merkleTree.getProof(0).map((p) => Array.from(p)),
+      leafIndex: 0,
+      amount: vestingAmount.toString(),
+      recipient: recipient1.publicKey.toString(),
+    };
 
-class SimpleMerkleTree {
-  public root: Uint8Array;
-  private leaves: Uint8Array[];
-  private tree: Uint8Array[][];
+    // Nothing for 4 seconds, everything after 10
+    const chainTime = await provider.connection.getBlockTime(
+      await provider.connection.getSlot()
+    );
+    const vesting = {
+      startTime: chainTime,
+      cliffSeconds: 4,
+      durationSeconds: 10,
+    };
+    const authorityClient = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      "vesting-airdrop"
+    );
+    await authorityClient.initialize(merkleTree.root, vestingAmount, {
+      vesting,
+    });
 
-  constructor(recipients: Recipient[]) {
-    // Create leaves
-    this.leaves = recipients.map(r => this.createLeaf(r.recipient, r.amount));
-    
-    // Build tree
-    this.tree = [this.leaves];
-    let currentLevel = this.leaves;
-    
-    while (currentLevel.length > 1) {
-      const nextLevel: Uint8Array[] = [];
-      
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = i + 1 < currentLevel.length ? currentLevel[i + 1] : left;
-        const parent = this.hashPair(left, right);
-        nextLevel.push(parent);
-      }
-      
-      this.tree.push(nextLevel);
-      currentLevel = nextLevel;
+    const claimantClient = new DistributorClient(
+      provider.connection,
+      new anchor.Wallet(recipient1),
+      program.programId,
+      "vesting-airdrop"
+    );
+    try {
+      await program.methods
+        .claimAirdrop(
+          new anchor.BN(vestingAmount),
+          proofData.proof,
+          new anchor.BN(0)
+        )
+        .accounts({
+          airdropState: claimantClient.airdropStatePda,
+          signer: recipient1.publicKey,
+        })
+        .signers([recipient1])
+        .rpc();
+      expect.fail("Should have refused a claim before the cliff");
+    } catch (error) {
+      expect(error.message).to.include("NothingVested");
     }
-    
-    this.root = currentLevel[0];
-  }
-
-  private createLeaf(recipient: PublicKey, amount: number): Uint8Array {
-    const data = Buffer.concat([
-      recipient.toBuffer(),
-      Buffer.from(new Uint8Array(new BigUint64Array([BigInt(amount)]).buffer)),
-      Buffer.from([0]) // isClaimed = false
+
+    await new Promise((resolve) => setTimeout(resolve, 6000));
+    await claimantClient.claim(proofData);
+    const { withdrawn: partial } = await claimantClient.getClaimStatus(
+      recipient1.publicKey
+    );
+    expect(partial > BigInt(0) && partial < BigInt(vestingAmount)).to.be.true;
+
+    await new Promise((resolve) => setTimeout(resolve, 6000));
+    const status = await claimantClient.getVestingStatus(
+      recipient1.publicKey,
+      vestingAmount
+    );
+    expect(status.vested).to.equal(BigInt(vestingAmount));
+    expect(status.claimable).to.equal(BigInt(vestingAmount) - partial);
+
+    await claimantClient.claim(proofData);
+    expect(
+      (await claimantClient.getClaimStatus(recipient1.publicKey)).withdrawn
+    ).to.equal(BigInt(vestingAmount));
+    expect(
+      (await claimantClient.getAirdropState()).amountClaimed.toNumber()
+    ).to.equal(vestingAmount);
+
+    try {
+      await claimantClient.buildClaimTx(proofData);
+      expect.fail("Should have refused a claim after everything was withdrawn");
+    } catch (error) {
+      expect(error.message).to.include("already claimed everything");
+    }
+  });
+
+  it("Rejects claims after the claim end time and claws back the rest", async () => {
+    const claimAmount = 0.02 * LAMPORTS_PER_SOL;
+    const unclaimedAmount = 0.03 * LAMPORTS_PER_SOL;
+    const merkleTree = generateMerkleTree([
+      { recipient: recipient1.publicKey, amount: claimAmount },
+      { recipient: recipient2.publicKey, amount: unclaimedAmount },
     ]);
-    return new Uint8Array(keccak_256.arrayBuffer(data));
-  }
+    const unclaimedProof = merkleTree.getProof(1).map((p) => Array.from(p));
 
-  private hashPair(left: Uint8Array, right: Uint8Array): Uint8Array {
-    const data = Buffer.concat([Buffer.from(left), Buffer.from(right)]);
-    return new Uint8Array(keccak_256.arrayBuffer(data));
-  }
+    // A few seconds ahead of the validator's clock
+    const chainTime = await provider.connection.getBlockTime(
+      await provider.connection.getSlot()
+    );
+    const claimEndTime = chainTime + 5;
+    const authorityClient = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      "deadline-airdrop"
+    );
+    await authorityClient.initialize(
+      merkleTree.root,
+      claimAmount + unclaimedAmount,
+      { claimEndTime }
+    );
+    expect(
+      (await authorityClient.getAirdropState()).claimEndTime.toNumber()
+    ).to.equal(claimEndTime);
 
-  public getProof(leafIndex: number): Uint8Array[] {
-    const proof: Uint8Array[] = [];
-    let index = leafIndex;
-    
-    for (let level = 0; level < this.tree.length - 1; level++) {
-      const currentLevel = this.tree[level];
-      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
-      
-      if (siblingIndex < currentLevel.length) {
-        proof.push(currentLevel[siblingIndex]);
-      }
-      
-      index = Math.floor(index / 2);
+    const destination = Keypair.generate().publicKey;
+    try {
+      await authorityClient.clawback(destination);
+      expect.fail("Should have refused a clawback while claims are open");
+    } catch (error) {
+      expect(error.message).to.include("ClaimWindowOpen");
     }
-    
-    return proof;
-  }
-}
 
-function generateMerkleTree(recipients: Recipient[]): SimpleMerkleTree {
-  return new SimpleMerkleTree(recipients);
+    const claimant1 = new DistributorClient(
+      provider.connection,
+      new anchor.Wallet(recipient1),
+      program.programId,
+      "deadline-airdrop"
+    );
+    await claimant1.claim({
+      proof: merkleTree.getProof(0).map((p) => Array.from(p)),
+      leafIndex: 0,
+      amount: claimAmount.toString(),
+      recipient: recipient1.publicKey.toString(),
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 7000));
+
+    try {
+      await program.methods
+        .claimAirdrop(
+          new anchor.BN(unclaimedAmount),
+          unclaimedProof,
+          new anchor.BN(1)
+        )
+        .accounts({
+          airdropState: authorityClient.airdropStatePda,
+          signer: recipient2.publicKey,
+        })
+        .signers([recipient2])
+        .rpc();
+      expect.fail("Should have rejected a claim after the claim end time");
+    } catch (error) {
+      expect(error.message).to.include("ClaimWindowClosed");
+    }
+
+    // Everything but the state account's rent goes to the destination
+    const { amount, rentReserved } = await authorityClient.getClawbackAmount();
+    expect(amount.toString()).to.equal(unclaimedAmount.toString());
+
+    await authorityClient.clawback(destination);
+
+    expect(await provider.connection.getBalance(destination)).to.equal(
+      unclaimedAmount
+    );
+    expect(
+      await provider.connection.getBalance(authorityClient.airdropStatePda)
+    ).to.equal(Number(rentReserved));
+
+    // The clawback is recorded and closes the airdrop for good
+    const closedState = await authorityClient.getAirdropState();
+    expect(closedState.clawedBack).to.be.true;
+    expect(closedState.amountClawedBack.toString()).to.equal(
+      unclaimedAmount.toString()
+    );
+
+    try {
+      await program.methods
+        .claimAirdrop(
+          new anchor.BN(unclaimedAmount),
+          unclaimedProof,
+          new anchor.BN(1)
+        )
+        .accounts({
+          airdropState: authorityClient.airdropStatePda,
+          signer: recipient2.publicKey,
+        })
+        .signers([recipient2])
+        .rpc();
+      expect.fail("Should have rejected a claim after the clawback");
+    } catch (error) {
+      expect(error.message).to.include("ClawedBack");
+    }
+    try {
+      await authorityClient.clawback(destination);
+      expect.fail("Should have refused a second clawback");
+    } catch (error) {
+      expect(error.message).to.include("ClawedBack");
+    }
+  });
+
+  it("Opens claims to the early tier before everyone else", async () => {
+    const earlyAmount = 0.01 * LAMPORTS_PER_SOL;
+    const publicAmount = 0.02 * LAMPORTS_PER_SOL;
+    const merkleTree = generateMerkleTree([
+      { recipient: recipient1.publicKey, amount: earlyAmount },
+      { recipient: recipient2.publicKey, amount: publicAmount },
+    ]);
+    // The early tier is recipient 1 alone: a tree of one leaf at index 0
+    const earlyTree = generateMerkleTree([
+      { recipient: recipient1.publicKey, amount: earlyAmount },
+    ]);
+    const earlyProof = {
+      proof: [],
+      leafIndex: 0,
+      amount: earlyAmount.toString(),
+      recipient: recipient1.publicKey.toString(),
+    };
+    const publicProof = {
+      proof: merkleTree.getProof(1).map((p) => Array.from(p)),
+      leafIndex: 1,
+      amount: publicAmount.toString(),
+      recipient: recipient2.publicKey.toString(),
+    };
+
+    const chainTime = await provider.connection.getBlockTime(
+      await provider.connection.getSlot()
+    );
+    const phases = {
+      startTime: chainTime + 3,
+      earlyRoot: earlyTree.getRootHex(),
+      publicStartTime: chainTime + 9,
+    };
+    const authorityClient = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      "phased-airdrop"
+    );
+    await authorityClient.initialize(
+      merkleTree.root,
+      earlyAmount + publicAmount,
+      { phases }
+    );
+    expect(
+      phasesFromState((await authorityClient.getAirdropState()).phases)
+    ).to.deep.equal(phases);
+
+    const claimant1 = new DistributorClient(
+      provider.connection,
+      new anchor.Wallet(recipient1),
+      program.programId,
+      "phased-airdrop"
+    );
+    const claimant2 = new DistributorClient(
+      provider.connection,
+      new anchor.Wallet(recipient2),
+      program.programId,
+      "phased-airdrop"
+    );
+    try {
+      await claimant1.buildClaimTx(earlyProof);
+      expect.fail("Should have refused a claim before the start time");
+    } catch (error) {
+      expect(error.message).to.include("Too early to claim");
+    }
+    try {
+      await program.methods
+        .claimAirdrop(new anchor.BN(earlyAmount), [], new anchor.BN(0))
+        .accounts({
+          airdropState: claimant1.airdropStatePda,
+          signer: recipient1.publicKey,
+        })
+        .signers([recipient1])
+        .rpc();
+      expect.fail("Should have rejected a claim before the start time");
+    } catch (error) {
+      expect(error.message).to.include("ClaimsNotStarted");
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 4000));
+
+    // Early access: only proofs against the tier's root are accepted
+    try {
+      await program.methods
+        .claimAirdrop(
+          new anchor.BN(publicAmount),
+          publicProof.proof,
+          new anchor.BN(1)
+        )
+        .accounts({
+          airdropState: claimant2.airdropStatePda,
+          signer: recipient2.publicKey,
+        })
+        .signers([recipient2])
+        .rpc();
+      expect.fail("Should have rejected a claim outside the early tier");
+    } catch (error) {
+      expect(error.message).to.include("NotInEarlyTier");
+    }
+    await claimant1.claim(earlyProof);
+    expect(
+      (await claimant1.getClaimStatus(recipient1.publicKey)).withdrawn
+    ).to.equal(BigInt(earlyAmount));
+
+    await new Promise((resolve) => setTimeout(resolve, 7000));
+
+    // Public phase: the full tree
+    await claimant2.claim(publicProof);
+    expect(
+      (await claimant2.getAirdropState()).amountClaimed.toNumber()
+    ).to.equal(earlyAmount + publicAmount);
+  });
+
+  it("Pauses and resumes claims", async () => {
+    const pausedAmount = 0.01 * LAMPORTS_PER_SOL;
+    const merkleTree = generateMerkleTree([
+      { recipient: recipient1.publicKey, amount: pausedAmount },
+    ]);
+    const proofData = {
+      proof: [],
+      leafIndex: 0,
+      amount: pausedAmount.toString(),
+      recipient: recipient1.publicKey.toString(),
+    };
+
+    const authorityClient = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      "paused-airdrop"
+    );
+    await authorityClient.initialize(merkleTree.root, pausedAmount);
+    expect((await authorityClient.getAirdropState()).paused).to.be.false;
+
+    // Only the authority can pause
+    const claimantClient = new DistributorClient(
+      provider.connection,
+      new anchor.Wallet(recipient1),
+      program.programId,
+      "paused-airdrop"
+    );
+    try {
+      await program.methods
+        .setPaused(true)
+        .accounts({
+          airdropState: claimantClient.airdropStatePda,
+          authority: recipient1.publicKey,
+        })
+        .signers([recipient1])
+        .rpc();
+      expect.fail(
+        "Should have refused a pause from someone other than the authority"
+      );
+    } catch (error) {
+      expect(error.message).to.include("Unauthorized");
+    }
+
+    await authorityClient.setPaused(true);
+    expect((await authorityClient.getAirdropState()).paused).to.be.true;
+    try {
+      await program.methods
+        .claimAirdrop(new anchor.BN(pausedAmount), [], new anchor.BN(0))
+        .accounts({
+          airdropState: claimantClient.airdropStatePda,
+          signer: recipient1.publicKey,
+        })
+        .signers([recipient1])
+        .rpc();
+      expect.fail("Should have rejected a claim while paused");
+    } catch (error) {
+      expect(error.message).to.include("ClaimsPaused");
+    }
+
+    await authorityClient.setPaused(false);
+    await claimantClient.claim(proofData);
+    expect(
+      (await claimantClient.getAirdropState()).amountClaimed.toNumber()
+    ).to.equal(pausedAmount);
+  });
+
+  it("Transfers the authority in two steps", async () => {
+    const merkleTree = generateMerkleTree([
+      { recipient: recipient1.publicKey, amount: 0.01 * LAMPORTS_PER_SOL },
+    ]);
+    const authorityClient = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      "authority-airdrop"
+    );
+    await authorityClient.initialize(merkleTree.root, 0.01 * LAMPORTS_PER_SOL);
+    expect(
+      (await authorityClient.getAirdropState()).pendingAuthority.equals(
+        PublicKey.default
+      )
+    ).to.be.true;
+
+    const acceptAs = (signer: Keypair) =>
+      program.methods
+        .acceptAuthority()
+        .accounts({
+          airdropState: authorityClient.airdropStatePda,
+          newAuthority: signer.publicKey,
+        })
+        .signers([signer])
+        .rpc();
+
+    try {
+      await acceptAs(recipient2);
+      expect.fail("Should have refused to accept without a proposal");
+    } catch (error) {
+      expect(error.message).to.include("NotPendingAuthority");
+    }
+
+    await authorityClient.proposeAuthority(recipient2.publicKey);
+    const proposed = await authorityClient.getAirdropState();
+    expect(proposed.authority.equals(provider.wallet.publicKey)).to.be.true;
+    expect(proposed.pendingAuthority.equals(recipient2.publicKey)).to.be.true;
+
+    try {
+      await acceptAs(recipient1);
+      expect.fail(
+        "Should have refused to accept for someone other than the pending authority"
+      );
+    } catch (error) {
+      expect(error.message).to.include("NotPendingAuthority");
+    }
+
+    const newAuthorityClient = new DistributorClient(
+      provider.connection,
+      new anchor.Wallet(recipient2),
+      program.programId,
+      "authority-airdrop"
+    );
+    await newAuthorityClient.acceptAuthority();
+    const transferred = await newAuthorityClient.getAirdropState();
+    expect(transferred.authority.equals(recipient2.publicKey)).to.be.true;
+    expect(transferred.pendingAuthority.equals(PublicKey.default)).to.be.true;
+
+    // The old authority has lost control
+    try {
+      await program.methods
+        .setPaused(true)
+        .accounts({
+          airdropState: authorityClient.airdropStatePda,
+          authority: provider.wallet.publicKey,
+        })
+        .rpc();
+      expect.fail("Should have refused the old authority");
+    } catch (error) {
+      expect(error.message).to.include("Unauthorized");
+    }
+    await newAuthorityClient.setPaused(true);
+    expect((await newAuthorityClient.getAirdropState()).paused).to.be.true;
+  });
+
+  it("Distributes an SPL token into a newly created token account", async () => {
+    const tokenAmount = 250_000;
+    const mint = await createMint(
+      provider.connection,
+      authority,
+      authority.publicKey,
+      null,
+      6
+    );
+    const source = await getOrCreateAssociatedTokenAccount(
+      provider.connection,
+      authority,
+      mint,
+      authority.publicKey
+    );
+    await mintTo(
+      provider.connection,
+      authority,
+      mint,
+      source.address,
+      authority,
+      tokenAmount * 4
+    );
+
+    const merkleTree = generateMerkleTree([
+      { recipient: recipient2.publicKey, amount: tokenAmount },
+    ]);
+    const authorityClient = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      "token-airdrop"
+    );
+    await authorityClient.initializeToken(mint, merkleTree.root, tokenAmount);
+
+    const vault = await authorityClient.getTokenVault(mint);
+    expect(
+      (await getAccount(provider.connection, vault.address)).amount
+    ).to.equal(BigInt(tokenAmount));
+    const state = await authorityClient.getAirdropState();
+    expect(state.mint.toString()).to.equal(mint.toString());
+
+    // The SOL instruction cannot pay a token leaf out of the state account's lamports
+    try {
+      await program.methods
+        .claimAirdrop(new anchor.BN(tokenAmount), [], new anchor.BN(0))
+        .accounts({
+          airdropState: authorityClient.airdropStatePda,
+          signer: recipient2.publicKey,
+        })
+        .signers([recipient2])
+        .rpc();
+      expect.fail("Should have refused a SOL claim on a token airdrop");
+    } catch (error) {
+      expect(error.message).to.include("WrongDistributionMode");
+    }
+
+    const claimantTokenAccount = getAssociatedTokenAddressSync(
+      mint,
+      recipient2.publicKey
+    );
+    expect(await provider.connection.getAccountInfo(claimantTokenAccount)).to.be
+      .null;
+
+    const claimantClient = new DistributorClient(
+      provider.connection,
+      new anchor.Wallet(recipient2),
+      program.programId,
+      "token-airdrop"
+    );
+    await claimantClient.claim({
+      proof: [],
+      leafIndex: 0,
+      amount: tokenAmount.toString(),
+      recipient: recipient2.publicKey.toString(),
+    });
+
+    expect(
+      (await getAccount(provider.connection, claimantTokenAccount)).amount
+    ).to.equal(BigInt(tokenAmount));
+    expect(
+      (await getAccount(provider.connection, vault.address)).amount
+    ).to.equal(BigInt(0));
+    expect(
+      (await claimantClient.getAirdropState()).amountClaimed.toNumber()
+    ).to.equal(tokenAmount);
+  });
+
+  it("Pays Token-2022 claims net of the mint's transfer fee", async () => {
+    // 1% transfer fee
+    const tokenAmount = 1_000_000;
+    const mintKeypair = Keypair.generate();
+    const mint = mintKeypair.publicKey;
+    const mintLen = getMintLen([ExtensionType.TransferFeeConfig]);
+    await sendAndConfirmTransaction(
+      provider.connection,
+      new Transaction().add(
+        SystemProgram.createAccount({
+          fromPubkey: authority.publicKey,
+          newAccountPubkey: mint,
+          space: mintLen,
+          lamports: await provider.connection.getMinimumBalanceForRentExemption(
+            mintLen
+          ),
+          programId: TOKEN_2022_PROGRAM_ID,
+        }),
+        createInitializeTransferFeeConfigInstruction(
+          mint,
+          authority.publicKey,
+          authority.publicKey,
+          100,
+          BigInt(tokenAmount),
+          TOKEN_2022_PROGRAM_ID
+        ),
+        createInitializeMintInstruction(
+          mint,
+          6,
+          authority.publicKey,
+          null,
+          TOKEN_2022_PROGRAM_ID
+        )
+      ),
+      [authority, mintKeypair]
+    );
+    const source = await getOrCreateAssociatedTokenAccount(
+      provider.connection,
+      authority,
+      mint,
+      authority.publicKey,
+      false,
+      undefined,
+      undefined,
+      TOKEN_2022_PROGRAM_ID
+    );
+    await mintTo(
+      provider.connection,
+      authority,
+      mint,
+      source.address,
+      authority,
+      tokenAmount * 2,
+      [],
+      undefined,
+      TOKEN_2022_PROGRAM_ID
+    );
+
+    const merkleTree = generateMerkleTree([
+      { recipient: recipient1.publicKey, amount: tokenAmount },
+    ]);
+    const authorityClient = new DistributorClient(
+      provider.connection,
+      provider.wallet,
+      program.programId,
+      "token-2022-airdrop"
+    );
+    await authorityClient.initializeToken(mint, merkleTree.root, tokenAmount);
+
+    // The deposit includes the fee, so the vault can pay the full leaf amount
+    const vault = await authorityClient.getTokenVault(mint);
+    expect(vault.tokenProgram.toString()).to.equal(
+      TOKEN_2022_PROGRAM_ID.toString()
+    );
+    const vaultBalance = (
+      await getAccount(
+        provider.connection,
+        vault.address,
+        undefined,
+        TOKEN_2022_PROGRAM_ID
+      )
+    ).amount;
+    expect(vaultBalance >= BigInt(tokenAmount)).to.be.true;
+
+    const claimantClient = new DistributorClient(
+      provider.connection,
+      new anchor.Wallet(recipient1),
+      program.programId,
+      "token-2022-airdrop"
+    );
+    await claimantClient.claim({
+      proof: [],
+      leafIndex: 0,
+      amount: tokenAmount.toString(),
+      recipient: recipient1.publicKey.toString(),
+    });
+
+    const claimantTokenAccount = getAssociatedTokenAddressSync(
+      mint,
+      recipient1.publicKey,
+      false,
+      TOKEN_2022_PROGRAM_ID
+    );
+    const received = (
+      await getAccount(
+        provider.connection,
+        claimantTokenAccount,
+        undefined,
+        TOKEN_2022_PROGRAM_ID
+      )
+    ).amount;
+    expect(received).to.equal(BigInt(tokenAmount - tokenAmount / 100));
+  });
+});
+
+function generateMerkleTree(
+  recipients: { recipient: PublicKey; amount: number }[]
+): SimpleMerkleTree {
+  const leaves: Recipient[] = recipients.map((r) => ({
+    recipient: r.recipient,
+    amount: BigInt(r.amount),
+  }));
+  return new SimpleMerkleTree(leaves);
 }
@@ -0,0 +1,161 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  SimpleMerkleTree,
+  createLeaf,
+  verifyProof,
+} from "../scripts/merkle-tree";
+import {
+  buildStreamingMerkleTree,
+  getProofFromLevels,
+} from "../scripts/stream-merkle-tree";
+
+describe("stream-merkle-tree", () => {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "stream-merkle-"));
+  const recipients = Array.from({ length: 9 }, (_, i) => ({
+    recipient: Keypair.generate().publicKey,
+    amount: BigInt(50_000_000 + i),
+  }));
+  const quiet = { onProgress: () => {}, workers: 2, batchSize: 2 };
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("Matches SimpleMerkleTree roots for JSON lines input", async () => {
+    for (let count = 1; count <= recipients.length; count++) {
+      const subset = recipients.slice(0, count);
+      const inputFile = path.join(workDir, `recipients-${count}.jsonl`);
+      fs.writeFileSync(
+        inputFile,
+        subset
+          .map((r) =>
+            JSON.stringify({
+              publicKey: r.recipient.toString(),
+              amount: r.amount.toString(),
+            })
+          )
+          .join("\n")
+      );
+
+      const manifest = await buildStreamingMerkleTree(inputFile, {
+        ...quiet,
+        outputDir: path.join(workDir, `tree-${count}`),
+      });
+
+      expect(manifest.root).to.equal(new SimpleMerkleTree(subset).getRootHex());
+      expect(manifest.leafCount).to.equal(count);
+    }
+  });
+
+  it("Reads CSV input and serves proofs from the level files", async () => {
+    const inputFile = path.join(workDir, "recipients.csv");
+    fs.writeFileSync(
+      inputFile,
+      "publicKey,amount\n" +
+        recipients.map((r) => `${r.recipient},${r.amount}`).join("\n") +
+        "\n"
+    );
+    const outputDir = path.join(workDir, "tree-csv");
+
+    const manifest = await buildStreamingMerkleTree(inputFile, {
+      ...quiet,
+      outputDir,
+      algorithm: "sha256-sorted",
+    });
+    const merkleTree = new SimpleMerkleTree(recipients, "sha256-sorted");
+    expect(manifest.root).to.equal(merkleTree.getRootHex());
+
+    recipients.forEach((r, index) => {
+      const proof = getProofFromLevels(outputDir, index);
+      expect(proof.map((p) => Buffer.from(p))).to.deep.equal(
+        merkleTree.getProof(index).map((p) => Buffer.from(p))
+      );
+      const leaf = createLeaf(r.recipient, r.amount, "sha256-sorted");
+      expect(verifyProof(leaf, proof, index, manifest.root, "sha256-sorted")).to
+        .be.true;
+    });
+  });
+
+  it("Rejects invalid amounts", async () => {
+    const inputFile = path.join(workDir, "invalid.csv");
+    fs.writeFileSync(inputFile, `${recipients[0].recipient},1.5\n`);
+
+    try {
+      await buildStreamingMerkleTree(inputFile, {
+        ...quiet,
+        outputDir: path.join(workDir, "tree-invalid"),
+      });
+      expect.fail("Should have rejected a fractional amount");
+    } catch (error) {
+      expect(error.message).to.include("Invalid amount on line 1");
+    }
+  });
+
+  it("Reads quoted CSV cells like import-recipients", async () => {
+    const inputFile = path.join(workDir, "quoted.csv");
+    fs.writeFileSync(
+      inputFile,
+      '"publicKey","amount"\n' +
+        recipients.map((r) => `"${r.recipient}", "${r.amount}"`).join("\n")
+    );
+
+    const manifest = await buildStreamingMerkleTree(inputFile, {
+      ...quiet,
+      outputDir: path.join(workDir, "tree-quoted"),
+    });
+    expect(manifest.root).to.equal(
+      new SimpleMerkleTree(recipients).getRootHex()
+    );
+  });
+
+  it("Rejects duplicate recipients", async () => {
+    const inputFile = path.join(workDir, "duplicate.csv");
+    fs.writeFileSync(
+      inputFile,
+      [...recipients, recipients[1]]
+        .map((r) => `${r.recipient},${r.amount}`)
+        .join("\n")
+    );
+
+    try {
+      await buildStreamingMerkleTree(inputFile, {
+        ...quiet,
+        outputDir: path.join(workDir, "tree-duplicate"),
+      });
+      expect.fail("Should have rejected a duplicate recipient");
+    } catch (error) {
+      expect(error.message).to.include(
+        `Duplicate recipient ${recipients[1].recipient} on line 10`
+      );
+    }
+  });
+
+  it("Rejects a failing batch after the first without crashing", async () => {
+    // With batches of 2, the bad key lands in the fourth batch while the
+    // first ones are still being written
+    const rows = recipients.map((r) => `${r.recipient},${r.amount}`);
+    rows[6] = `not-a-public-key,${recipients[6].amount}`;
+    const inputFile = path.join(workDir, "bad-batch.csv");
+    fs.writeFileSync(inputFile, rows.join("\n"));
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on("unhandledRejection", onUnhandled);
+
+    try {
+      await buildStreamingMerkleTree(inputFile, {
+        ...quiet,
+        outputDir: path.join(workDir, "tree-bad-batch"),
+      });
+      expect.fail("Should have rejected an invalid public key");
+    } catch (error) {
+      expect(error.message).to.include("Non-base58 character");
+    } finally {
+      process.off("unhandledRejection", onUnhandled);
+    }
+    expect(unhandled).to.be.empty;
+  });
+});
@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import {
+  formatDuration,
+  formatTimestamp,
+  parseDuration,
+  parseTimestamp,
+} from "../scripts/time";
+
+describe("time", () => {
+  it("Parses unix seconds and ISO 8601 dates", () => {
+    expect(parseTimestamp("1735689600")).to.equal(1735689600);
+    expect(parseTimestamp("2025-01-01T00:00:00Z")).to.equal(1735689600);
+    expect(parseTimestamp(" 2025-01-01 ")).to.equal(1735689600);
+
+    expect(() => parseTimestamp("tomorrow", "--claim-end")).to.throw(
+      '--claim-end "tomorrow" is not a unix timestamp or an ISO 8601 date'
+    );
+    expect(() => parseTimestamp("2025-13-45")).to.throw("ISO 8601");
+    expect(() => parseTimestamp("-5")).to.throw("unix timestamp");
+  });
+
+  it("Parses durations with an optional unit", () => {
+    expect(parseDuration("3600")).to.equal(3600);
+    expect(parseDuration("30d")).to.equal(30 * 86400);
+    expect(parseDuration("12h")).to.equal(12 * 3600);
+    expect(parseDuration("90m")).to.equal(5400);
+
+    expect(() => parseDuration("1.5d", "--vesting-duration")).to.throw(
+      '--vesting-duration "1.5d" is not a number of seconds or a d/h/m/s duration'
+    );
+    expect(() => parseDuration("2w")).to.throw("d/h/m/s");
+  });
+
+  it("Formats timestamps and durations", () => {
+    expect(formatTimestamp(1735689600)).to.equal("2025-01-01T00:00:00.000Z");
+    expect(formatTimestamp(0)).to.equal("none");
+
+    expect(formatDuration(93784)).to.equal("1d 2h");
+    expect(formatDuration(3600)).to.equal("1h");
+    expect(formatDuration(61)).to.equal("1m 1s");
+    expect(formatDuration(0)).to.equal("0s");
+    expect(formatDuration(-10)).to.equal("0s");
+  });
+});
@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import { buildMerkleTree, getProofData } from "../scripts/generate-proof";
+import { RecipientsFile } from "../scripts/load-recipients";
+import { LEAF_FORMAT } from "../scripts/merkle-tree";
+import { TreeSnapshot, writeTreeSnapshot } from "../scripts/tree-snapshot";
+
+describe("tree-snapshot", () => {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "tree-snapshot-"));
+
+  const recipientsFile = (count: number, algorithm = "keccak256") => {
+    const recipients = Array.from({ length: count }, (_, index) => ({
+      publicKey: Keypair.generate().publicKey.toString(),
+      amount: `${(index + 1) * 1000}`,
+      index,
+    }));
+    const data: RecipientsFile = {
+      airdropId: "snapshot-test",
+      description: "",
+      merkleRoot: "",
+      totalAmount: recipients
+        .reduce((sum, r) => sum + BigInt(r.amount), 0n)
+        .toString(),
+      network: "localnet",
+      programId: Keypair.generate().publicKey.toString(),
+      recipients,
+      metadata: {
+        createdAt: "2025-01-01T00:00:00Z",
+        version: "1.0.0",
+        algorithm,
+        leafFormat: LEAF_FORMAT,
+      },
+    };
+    data.merkleRoot = buildMerkleTree(data).getRootHex();
+    return data;
+  };
+
+  // Write a snapshot for the file and return its path
+  const snapshotOf = (data: RecipientsFile, name: string) => {
+    const snapshotFile = path.join(workDir, name);
+    writeTreeSnapshot(snapshotFile, buildMerkleTree(data), data);
+    return snapshotFile;
+  };
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("Serves the same proofs as the rebuilt tree", () => {
+    for (const [count, algorithm] of [
+      [1, "keccak256"],
+      [2, "keccak256"],
+      [7, "keccak256"],
+      [7, "sha256-sorted"],
+    ] as const) {
+      const data = recipientsFile(count, algorithm);
+      const merkleTree = buildMerkleTree(data);
+      const snapshot = TreeSnapshot.load(
+        snapshotOf(data, `tree-${count}-${algorithm}.bin`)
+      );
+
+      expect(snapshot.getRootHex()).to.equal(data.merkleRoot);
+      expect(snapshot.header).to.deep.include({
+        algorithm,
+        leafFormat: LEAF_FORMAT,
+        leafCount: count,
+      });
+      expect(() => snapshot.assertMatches(data)).not.to.throw();
+      for (const recipient of data.recipients) {
+        expect(snapshot.getProofData(recipient.publicKey)).to.deep.equal(
+          getProofData(merkleTree, recipient)
+        );
+      }
+      expect(snapshot.getProofData(Keypair.generate().publicKey.toString())).to
+        .be.null;
+    }
+  });
+
+  it("Rejects files that are not a complete snapshot", () => {
+    const snapshotFile = snapshotOf(recipientsFile(5), "complete.bin");
+    const bytes = fs.readFileSync(snapshotFile);
+
+    const badMagic = Buffer.from(bytes);
+    badMagic.write("XXXX", 0, "ascii");
+    fs.writeFileSync(snapshotFile, badMagic);
+    expect(() => TreeSnapshot.load(snapshotFile)).to.throw("bad magic");
+
+    // Cut inside the header, inside the levels and one byte short of the end
+    for (const length of [5, 20, bytes.length - 100, bytes.length - 1]) {
+      fs.writeFileSync(snapshotFile, bytes.subarray(0, length));
+      expect(() => TreeSnapshot.load(snapshotFile)).to.throw(
+        "truncated or corrupt"
+      );
+    }
+  });
+
+  it("Refuses a recipients file it was not built from", () => {
+    const data = recipientsFile(5);
+    const snapshot = TreeSnapshot.load(snapshotOf(data, "refuse.bin"));
+
+    // Hex case is not significant
+    expect(() =>
+      snapshot.assertMatches({
+        ...data,
+        merkleRoot: "0x" + data.merkleRoot.slice(2).toUpperCase(),
+      })
+    ).not.to.throw();
+
+    const otherRoot = recipientsFile(5).merkleRoot;
+    expect(() =>
+      snapshot.assertMatches({ ...data, merkleRoot: otherRoot })
+    ).to.throw("does not match merkleRoot");
+
+    // An amount edited without regenerating keeps the stale root
+    const edited = {
+      ...data,
+      recipients: data.recipients.map((r) =>
+        r.index === 3 ? { ...r, amount: "4001" } : r
+      ),
+    };
+    expect(() => snapshot.assertMatches(edited)).to.throw(
+      `Recipient ${data.recipients[3].publicKey} (index 3, amount 4001) does not match the snapshot`
+    );
+  });
+});
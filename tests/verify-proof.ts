@@ -0,0 +1,88 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import { generateMerkleTree } from "../scripts/generate-merkle-tree";
+import { generateProofForRecipient } from "../scripts/generate-proof";
+import { verifyProofData, verifyRecipientProof } from "../scripts/verify-proof";
+
+describe("verify-proof", () => {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "verify-proof-"));
+  const recipientsFile = path.join(workDir, "recipients.json");
+  // An odd count, so the last node of a level is paired with itself
+  const recipients = Array.from({ length: 5 }, (_, index) => ({
+    publicKey: Keypair.generate().publicKey.toString(),
+    amount: `${(index + 1) * 1_000_000}`,
+    index,
+  }));
+  let merkleRoot: string;
+
+  const proofFor = (index: number) => {
+    const proofData = generateProofForRecipient(
+      recipients[index].publicKey,
+      recipientsFile
+    );
+    if (!proofData) {
+      throw new Error(`No proof for recipient ${index}`);
+    }
+    return proofData;
+  };
+
+  before(async () => {
+    fs.writeFileSync(
+      recipientsFile,
+      JSON.stringify({
+        airdropId: "verify-proof",
+        description: "",
+        merkleRoot: "",
+        totalAmount: "15000000",
+        network: "localnet",
+        programId: Keypair.generate().publicKey.toString(),
+        recipients,
+        metadata: {
+          createdAt: "2025-01-01T00:00:00Z",
+          version: "1.0.0",
+          algorithm: "keccak256",
+          leafFormat: "",
+        },
+      })
+    );
+    merkleRoot = (await generateMerkleTree(recipientsFile)).merkleRoot;
+  });
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("Accepts every recipient's proof against the root", async () => {
+    for (const { index, publicKey } of recipients) {
+      expect(verifyProofData(proofFor(index), merkleRoot)).to.be.true;
+      expect(await verifyRecipientProof(publicKey, { recipientsFile })).to.be
+        .true;
+    }
+  });
+
+  it("Rejects tampered proofs", () => {
+    const proofData = proofFor(2);
+
+    expect(verifyProofData({ ...proofData, amount: "3000001" }, merkleRoot)).to
+      .be.false;
+    expect(
+      verifyProofData(
+        { ...proofData, recipient: recipients[3].publicKey },
+        merkleRoot
+      )
+    ).to.be.false;
+    expect(verifyProofData({ ...proofData, leafIndex: 3 }, merkleRoot)).to.be
+      .false;
+
+    const proof = proofData.proof.map((node) => [...node]);
+    proof[0][0] ^= 0xff;
+    expect(verifyProofData({ ...proofData, proof }, merkleRoot)).to.be.false;
+
+    // A valid proof checked against another tree's root
+    expect(verifyProofData(proofData, "0x" + "ab".repeat(32))).to.be.false;
+    expect(verifyProofData(proofData, "0x1234")).to.be.false;
+  });
+});
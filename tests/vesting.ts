@@ -0,0 +1,72 @@
+import { expect } from "chai";
+import {
+  NO_VESTING,
+  VestingSchedule,
+  assertValidVesting,
+  vestedAmount,
+  vestingStatus,
+} from "../scripts/vesting";
+
+describe("vesting", () => {
+  const schedule: VestingSchedule = {
+    startTime: 1_000_000,
+    cliffSeconds: 100,
+    durationSeconds: 1000,
+  };
+  const amount = BigInt(1_000_000_000);
+
+  it("Vests nothing before the cliff, then linearly until the end", () => {
+    expect(vestedAmount(schedule, amount, 999_000)).to.equal(BigInt(0));
+    expect(vestedAmount(schedule, amount, 1_000_099)).to.equal(BigInt(0));
+    // At the cliff everything accrued since the start unlocks at once
+    expect(vestedAmount(schedule, amount, 1_000_100)).to.equal(
+      BigInt(100_000_000)
+    );
+    expect(vestedAmount(schedule, amount, 1_000_333)).to.equal(
+      BigInt(333_000_000)
+    );
+    expect(vestedAmount(schedule, amount, 1_001_000)).to.equal(amount);
+    expect(vestedAmount(schedule, amount, 2_000_000)).to.equal(amount);
+
+    expect(vestedAmount(NO_VESTING, amount, 0)).to.equal(amount);
+  });
+
+  it("Rounds down so partial claims never exceed the leaf amount", () => {
+    const odd = { startTime: 0, cliffSeconds: 0, durationSeconds: 3 };
+    expect(vestedAmount(odd, BigInt(10), 1)).to.equal(BigInt(3));
+    expect(vestedAmount(odd, BigInt(10), 2)).to.equal(BigInt(6));
+    expect(vestedAmount(odd, BigInt(10), 3)).to.equal(BigInt(10));
+  });
+
+  it("Reports vested, claimed, claimable and remaining amounts", () => {
+    expect(
+      vestingStatus(schedule, amount, BigInt(250_000_000), 1_000_500)
+    ).to.deep.equal({
+      total: amount,
+      vested: BigInt(500_000_000),
+      claimed: BigInt(250_000_000),
+      claimable: BigInt(250_000_000),
+      remaining: BigInt(750_000_000),
+    });
+
+    // A root update can lower an amount below what was already withdrawn
+    const status = vestingStatus(NO_VESTING, BigInt(10), BigInt(20), 0);
+    expect(status.claimable).to.equal(BigInt(0));
+    expect(status.remaining).to.equal(BigInt(0));
+  });
+
+  it("Rejects schedules the program would refuse", () => {
+    expect(() => assertValidVesting(NO_VESTING)).not.to.throw();
+    expect(() => assertValidVesting(schedule, 1_001_000)).not.to.throw();
+
+    expect(() =>
+      assertValidVesting({ ...NO_VESTING, startTime: 1_000_000 })
+    ).to.throw("need a vesting duration");
+    expect(() =>
+      assertValidVesting({ ...schedule, cliffSeconds: 2000 })
+    ).to.throw("longer than the duration");
+    expect(() => assertValidVesting(schedule, 1_000_999)).to.throw(
+      "after claims close"
+    );
+  });
+});